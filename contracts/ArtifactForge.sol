@@ -0,0 +1,197 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+/// @notice Importing OpenZeppelin ownership control and the interfaces of the game tokens
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "./interfaces/IArtifactsERC1155.sol";
+import "./interfaces/ICrystals.sol";
+
+/**
+ * @title ArtifactForge
+ * @notice Crafting contract that burns artifacts and Crystals according to owner-defined recipes
+ *         and mints a new artifact in return.
+ *
+ * @dev
+ * Key features:
+ *  - On-chain recipe registry managed by the owner
+ *  - Each recipe burns a set of artifact ids/amounts plus an optional Crystals cost
+ *  - `craft` burns all inputs and mints the output atomically
+ *  - Recipes can be disabled without being deleted
+ *
+ * Requirements:
+ *  - The forge must hold MINTER_ROLE on ArtifactsERC1155 (to mint outputs) and BURNER_ROLE on CrystalsV2 (to burn Crystals)
+ *  - Players must approve the forge on ArtifactsERC1155 via `setApprovalForAll` before crafting
+ *  - Output ids must be registered artifact types in ArtifactsERC1155
+ *
+ * Inherits from:
+ *  - OpenZeppelin Ownable
+ *
+ * Events:
+ *  - RecipeSet — recipe created or updated
+ *  - RecipeEnabled — recipe enabled or disabled
+ *  - Crafted — player crafted an artifact
+ *
+ * Usage example:
+ *  1. Owner deploys the forge and grants it MINTER_ROLE on ArtifactsERC1155 and BURNER_ROLE on CrystalsV2.
+ *  2. Owner defines recipes using `addRecipe`.
+ *  3. Player approves the forge on ArtifactsERC1155 and calls `craft(recipeId)`.
+ *
+ * Author: Matik86 (Mibboverse)
+ * Version: 1.0.0
+ */
+
+/// @title ArtifactForge
+/// @notice Burns artifacts and Crystals to craft new artifacts according to owner-defined recipes.
+/// @dev Relies on roles granted by ArtifactsERC1155 and CrystalsV2.
+contract ArtifactForge is Ownable {
+    /// @notice Artifacts collection used for inputs and outputs
+    IArtifactsERC1155 public immutable artifacts;
+
+    /// @notice Crystals token (proxy address) burned as crafting cost
+    ICrystals public immutable crystals;
+
+    /// @notice Crafting recipe definition
+    struct Recipe {
+        uint256[] inputIds;      // Artifact IDs burned
+        uint256[] inputAmounts;  // Amounts burned, one per input ID
+        uint256 crystalsCost;    // Crystals burned (0 = none)
+        uint256 outputId;        // Artifact ID minted
+        uint256 outputAmount;    // Amount minted
+        bool enabled;            // Whether the recipe can be crafted
+    }
+
+    /// @notice Number of recipes created; recipe IDs start from 1
+    uint256 public recipeCount;
+
+    /// @notice Recipe storage by ID
+    mapping(uint256 => Recipe) private _recipes;
+
+    /// @notice Emitted when a recipe is created or updated
+    event RecipeSet(
+        uint256 indexed recipeId,
+        uint256[] inputIds,
+        uint256[] inputAmounts,
+        uint256 crystalsCost,
+        uint256 outputId,
+        uint256 outputAmount
+    );
+
+    /// @notice Emitted when a recipe is enabled or disabled
+    event RecipeEnabled(uint256 indexed recipeId, bool enabled);
+
+    /// @notice Emitted when a player crafts an artifact
+    event Crafted(address indexed player, uint256 indexed recipeId, uint256 outputId, uint256 outputAmount);
+
+    /// @notice Contract constructor
+    /// @param artifacts_ Address of ArtifactsERC1155
+    /// @param crystals_ Address of the Crystals proxy
+    constructor(address artifacts_, address crystals_) Ownable(msg.sender) {
+        require(artifacts_ != address(0) && crystals_ != address(0), "Zero address");
+        artifacts = IArtifactsERC1155(artifacts_);
+        crystals = ICrystals(crystals_);
+    }
+
+    /// @notice Create a new enabled recipe
+    /// @param inputIds Artifact IDs to burn
+    /// @param inputAmounts Amounts to burn, one per input ID
+    /// @param crystalsCost Crystals to burn (0 = none)
+    /// @param outputId Artifact ID to mint
+    /// @param outputAmount Amount to mint
+    /// @return recipeId ID of the new recipe
+    function addRecipe(
+        uint256[] calldata inputIds,
+        uint256[] calldata inputAmounts,
+        uint256 crystalsCost,
+        uint256 outputId,
+        uint256 outputAmount
+    ) external onlyOwner returns (uint256 recipeId) {
+        recipeId = ++recipeCount;
+        _setRecipe(recipeId, inputIds, inputAmounts, crystalsCost, outputId, outputAmount);
+        _recipes[recipeId].enabled = true;
+        emit RecipeEnabled(recipeId, true);
+    }
+
+    /// @notice Replace the inputs and output of an existing recipe
+    /// @param recipeId ID of the recipe
+    /// @param inputIds Artifact IDs to burn
+    /// @param inputAmounts Amounts to burn, one per input ID
+    /// @param crystalsCost Crystals to burn (0 = none)
+    /// @param outputId Artifact ID to mint
+    /// @param outputAmount Amount to mint
+    function updateRecipe(
+        uint256 recipeId,
+        uint256[] calldata inputIds,
+        uint256[] calldata inputAmounts,
+        uint256 crystalsCost,
+        uint256 outputId,
+        uint256 outputAmount
+    ) external onlyOwner {
+        require(recipeId > 0 && recipeId <= recipeCount, "Recipe does not exist");
+        _setRecipe(recipeId, inputIds, inputAmounts, crystalsCost, outputId, outputAmount);
+    }
+
+    /// @notice Enable or disable a recipe
+    /// @param recipeId ID of the recipe
+    /// @param enabled True to enable, false to disable
+    function setRecipeEnabled(uint256 recipeId, bool enabled) external onlyOwner {
+        require(recipeId > 0 && recipeId <= recipeCount, "Recipe does not exist");
+        _recipes[recipeId].enabled = enabled;
+        emit RecipeEnabled(recipeId, enabled);
+    }
+
+    /// @notice Returns a recipe
+    /// @param recipeId ID of the recipe
+    function getRecipe(uint256 recipeId) external view returns (Recipe memory) {
+        return _recipes[recipeId];
+    }
+
+    /// @notice Burn the inputs of a recipe from the caller and mint its output
+    /// @dev Caller must have approved the forge on ArtifactsERC1155
+    /// @param recipeId ID of the recipe
+    function craft(uint256 recipeId) external {
+        Recipe storage recipe = _recipes[recipeId];
+        require(recipe.enabled, "Recipe not enabled");
+
+        for (uint256 i = 0; i < recipe.inputIds.length; i++) {
+            artifacts.burn(msg.sender, recipe.inputIds[i], recipe.inputAmounts[i]);
+        }
+
+        if (recipe.crystalsCost > 0) {
+            crystals.adminBurnFrom(msg.sender, recipe.crystalsCost);
+        }
+
+        uint256[] memory ids = new uint256[](1);
+        uint256[] memory amounts = new uint256[](1);
+        ids[0] = recipe.outputId;
+        amounts[0] = recipe.outputAmount;
+        artifacts.mintBatch(msg.sender, ids, amounts);
+
+        emit Crafted(msg.sender, recipeId, recipe.outputId, recipe.outputAmount);
+    }
+
+    /// @dev Validates and stores recipe inputs and output
+    function _setRecipe(
+        uint256 recipeId,
+        uint256[] calldata inputIds,
+        uint256[] calldata inputAmounts,
+        uint256 crystalsCost,
+        uint256 outputId,
+        uint256 outputAmount
+    ) private {
+        require(inputIds.length == inputAmounts.length, "Length mismatch");
+        require(inputIds.length > 0 || crystalsCost > 0, "Recipe has no inputs");
+        require(outputAmount > 0, "Amount must be > 0");
+        for (uint256 i = 0; i < inputAmounts.length; i++) {
+            require(inputAmounts[i] > 0, "Amount must be > 0");
+        }
+
+        Recipe storage recipe = _recipes[recipeId];
+        recipe.inputIds = inputIds;
+        recipe.inputAmounts = inputAmounts;
+        recipe.crystalsCost = crystalsCost;
+        recipe.outputId = outputId;
+        recipe.outputAmount = outputAmount;
+
+        emit RecipeSet(recipeId, inputIds, inputAmounts, crystalsCost, outputId, outputAmount);
+    }
+}
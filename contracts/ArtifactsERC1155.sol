@@ -3,38 +3,62 @@ pragma solidity ^0.8.30;
 
 /// @notice Importing OpenZeppelin libraries for ERC1155 standard, ownership, and cryptographic utilities
 import "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
+import "@openzeppelin/contracts/token/ERC1155/extensions/ERC1155Supply.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "./utils/AccessRoles.sol";
+import "./utils/ArtifactMetadata.sol";
+import "./utils/GuardianPausable.sol";
+import "./utils/Royalties.sol";
 
 /**
  * @title ArtifactsERC1155
- * @notice Custom ERC1155 contract with admin-controlled roles, signature-based minting, and token metadata management.
+ * @notice Custom ERC1155 contract with role-based access control, signature-based minting, and token metadata management.
  *
  * @dev
  * Key features:
- *  - Admin system managed by owner for controlling mint permissions
- *  - EIP-712 signature-based minting with nonces to prevent replay attacks (`mintWithPermit`)
+ *  - Enumerable roles managed by owner: MINTER (mints, signs permits, cancels nonces), METADATA_MANAGER, PAUSER
+ *  - EIP-712 signature-based minting with nonces and optional deadlines to prevent replay attacks (`mintWithPermit`)
+ *  - Outstanding nonces can be cancelled by a minter or the recipient (`cancelNonce`)
+ *  - Batch minting of several ids under one signature and nonce (`mintBatchWithPermit`)
+ *  - Minter-only direct batch minting for airdrops (`mintBatch`)
  *  - Metadata management supporting custom names and URIs for each token
+ *  - Optional fully on-chain metadata per token ID: `uri` returns a base64 JSON document with description,
+ *    image or SVG and Rarity / Element / Power attributes (`setOnChainMetadata`, `setMetadataMode`)
+ *  - Artifact type registry with per-id max supply, mint window and enabled flag, enforced on every mint
+ *  - Per-id supply tracking (`totalSupply`, `remaining`)
+ *  - ERC-4906 `MetadataUpdate` events from every metadata setter so marketplaces refresh
+ *  - EIP-2981 royalties set by the owner, collection-wide and per token
  *  - Burn functionality for token owners or approved operators
+ *  - Guardian emergency stop with separate MINT, TRANSFER and BURN pause flags
  *  - Standard ERC1155 multi-token functionality
  *
  * Inherits from:
  *  - OpenZeppelin ERC1155
+ *  - OpenZeppelin ERC1155Supply
  *  - OpenZeppelin Ownable
  *  - OpenZeppelin EIP712
+ *  - AccessRoles
+ *  - GuardianPausable
+ *  - Royalties (OpenZeppelin ERC2981)
  *
  * Events:
- *  - AdminAdded / AdminRemoved — admin management
+ *  - RoleGranted / RoleRevoked — role management
  *  - TokenMetadataUpdated — updates token name and URI
+ *  - OnChainMetadataUpdated / MetadataModeUpdated — on-chain metadata stored or switched on/off
+ *  - MetadataUpdate — ERC-4906 refresh signal
+ *  - DefaultRoyaltyUpdated / TokenRoyaltyUpdated — royalty changes
+ *  - ArtifactTypeSet — artifact type registered or reconfigured
+ *  - NonceCancelled — outstanding permit nonce invalidated
  *  - Minted — (implicitly via mintWithPermit) token minted to an address
  *
  * Usage example:
- *  1. Owner adds an admin using `setAdmin`.
- *  2. Admin or owner signs an off-chain minting authorization using EIP-712.
+ *  1. Owner grants MINTER_ROLE using `grantRole` (or `setAdmin`) and registers artifact types using `setArtifactType`.
+ *  2. Minter or owner signs an off-chain minting authorization using EIP-712.
  *  3. User calls `mintWithPermit` with the signed message.
  *  4. Contract verifies signature, nonce, and mints the requested token(s).
- *  5. Owner can set or update token metadata using `setTokenMetadata`.
+ *  5. Owner or metadata manager can set or update token metadata using `setTokenMetadata` / `setTokenMetadataBatch`.
  *  6. Tokens can be burned by their owners or approved operators.
  *
  * Author: <Your Name or Team>
@@ -42,9 +66,9 @@ import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
  */
 
 /// @title ArtifactsERC1155
-/// @notice Custom ERC1155 contract with signature-based minting, admin roles, and metadata management.
+/// @notice Custom ERC1155 contract with signature-based minting, access roles, and metadata management.
 /// @dev Uses EIP-712 typed structured data hashing and signing for secure mint authorization.
-contract ArtifactsERC1155 is ERC1155, Ownable, EIP712 {
+contract ArtifactsERC1155 is ERC1155, ERC1155Supply, Ownable, EIP712, AccessRoles, GuardianPausable, Royalties {
     // Token collection details
     string public name = "Artifacts of the Mibboverse";
     string public symbol = "ATF";
@@ -52,28 +76,58 @@ contract ArtifactsERC1155 is ERC1155, Ownable, EIP712 {
     // Importing ECDSA library for signature recovery
     using ECDSA for bytes32;
     
-    /// @notice Mapping for contract admins (set by the owner)
-    mapping(address => bool) public admins;
-
     /// @notice Nonce tracking for each user to prevent replay attacks in signature-based minting
     mapping(address => uint256) public nonces;
     
     /// @notice Token metadata storage
     mapping(uint256 => string) private _tokenURIs;
     mapping(uint256 => string) private _tokenNames;
-    
-    /// @notice Emitted when a new admin is added
-    event AdminAdded(address indexed admin);
 
-    /// @notice Emitted when an existing admin is removed
-    event AdminRemoved(address indexed admin);
+    /// @notice On-chain metadata per token ID, rendered by `uri` when the ID is in on-chain mode
+    mapping(uint256 => ArtifactMetadata.Metadata) private _onChainMetadata;
 
+    /// @notice Whether `uri` renders the token's metadata on-chain instead of returning the stored URI
+    mapping(uint256 => bool) public onChainMetadataEnabled;
+
+    /// @notice Mint rules of a registered artifact type
+    struct ArtifactType {
+        bool registered;    // Set once the owner has configured the id
+        bool enabled;       // Minting switch
+        uint64 mintStart;   // Minting opens at this timestamp
+        uint64 mintEnd;     // Minting closes after this timestamp (0 = never)
+        uint256 maxSupply;  // Maximum amount ever minted (0 = unlimited)
+        uint256 minted;     // Amount minted so far (burns do not free up supply)
+    }
+
+    /// @notice Artifact type configuration per token ID
+    mapping(uint256 => ArtifactType) public artifactTypes;
+    
     /// @notice Emitted when token metadata is updated
     event TokenMetadataUpdated(uint256 indexed tokenId, string name, string uri);
+
+    /// @notice ERC-4906: emitted whenever the metadata returned by `uri(tokenId)` changes
+    event MetadataUpdate(uint256 _tokenId);
+
+    /// @notice Emitted when the on-chain metadata of a token changes
+    event OnChainMetadataUpdated(uint256 indexed tokenId);
+
+    /// @notice Emitted when a token switches between stored-URI and on-chain metadata
+    event MetadataModeUpdated(uint256 indexed tokenId, bool onChain);
+
+    /// @notice Emitted when an artifact type is registered or reconfigured
+    event ArtifactTypeSet(uint256 indexed tokenId, uint256 maxSupply, uint64 mintStart, uint64 mintEnd, bool enabled);
+
+    /// @notice Emitted when an outstanding permit nonce is invalidated
+    event NonceCancelled(address indexed to, uint256 nonce, address indexed canceller);
     
     // EIP-712 domain and version identifiers
     string private constant SIGNING_DOMAIN = "AdminMintableERC1155";
     string private constant SIGNATURE_VERSION = "1";
+
+    /// @notice Pause keys for `pause` / `unpause`
+    bytes32 public constant MINT_ACTION = keccak256("MINT");
+    bytes32 public constant TRANSFER_ACTION = keccak256("TRANSFER");
+    bytes32 public constant BURN_ACTION = keccak256("BURN");
     
     // Struct used for signature-based minting requests
     struct MintRequest {
@@ -81,28 +135,31 @@ contract ArtifactsERC1155 is ERC1155, Ownable, EIP712 {
         uint256 id;      // Token ID
         uint256 amount;  // Amount to mint
         uint256 nonce;   // Unique nonce per recipient
+        uint256 deadline; // Expiration timestamp (0 = no deadline)
     }
     
     // Typehash for MintRequest struct, used in EIP-712 encoding
     bytes32 private constant MINTREQUEST_TYPEHASH = keccak256(
-        "MintRequest(address to,uint256 id,uint256 amount,uint256 nonce)"
+        "MintRequest(address to,uint256 id,uint256 amount,uint256 nonce,uint256 deadline)"
+    );
+
+    // Struct used for signature-based batch minting requests
+    struct MintBatchRequest {
+        address to;          // Recipient address
+        uint256[] ids;       // Token IDs
+        uint256[] amounts;   // Amounts to mint, one per ID
+        uint256 nonce;       // Unique nonce per recipient (shared with MintRequest)
+        uint256 deadline;    // Expiration timestamp (0 = no deadline)
+    }
+
+    // Typehash for MintBatchRequest struct, used in EIP-712 encoding
+    bytes32 private constant MINTBATCHREQUEST_TYPEHASH = keccak256(
+        "MintBatchRequest(address to,uint256[] ids,uint256[] amounts,uint256 nonce,uint256 deadline)"
     );
     
     /// @notice Contract constructor initializes ERC1155 and EIP712
     constructor() ERC1155("") EIP712(SIGNING_DOMAIN, SIGNATURE_VERSION) Ownable(msg.sender) {}
-    
-    /// @notice Set or revoke admin privileges
-    /// @param admin Address to set as admin
-    /// @param allowed Boolean flag (true = add admin, false = remove admin)
-    function setAdmin(address admin, bool allowed) external onlyOwner {
-        admins[admin] = allowed;
-        if (allowed) {
-            emit AdminAdded(admin);
-        } else {
-            emit AdminRemoved(admin);
-        }
-    }
-    
+
     /// @notice Update token metadata (name and URI)
     /// @param tokenId ID of the token
     /// @param name_ Human-readable token name
@@ -111,15 +168,101 @@ contract ArtifactsERC1155 is ERC1155, Ownable, EIP712 {
         uint256 tokenId,
         string memory name_,
         string memory uri_
-    ) external onlyOwner {
-        _tokenNames[tokenId] = name_;
-        _tokenURIs[tokenId] = uri_;
-        emit TokenMetadataUpdated(tokenId, name_, uri_);
+    ) external onlyRole(METADATA_MANAGER_ROLE) {
+        _setTokenMetadata(tokenId, name_, uri_);
+    }
+
+    /// @notice Update the metadata of several tokens at once (e.g. from a deployment parameters file)
+    /// @param tokenIds IDs of the tokens
+    /// @param names Human-readable token names, one per ID
+    /// @param uris Token URIs, one per ID
+    function setTokenMetadataBatch(
+        uint256[] calldata tokenIds,
+        string[] calldata names,
+        string[] calldata uris
+    ) external onlyRole(METADATA_MANAGER_ROLE) {
+        require(tokenIds.length == names.length && tokenIds.length == uris.length, "Length mismatch");
+        for (uint256 i = 0; i < tokenIds.length; i++) {
+            _setTokenMetadata(tokenIds[i], names[i], uris[i]);
+        }
     }
     
+    /// @notice Store the on-chain metadata of a token; the name comes from `setTokenMetadata`
+    /// @param tokenId ID of the token
+    /// @param metadata Description, image URI or SVG, and Rarity / Element / Power attributes
+    function setOnChainMetadata(
+        uint256 tokenId,
+        ArtifactMetadata.Metadata calldata metadata
+    ) external onlyRole(METADATA_MANAGER_ROLE) {
+        require(metadata.rarity < ArtifactMetadata.RARITY_COUNT, "Invalid rarity");
+        require(metadata.element < ArtifactMetadata.ELEMENT_COUNT, "Invalid element");
+        _onChainMetadata[tokenId] = metadata;
+        emit OnChainMetadataUpdated(tokenId);
+        emit MetadataUpdate(tokenId);
+    }
+
+    /// @notice Switch a token between its stored URI and on-chain rendering
+    /// @param tokenId ID of the token
+    /// @param onChain True to render on-chain, false to return the stored URI
+    function setMetadataMode(uint256 tokenId, bool onChain) external onlyRole(METADATA_MANAGER_ROLE) {
+        onChainMetadataEnabled[tokenId] = onChain;
+        emit MetadataModeUpdated(tokenId, onChain);
+        emit MetadataUpdate(tokenId);
+    }
+
+    /// @notice Returns the stored on-chain metadata of a token
+    /// @param tokenId ID of the token
+    function onChainMetadata(uint256 tokenId) external view returns (ArtifactMetadata.Metadata memory) {
+        return _onChainMetadata[tokenId];
+    }
+
+    /// @notice Register or reconfigure an artifact type; only registered types can be minted
+    /// @param tokenId ID of the token
+    /// @param maxSupply Maximum amount that can ever be minted (0 = unlimited)
+    /// @param mintStart Timestamp at which minting opens
+    /// @param mintEnd Timestamp after which minting closes (0 = never)
+    /// @param enabled Whether minting is currently allowed
+    function setArtifactType(
+        uint256 tokenId,
+        uint256 maxSupply,
+        uint64 mintStart,
+        uint64 mintEnd,
+        bool enabled
+    ) external onlyOwner {
+        require(mintEnd == 0 || mintEnd >= mintStart, "Invalid mint window");
+
+        ArtifactType storage artifact = artifactTypes[tokenId];
+        require(maxSupply == 0 || maxSupply >= artifact.minted, "Max supply below minted");
+
+        artifact.registered = true;
+        artifact.enabled = enabled;
+        artifact.mintStart = mintStart;
+        artifact.mintEnd = mintEnd;
+        artifact.maxSupply = maxSupply;
+
+        emit ArtifactTypeSet(tokenId, maxSupply, mintStart, mintEnd, enabled);
+    }
+
+    /// @notice Returns how many more tokens of an artifact type can be minted
+    /// @param tokenId ID of the token
+    /// @return Remaining supply (type(uint256).max if unlimited, 0 if not registered)
+    function remaining(uint256 tokenId) external view returns (uint256) {
+        ArtifactType storage artifact = artifactTypes[tokenId];
+        if (!artifact.registered) {
+            return 0;
+        }
+        if (artifact.maxSupply == 0) {
+            return type(uint256).max;
+        }
+        return artifact.maxSupply - artifact.minted;
+    }
+
     /// @notice Returns token URI
     /// @param tokenId ID of the token
     function uri(uint256 tokenId) public view override returns (string memory) {
+        if (onChainMetadataEnabled[tokenId]) {
+            return ArtifactMetadata.render(_tokenNames[tokenId], _onChainMetadata[tokenId]);
+        }
         return _tokenURIs[tokenId];
     }
     
@@ -145,15 +288,18 @@ contract ArtifactsERC1155 is ERC1155, Ownable, EIP712 {
     /// @param id Token ID
     /// @param amount Amount of tokens to mint
     /// @param nonce Nonce for replay protection
-    /// @param signature Off-chain signature by owner or admin
+    /// @param deadline Signature expiration timestamp (0 = no deadline)
+    /// @param signature Off-chain signature by owner or minter
     function mintWithPermit(
         address to,               
         uint256 id,               
         uint256 amount,           
         uint256 nonce,            
+        uint256 deadline,
         bytes memory signature    
     ) external {
         require(to != address(0), "Invalid address");
+        require(deadline == 0 || block.timestamp <= deadline, "Signature expired");
         require(nonce == nonces[to], "Invalid nonce");
         require(amount > 0, "Amount must be > 0");
 
@@ -161,7 +307,8 @@ contract ArtifactsERC1155 is ERC1155, Ownable, EIP712 {
             to: to,
             id: id,
             amount: amount,
-            nonce: nonce
+            nonce: nonce,
+            deadline: deadline
         });
 
         bytes32 structHash = keccak256(abi.encode(
@@ -169,16 +316,168 @@ contract ArtifactsERC1155 is ERC1155, Ownable, EIP712 {
             request.to,
             request.id,
             request.amount,
-            request.nonce
+            request.nonce,
+            request.deadline
         ));
 
         bytes32 hash = _hashTypedDataV4(structHash);
 
         address signer = ECDSA.recover(hash, signature);
-        require(signer == owner() || admins[signer], "Invalid signature");
+        require(_isAuthorized(MINTER_ROLE, signer), "Invalid signature");
 
         nonces[to]++;
 
         _mint(to, id, amount, "");
     }
+
+    /// @notice Mint several token IDs with a single signed permit (EIP-712 based authorization)
+    /// @dev Consumes one nonce from the same counter as `mintWithPermit`
+    /// @param to Recipient address
+    /// @param ids Token IDs
+    /// @param amounts Amounts of tokens to mint, one per ID
+    /// @param nonce Nonce for replay protection
+    /// @param deadline Signature expiration timestamp (0 = no deadline)
+    /// @param signature Off-chain signature by owner or minter
+    function mintBatchWithPermit(
+        address to,
+        uint256[] calldata ids,
+        uint256[] calldata amounts,
+        uint256 nonce,
+        uint256 deadline,
+        bytes calldata signature
+    ) external {
+        require(to != address(0), "Invalid address");
+        require(deadline == 0 || block.timestamp <= deadline, "Signature expired");
+        require(nonce == nonces[to], "Invalid nonce");
+        _validateBatch(ids, amounts);
+
+        bytes32 structHash = keccak256(abi.encode(
+            MINTBATCHREQUEST_TYPEHASH,
+            to,
+            keccak256(abi.encodePacked(ids)),
+            keccak256(abi.encodePacked(amounts)),
+            nonce,
+            deadline
+        ));
+
+        bytes32 hash = _hashTypedDataV4(structHash);
+
+        address signer = ECDSA.recover(hash, signature);
+        require(_isAuthorized(MINTER_ROLE, signer), "Invalid signature");
+
+        nonces[to]++;
+
+        _mintBatch(to, ids, amounts, "");
+    }
+
+    /// @notice Invalidate the current permit nonce of a recipient, revoking any signature issued for it
+    /// @dev Callable by the owner, a minter, or the recipient itself
+    /// @param to Recipient whose nonce is cancelled
+    /// @param nonce Nonce to cancel (must be the current one)
+    function cancelNonce(address to, uint256 nonce) external {
+        require(msg.sender == to || _isAuthorized(MINTER_ROLE, msg.sender), "Not allowed");
+        require(nonce == nonces[to], "Invalid nonce");
+
+        nonces[to]++;
+
+        emit NonceCancelled(to, nonce, msg.sender);
+    }
+
+    /// @notice Mint several token IDs directly (minter-only, e.g. for airdrops)
+    /// @param to Recipient address
+    /// @param ids Token IDs
+    /// @param amounts Amounts of tokens to mint, one per ID
+    function mintBatch(
+        address to,
+        uint256[] calldata ids,
+        uint256[] calldata amounts
+    ) external onlyRole(MINTER_ROLE) {
+        require(to != address(0), "Invalid address");
+        _validateBatch(ids, amounts);
+
+        _mintBatch(to, ids, amounts, "");
+    }
+
+    /// @dev Checks that a batch is non-empty, well-formed and mints a positive amount of every ID
+    function _validateBatch(uint256[] calldata ids, uint256[] calldata amounts) private pure {
+        require(ids.length > 0, "Empty batch");
+        require(ids.length == amounts.length, "Length mismatch");
+        for (uint256 i = 0; i < amounts.length; i++) {
+            require(amounts[i] > 0, "Amount must be > 0");
+        }
+    }
+
+    /// @dev Enforces pause flags and artifact type rules on every mint, transfer and burn, and keeps per-id supply in sync
+    function _update(
+        address from,
+        address to,
+        uint256[] memory ids,
+        uint256[] memory values
+    ) internal override(ERC1155, ERC1155Supply) {
+        if (from == address(0)) {
+            _requireNotPaused(MINT_ACTION);
+        } else if (to == address(0)) {
+            _requireNotPaused(BURN_ACTION);
+        } else {
+            _requireNotPaused(TRANSFER_ACTION);
+        }
+
+        if (from == address(0)) {
+            for (uint256 i = 0; i < ids.length; i++) {
+                _checkMintable(ids[i], values[i]);
+            }
+        }
+        super._update(from, to, ids, values);
+    }
+
+    /// @notice Returns true for ERC1155, EIP-2981 and ERC165
+    /// @dev ERC-4906 is an ERC-721 extension, so its interface ID is not reported even though the events are emitted
+    function supportsInterface(bytes4 interfaceId) public view override(ERC1155, ERC2981) returns (bool) {
+        return super.supportsInterface(interfaceId);
+    }
+
+    /// @dev Owner sets royalties
+    function _royaltyOwner() internal view override returns (address) {
+        return owner();
+    }
+
+    /// @dev Owner unpauses and manages the guardian
+    function _pauseOwner() internal view override returns (address) {
+        return owner();
+    }
+
+    /// @dev Owner grants and revokes roles
+    function _rolesOwner() internal view override returns (address) {
+        return owner();
+    }
+
+    /// @dev An admin used to mint, sign mint permits and cancel nonces
+    function _adminRoles() internal pure override returns (bytes32[] memory roles) {
+        roles = new bytes32[](1);
+        roles[0] = MINTER_ROLE;
+    }
+
+    /// @dev PAUSER_ROLE members can pause alongside the guardian
+    function _isPauser(address account) internal view override returns (bool) {
+        return hasRole(PAUSER_ROLE, account);
+    }
+
+    function _setTokenMetadata(uint256 tokenId, string memory name_, string memory uri_) private {
+        _tokenNames[tokenId] = name_;
+        _tokenURIs[tokenId] = uri_;
+        emit TokenMetadataUpdated(tokenId, name_, uri_);
+        emit MetadataUpdate(tokenId);
+    }
+
+    /// @dev Reverts unless `amount` of `tokenId` may be minted right now, then records it
+    function _checkMintable(uint256 tokenId, uint256 amount) private {
+        ArtifactType storage artifact = artifactTypes[tokenId];
+        require(artifact.registered, "Artifact not registered");
+        require(artifact.enabled, "Artifact disabled");
+        require(block.timestamp >= artifact.mintStart, "Mint not started");
+        require(artifact.mintEnd == 0 || block.timestamp <= artifact.mintEnd, "Mint ended");
+
+        artifact.minted += amount;
+        require(artifact.maxSupply == 0 || artifact.minted <= artifact.maxSupply, "Max supply exceeded");
+    }
 }
\ No newline at end of file
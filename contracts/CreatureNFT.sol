@@ -0,0 +1,160 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+/// @notice Importing OpenZeppelin libraries for ERC721 functionality, ownership control and string utilities
+import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/Strings.sol";
+import "./interfaces/ICreatureNFT.sol";
+import "./utils/AccessRoles.sol";
+import "./utils/GuardianPausable.sol";
+
+/**
+ * @title CreatureNFT
+ * @notice ERC721 collection of creatures hatched from Genesis eggs, each with on-chain traits.
+ *
+ * @dev
+ * Key features:
+ *  - Minted only by MINTER_ROLE members (the EggHatchery) together with the creature's traits
+ *  - Traits (species, element, rarity, power) are stored on-chain and fixed at hatching
+ *  - Per-token metadata under `baseURI`, managed by METADATA_MANAGER
+ *  - Burn functionality for token owners
+ *  - Guardian emergency stop with separate MINT, TRANSFER and BURN pause flags
+ *
+ * Inherits from:
+ *  - OpenZeppelin ERC721
+ *  - OpenZeppelin Ownable
+ *  - AccessRoles
+ *  - GuardianPausable
+ *
+ * Events:
+ *  - RoleGranted / RoleRevoked — role management
+ *  - BaseURIChanged — metadata location updated
+ *  - CreatureMinted — creature minted with its traits
+ *
+ * Usage example:
+ *  1. Owner deploys the collection and grants MINTER_ROLE to the EggHatchery.
+ *  2. Players hatch eggs in the EggHatchery, which mints creatures here.
+ *  3. Front-ends read `traitsOf(tokenId)` or the metadata under `baseURI`.
+ *
+ * Author: Matik86 (Mibboverse)
+ * Version: 1.0.0
+ */
+
+/// @title CreatureNFT
+/// @notice Creature collection with traits fixed at hatching.
+/// @dev Token IDs start from 1 and increase with every hatch.
+contract CreatureNFT is ERC721, Ownable, AccessRoles, GuardianPausable, ICreatureNFT {
+    using Strings for uint256;
+
+    /// @notice Pause keys for `pause` / `unpause`
+    bytes32 public constant MINT_ACTION = keccak256("MINT");
+    bytes32 public constant TRANSFER_ACTION = keccak256("TRANSFER");
+    bytes32 public constant BURN_ACTION = keccak256("BURN");
+
+    /// @notice Base URI for token-specific metadata
+    string public baseURI;
+
+    /// @dev Counter for minted tokens
+    uint256 private _tokenCounter;
+
+    /// @dev Traits by token ID
+    mapping(uint256 => Traits) private _traits;
+
+    /// @notice Emitted when the base URI is updated
+    event BaseURIChanged(string baseURI);
+
+    /// @notice Emitted when a creature is minted
+    event CreatureMinted(address indexed to, uint256 indexed tokenId, Traits traits);
+
+    /// @notice Contract constructor
+    /// @param name_ ERC721 token name
+    /// @param symbol_ ERC721 token symbol
+    /// @param baseURI_ Base URI for token metadata
+    constructor(
+        string memory name_,
+        string memory symbol_,
+        string memory baseURI_
+    ) ERC721(name_, symbol_) Ownable(msg.sender) {
+        baseURI = baseURI_;
+    }
+
+    /// @notice Returns the metadata URI of a creature
+    /// @param tokenId ID of the token to query
+    function tokenURI(uint256 tokenId) public view override returns (string memory) {
+        _requireOwned(tokenId);
+        return bytes(baseURI).length > 0 ? string(abi.encodePacked(baseURI, tokenId.toString(), ".json")) : "";
+    }
+
+    /// @notice Returns the traits of a creature
+    /// @param tokenId ID of the token to query
+    function traitsOf(uint256 tokenId) external view returns (Traits memory) {
+        _requireOwned(tokenId);
+        return _traits[tokenId];
+    }
+
+    /// @notice Update base URI for per-token metadata
+    /// @param baseURI_ New base URI
+    function setBaseURI(string memory baseURI_) external onlyRole(METADATA_MANAGER_ROLE) {
+        baseURI = baseURI_;
+        emit BaseURIChanged(baseURI_);
+    }
+
+    /// @notice Mint a creature with its traits (minter-only)
+    /// @param to Recipient address
+    /// @param traits Traits of the new creature
+    /// @return tokenId ID of the minted token
+    function mint(address to, Traits calldata traits) external onlyRole(MINTER_ROLE) returns (uint256 tokenId) {
+        tokenId = ++_tokenCounter;
+        _traits[tokenId] = traits;
+        _mint(to, tokenId);
+        emit CreatureMinted(to, tokenId, traits);
+    }
+
+    /// @notice Burns an existing token
+    /// @dev Caller must be token owner or approved operator
+    /// @param tokenId ID of the token to burn
+    function burn(uint256 tokenId) external {
+        _update(address(0), tokenId, msg.sender);
+        delete _traits[tokenId];
+    }
+
+    /// @notice Returns the total number of minted tokens
+    function totalSupply() external view returns (uint256) {
+        return _tokenCounter;
+    }
+
+    /// @dev Enforces pause flags on every mint, transfer and burn
+    function _update(address to, uint256 tokenId, address auth) internal override returns (address) {
+        address from = _ownerOf(tokenId);
+        if (from == address(0)) {
+            _requireNotPaused(MINT_ACTION);
+        } else if (to == address(0)) {
+            _requireNotPaused(BURN_ACTION);
+        } else {
+            _requireNotPaused(TRANSFER_ACTION);
+        }
+        return super._update(to, tokenId, auth);
+    }
+
+    /// @dev Owner unpauses and manages the guardian
+    function _pauseOwner() internal view override returns (address) {
+        return owner();
+    }
+
+    /// @dev Owner grants and revokes roles
+    function _rolesOwner() internal view override returns (address) {
+        return owner();
+    }
+
+    /// @dev An admin mints creatures
+    function _adminRoles() internal pure override returns (bytes32[] memory roles) {
+        roles = new bytes32[](1);
+        roles[0] = MINTER_ROLE;
+    }
+
+    /// @dev PAUSER_ROLE members can pause alongside the guardian
+    function _isPauser(address account) internal view override returns (bool) {
+        return hasRole(PAUSER_ROLE, account);
+    }
+}
@@ -7,64 +7,125 @@ import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/proxy/utils/UUPSUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/utils/cryptography/ECDSAUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/utils/cryptography/EIP712Upgradeable.sol";
+import "./utils/AccessRoles.sol";
+import "./utils/GuardianPausable.sol";
 
 /**
  * @title CrystalsV2
- * @notice Upgradeable ERC20 token with admin-controlled minting, off-chain EIP-712 signature minting, 
+ * @notice Upgradeable ERC20 token with role-controlled minting, off-chain EIP-712 signature minting, 
  *         contract whitelist, and UUPS upgradeability.
  *
  * @dev
  * Key features:
  *  - Upgradeable via UUPS proxy pattern
- *  - Admin-controlled minting and burning
+ *  - Role-controlled minting (MINTER) and burning (BURNER)
  *  - Signature-based minting via EIP-712 with nonces and optional deadlines to prevent replay
- *  - Contract whitelist restricting interactions via approve/transferFrom
- *  - Owner can manage admins and whitelisted contracts
+ *  - Mint caps shared by `mint` and `mintWithSignature`: global max supply, per-epoch emission budget and
+ *    per-minter epoch allowances (charged to the signer for signature mints)
+ *  - Owner-selected transfer policy enforced on every mint, transfer and approval (burns are exempt):
+ *    ContractWhitelist (default) — contracts may only send, receive, move or be approved for Crystals when
+ *    whitelisted, including from their constructor;
+ *    Open — no restrictions;
+ *    Soulbound — holders cannot transfer between themselves, only to or from whitelisted game contracts
+ *  - Enumerable roles managed by owner; WHITELIST_MANAGER manages whitelisted contracts, PAUSER can pause
+ *  - Admins from the pre-roles `admins` mapping are moved to roles with `migrateAdmins` (layout-safe)
  *  - Supports standard ERC20 functionality
+ *  - Guardian emergency stop with separate MINT, TRANSFER and BURN pause flags (namespaced storage, layout-safe)
  *
  * Inherits from:
  *  - OpenZeppelin ERC20Upgradeable
  *  - OpenZeppelin OwnableUpgradeable
  *  - OpenZeppelin EIP712Upgradeable
+ *  - AccessRoles
+ *  - GuardianPausable
  *  - OpenZeppelin UUPSUpgradeable
  *
  * Events:
- *  - AdminUpdated — admin added or removed
+ *  - RoleGranted / RoleRevoked — role management
+ *  - AdminMigrated — legacy admin moved to roles
  *  - ContractWhitelisted — contract added/removed from whitelist
+ *  - TransferPolicyUpdated — transfer policy changed
+ *  - MaxSupplyUpdated / EmissionBudgetUpdated / MinterAllowanceUpdated / EpochDurationUpdated — mint cap changes
  *  - AdminMint / AdminBurn — tokens minted/burned by admins
  *  - MintWithSignature — tokens minted via signed permit
  *
  * Usage example:
  *  1. Owner deploys contract via UUPS proxy and calls `initialize`.
- *  2. Owner or admin can mint tokens directly to any address using `mint`.
+ *  2. Owner or minter can mint tokens directly to any address using `mint`.
  *  3. Users can mint via `mintWithSignature` if they have an off-chain signed authorization.
- *  4. Admins or owner can burn tokens from any account using `adminBurnFrom`.
- *  5. Only whitelisted contracts can call `approve` or `transferFrom` if sender is a contract.
+ *  4. Burners or owner can burn tokens from any account using `adminBurnFrom`.
+ *  5. Under the default policy, only whitelisted contracts can hold, move or be approved for tokens.
  *
  * Author: Matik86 (Mibboverse)
  * Version: 2.0.0
  */
 
 /// @title CrystalsV2
-/// @notice Upgradeable ERC20 token with admin-controlled minting, signature-based minting, and contract whitelist.
+/// @notice Upgradeable ERC20 token with role-controlled minting, signature-based minting, and contract whitelist.
 /// @dev Implements UUPS proxy pattern for upgradeability. Uses EIP-712 for off-chain signed mint approvals.
-contract CrystalsV2 is ERC20Upgradeable, OwnableUpgradeable, EIP712Upgradeable, UUPSUpgradeable {
+contract CrystalsV2 is ERC20Upgradeable, OwnableUpgradeable, EIP712Upgradeable, UUPSUpgradeable, AccessRoles, GuardianPausable {
     using ECDSAUpgradeable for bytes32;
     
-    /// @notice Whitelisted contracts that are allowed to interact with approve/transferFrom
+    /// @notice Transfer restrictions selectable by the owner; the zero value keeps the original whitelist behaviour
+    enum TransferPolicy {
+        ContractWhitelist,
+        Open,
+        Soulbound
+    }
+
+    /// @notice Whitelisted game contracts that may hold, move and be approved for tokens
     mapping(address => bool) public contractWhitelist;
 
-    /// @notice Mapping of admin addresses (besides the owner)
-    mapping(address => bool) public admins;
+    /// @dev Pre-roles admin mapping; kept so the storage layout does not shift, emptied by `migrateAdmins`
+    mapping(address => bool) private _legacyAdmins;
 
     /// @notice Nonces for replay protection in signature-based minting
     mapping(address => uint256) public nonces;
+
+    /// @notice Active transfer policy (carved out of `__gap`)
+    TransferPolicy public transferPolicy;
+
+    /// @notice Ceiling on total supply (0 = unlimited)
+    uint256 public maxSupply;
+
+    /// @dev Length of an emission epoch in seconds (0 = DEFAULT_EPOCH_DURATION)
+    uint256 private _epochDuration;
+
+    /// @notice Amount all minters together can mint per epoch (0 = unlimited)
+    uint256 public epochEmissionBudget;
+
+    /// @notice Amount a single minter can mint or sign per epoch (0 = unlimited)
+    mapping(address => uint256) public minterAllowance;
+
+    /// @notice Amount minted per epoch
+    mapping(uint256 => uint256) public mintedInEpoch;
+
+    /// @notice Amount minted or signed per epoch and minter
+    mapping(uint256 => mapping(address => uint256)) public mintedByMinter;
+
+    /// @dev Reserved slots so CrystalsV2 can gain variables without shifting contracts that extend it
+    uint256[40] private __gap;
     
     /// @notice Emitted when a contract is added or removed from the whitelist
     event ContractWhitelisted(address indexed contractAddress, bool allowed);
 
-    /// @notice Emitted when an admin is added or removed
-    event AdminUpdated(address indexed admin, bool allowed);
+    /// @notice Emitted when the owner switches the transfer policy
+    event TransferPolicyUpdated(TransferPolicy policy);
+
+    /// @notice Emitted when the supply ceiling changes
+    event MaxSupplyUpdated(uint256 maxSupply);
+
+    /// @notice Emitted when the per-epoch emission budget changes
+    event EmissionBudgetUpdated(uint256 budget);
+
+    /// @notice Emitted when a minter's per-epoch allowance changes
+    event MinterAllowanceUpdated(address indexed minter, uint256 allowance);
+
+    /// @notice Emitted when the emission epoch length changes
+    event EpochDurationUpdated(uint256 epochDuration);
+
+    /// @notice Emitted when a legacy admin is moved to roles
+    event AdminMigrated(address indexed admin);
 
     /// @notice Emitted when an admin mints tokens directly
     event AdminMint(address indexed to, uint256 amount);
@@ -79,6 +140,14 @@ contract CrystalsV2 is ERC20Upgradeable, OwnableUpgradeable, EIP712Upgradeable,
     bytes32 private constant MINT_TYPEHASH =
         keccak256("Mint(address to,uint256 amount,uint256 nonce,uint256 deadline)");
 
+    /// @notice Pause keys for `pause` / `unpause`
+    bytes32 public constant MINT_ACTION = keccak256("MINT");
+    bytes32 public constant TRANSFER_ACTION = keccak256("TRANSFER");
+    bytes32 public constant BURN_ACTION = keccak256("BURN");
+
+    /// @notice Emission epoch length used until the owner sets one
+    uint256 public constant DEFAULT_EPOCH_DURATION = 1 days;
+
     /// @custom:oz-upgrades-unsafe-allow constructor
     /// @dev Required for upgradeable contracts. Prevents logic execution outside of proxy.
     constructor() initializer {}
@@ -92,49 +161,119 @@ contract CrystalsV2 is ERC20Upgradeable, OwnableUpgradeable, EIP712Upgradeable,
         __EIP712_init(name_, "1");
         __UUPSUpgradeable_init();
        
-       // The deployer is set as an initial admin
-        admins[msg.sender] = true;
-        emit AdminUpdated(msg.sender, true);
+       // The deployer is granted the admin roles
+        _setAdmin(msg.sender, true);
     }
-    
-    /// @dev Restricts access to only admins or owner
-    modifier onlyAdmin() {
-        require(admins[msg.sender] || owner() == msg.sender, "Not admin");
-        _;
+
+    /// @notice Move admins of the pre-roles `admins` mapping to the admin roles (owner-only)
+    /// @dev The old mapping cannot be enumerated, so the admins are listed by the caller.
+    ///      Meant to be passed to `upgradeToAndCall` so no admin loses access in between.
+    /// @param accounts Legacy admins to migrate
+    function migrateAdmins(address[] calldata accounts) external onlyOwner {
+        _migrateAdmins(accounts);
     }
-    
-    /// @notice Add or remove an admin
-    /// @param admin Address to grant/revoke admin rights
-    /// @param allowed True to add, false to remove
-    function setAdmin(address admin, bool allowed) external onlyOwner {
-        admins[admin] = allowed;
-        emit AdminUpdated(admin, allowed);
+
+    /// @notice Returns the implementation version
+    function version() public pure virtual returns (string memory) {
+        return "2.0.0";
     }
     
     /// @notice Add or remove contract from whitelist
     /// @param contractAddr Address of the contract
     /// @param allowed True to whitelist, false to blacklist
-    function setContractWhitelist(address contractAddr, bool allowed) external onlyAdmin {
+    function setContractWhitelist(address contractAddr, bool allowed) external onlyRole(WHITELIST_MANAGER_ROLE) {
         require(contractAddr != address(0), "Zero address");
         contractWhitelist[contractAddr] = allowed;
         emit ContractWhitelisted(contractAddr, allowed);
     }
+
+    /// @notice Switch the transfer policy (owner-only)
+    /// @param policy ContractWhitelist, Open or Soulbound
+    function setTransferPolicy(TransferPolicy policy) external onlyOwner {
+        transferPolicy = policy;
+        emit TransferPolicyUpdated(policy);
+    }
+
+
+    /// @notice Set the supply ceiling (owner-only)
+    /// @param cap New max supply, not below the current total supply (0 = unlimited)
+    function setMaxSupply(uint256 cap) external onlyOwner {
+        require(cap == 0 || cap >= totalSupply(), "Below total supply");
+        maxSupply = cap;
+        emit MaxSupplyUpdated(cap);
+    }
+
+    /// @notice Set the amount all minters together can mint per epoch (owner-only)
+    /// @param budget Per-epoch emission (0 = unlimited)
+    function setEmissionBudget(uint256 budget) external onlyOwner {
+        epochEmissionBudget = budget;
+        emit EmissionBudgetUpdated(budget);
+    }
+
+    /// @notice Set the amount a minter can mint or sign per epoch (owner-only)
+    /// @param minter Minter (or signer) address
+    /// @param allowance Per-epoch allowance (0 = unlimited)
+    function setMinterAllowance(address minter, uint256 allowance) external onlyOwner {
+        minterAllowance[minter] = allowance;
+        emit MinterAllowanceUpdated(minter, allowance);
+    }
+
+    /// @notice Set the length of an emission epoch (owner-only)
+    /// @dev Changing the duration renumbers epochs, so amounts minted in the current epoch stop counting
+    /// @param duration Epoch length in seconds
+    function setEpochDuration(uint256 duration) external onlyOwner {
+        require(duration > 0, "Duration must be > 0");
+        _epochDuration = duration;
+        emit EpochDurationUpdated(duration);
+    }
+
+    /// @notice Returns the emission epoch length in seconds
+    function epochDuration() public view returns (uint256) {
+        return _epochDuration == 0 ? DEFAULT_EPOCH_DURATION : _epochDuration;
+    }
+
+    /// @notice Returns the current emission epoch
+    function currentEpoch() public view returns (uint256) {
+        return block.timestamp / epochDuration();
+    }
+
+    /// @notice Returns the amount that can still be minted before reaching the max supply
+    /// @return Remaining amount (type(uint256).max if unlimited)
+    function remainingSupply() external view returns (uint256) {
+        return _remaining(maxSupply, totalSupply());
+    }
+
+    /// @notice Returns the amount all minters together can still mint in the current epoch
+    /// @return Remaining amount (type(uint256).max if unlimited)
+    function remainingEpochEmission() external view returns (uint256) {
+        return _remaining(epochEmissionBudget, mintedInEpoch[currentEpoch()]);
+    }
+
+    /// @notice Returns the amount a minter can still mint or sign in the current epoch
+    /// @param minter Minter (or signer) address
+    /// @return Remaining amount (type(uint256).max if unlimited)
+    function remainingMinterAllowance(address minter) external view returns (uint256) {
+        return _remaining(minterAllowance[minter], mintedByMinter[currentEpoch()][minter]);
+    }
     
-    /// @notice Mint tokens (admin-only)
+    /// @notice Mint tokens (minter-only)
+    /// @dev Counts against the supply ceiling, the epoch budget and the caller's allowance
     /// @param to Recipient address
     /// @param amount Amount of tokens to mint
-    function mint(address to, uint256 amount) external onlyAdmin {
+    function mint(address to, uint256 amount) external onlyRole(MINTER_ROLE) {
         require(to != address(0), "Mint to zero address");
+        _consumeMintBudget(msg.sender, amount);
         _mint(to, amount);
         emit AdminMint(to, amount);
     }
     
     /// @notice Mint tokens using an off-chain signature (EIP-712)
-    /// @dev Prevents replay attacks using nonces and deadline
+    /// @dev Prevents replay attacks using nonces and deadline. Counts against the supply ceiling,
+    ///      the epoch budget and the signer's allowance.
     /// @param amount Amount of tokens to mint
     /// @param nonce Unique nonce of the sender
     /// @param deadline Expiration timestamp (0 = no deadline)
-    /// @param signature Off-chain signature from admin/owner
+    /// @param signature Off-chain signature from minter/owner
     function mintWithSignature(
         uint256 amount,
         uint256 nonce,
@@ -163,11 +302,12 @@ contract CrystalsV2 is ERC20Upgradeable, OwnableUpgradeable, EIP712Upgradeable,
         // Recover signer from signature
         address signer = ECDSAUpgradeable.recover(hash, signature);
         require(signer != address(0), "Invalid signature");
-        require(admins[signer] || owner() == signer, "Signer not admin");
+        require(_isAuthorized(MINTER_ROLE, signer), "Signer not authorized");
         
         // Increment nonce to prevent replay
         nonces[to] += 1;
         // Mint tokens
+        _consumeMintBudget(signer, amount);
         _mint(to, amount);
         emit MintWithSignature(to, amount, signer);
     } 
@@ -178,10 +318,10 @@ contract CrystalsV2 is ERC20Upgradeable, OwnableUpgradeable, EIP712Upgradeable,
         _burn(msg.sender, amount);
     }
     
-    /// @notice Admin burns tokens from any account
+    /// @notice Burner burns tokens from any account
     /// @param account Target account
     /// @param amount Amount of tokens to burn
-    function adminBurnFrom(address account, uint256 amount) external onlyAdmin {
+    function adminBurnFrom(address account, uint256 amount) external onlyRole(BURNER_ROLE) {
         _burn(account, amount);
         emit AdminBurn(account, amount);
     }
@@ -193,22 +333,113 @@ contract CrystalsV2 is ERC20Upgradeable, OwnableUpgradeable, EIP712Upgradeable,
         return addr.code.length > 0;
     }
     
-    /// @notice Override approve to restrict non-whitelisted contracts
-    function approve(address spender, uint256 amount) public virtual override returns (bool) {
-        if (isContract(msg.sender)) {
-            require(contractWhitelist[msg.sender], "approve: contract not allowed");
+    /// @dev Grants the admin roles to legacy admins and clears their old mapping entries
+    function _migrateAdmins(address[] calldata accounts) internal {
+        for (uint256 i = 0; i < accounts.length; i++) {
+            require(_legacyAdmins[accounts[i]], "Not a legacy admin");
+            delete _legacyAdmins[accounts[i]];
+            _setAdmin(accounts[i], true);
+            emit AdminMigrated(accounts[i]);
         }
-        return super.approve(spender, amount);
     }
-    
-    /// @notice Override transferFrom to restrict non-whitelisted contracts
-    function transferFrom(address from, address to, uint256 amount) public virtual override returns (bool) {
-        if (isContract(msg.sender)) {
-            require(contractWhitelist[msg.sender], "transferFrom: contract not allowed");
+
+    /// @dev Charges a mint to the supply ceiling, the epoch budget and the minter's allowance
+    function _consumeMintBudget(address minter, uint256 amount) private {
+        require(maxSupply == 0 || totalSupply() + amount <= maxSupply, "Max supply exceeded");
+
+        uint256 epoch = currentEpoch();
+        uint256 epochTotal = mintedInEpoch[epoch] + amount;
+        require(epochEmissionBudget == 0 || epochTotal <= epochEmissionBudget, "Epoch budget exceeded");
+        mintedInEpoch[epoch] = epochTotal;
+
+        uint256 minterTotal = mintedByMinter[epoch][minter] + amount;
+        uint256 allowance = minterAllowance[minter];
+        require(allowance == 0 || minterTotal <= allowance, "Minter allowance exceeded");
+        mintedByMinter[epoch][minter] = minterTotal;
+    }
+
+    /// @dev Remaining amount under a cap where 0 means unlimited
+    function _remaining(uint256 cap, uint256 used) private pure returns (uint256) {
+        if (cap == 0) {
+            return type(uint256).max;
         }
-        return super.transferFrom(from, to, amount);
+        return cap > used ? cap - used : 0;
     }
-    
+
+    /// @dev Enforces pause flags on every mint, transfer and burn, and the transfer policy on the recipient
+    ///      of mints and on the sender, recipient and operator of transfers
+    function _beforeTokenTransfer(address from, address to, uint256 amount) internal virtual override {
+        if (from == address(0)) {
+            _requireNotPaused(MINT_ACTION);
+        } else if (to == address(0)) {
+            _requireNotPaused(BURN_ACTION);
+        } else {
+            _requireNotPaused(TRANSFER_ACTION);
+        }
+
+        TransferPolicy policy = transferPolicy;
+        if (policy != TransferPolicy.Open && to != address(0)) {
+            _requireWhitelistedIfContract(to);
+            if (from != address(0)) {
+                // A non-whitelisted contract's balance stays put until it is whitelisted or burned
+                _requireWhitelistedIfContract(from);
+                _requireWhitelistedIfContract(msg.sender);
+                if (policy == TransferPolicy.Soulbound) {
+                    require(contractWhitelist[from] || contractWhitelist[to], "Soulbound: transfer not allowed");
+                }
+            }
+        }
+        super._beforeTokenTransfer(from, to, amount);
+    }
+
+    /// @dev Applies the transfer policy to both sides of approvals (approve, increaseAllowance, permit);
+    ///      resetting an allowance to zero is always allowed
+    function _approve(address owner_, address spender, uint256 amount) internal virtual override {
+        if (transferPolicy != TransferPolicy.Open && amount > 0) {
+            _requireWhitelistedIfContract(owner_);
+            _requireWhitelistedIfContract(spender);
+        }
+        super._approve(owner_, spender, amount);
+    }
+
+    /// @dev Reverts for contracts missing from the whitelist, including a caller still in its constructor
+    function _requireWhitelistedIfContract(address account) private view {
+        require(
+            contractWhitelist[account] || !(isContract(account) || _isConstructing(account)),
+            "Contract not whitelisted"
+        );
+    }
+
+    /// @dev True for the caller while its constructor runs: it has no code yet but is not the transaction's
+    ///      signer. `tx.origin` only separates that case from an EOA; smart wallets, relayers and EIP-7702
+    ///      accounts have code and are judged by the whitelist alone.
+    function _isConstructing(address account) private view returns (bool) {
+        return account == msg.sender && account != tx.origin && account.code.length == 0;
+    }
+
+    /// @dev Owner unpauses and manages the guardian
+    function _pauseOwner() internal view override returns (address) {
+        return owner();
+    }
+
+    /// @dev Owner grants and revokes roles
+    function _rolesOwner() internal view override returns (address) {
+        return owner();
+    }
+
+    /// @dev An admin used to mint, sign mints, burn from any account and manage the whitelist
+    function _adminRoles() internal pure override returns (bytes32[] memory roles) {
+        roles = new bytes32[](3);
+        roles[0] = MINTER_ROLE;
+        roles[1] = BURNER_ROLE;
+        roles[2] = WHITELIST_MANAGER_ROLE;
+    }
+
+    /// @dev PAUSER_ROLE members can pause alongside the guardian
+    function _isPauser(address account) internal view override returns (bool) {
+        return hasRole(PAUSER_ROLE, account);
+    }
+
     /// @dev Authorization for upgrades (only owner can upgrade implementation)
     function _authorizeUpgrade(address newImplementation) internal override onlyOwner {}
 }
@@ -0,0 +1,129 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+import "./CrystalsProxy_v2.sol";
+
+/**
+ * @title CrystalsV3
+ * @notice Third implementation of the Crystals UUPS token, deployed behind the existing CrystalsV2 proxy.
+ *
+ * @dev
+ * Key features:
+ *  - Extends CrystalsV2, so every V2 storage variable keeps its slot; V3 state is only appended
+ *  - `initializeV3` is a `reinitializer(2)` meant to be passed to `upgradeToAndCall`
+ *  - Migrates admins of the pre-roles `admins` mapping while upgrading
+ *  - Collection-level metadata (`contractURI`) managed by METADATA_MANAGER
+ *  - EIP-2612 `permit` / `DOMAIN_SEPARATOR`: approvals signed off-chain and submitted by anyone,
+ *    e.g. TokenVault.depositWithPermit or a relayer paying the gas; permits count `permitNonces`,
+ *    separately from the `nonces` of mint signatures
+ *  - `version()` reports "3.0.0"
+ *
+ * Inherits from:
+ *  - CrystalsV2
+ *
+ * Events:
+ *  - ContractURIUpdated — collection metadata changed
+ *
+ * Usage example:
+ *  1. Owner deploys CrystalsV3 and calls `upgradeToAndCall(v3, initializeV3(...))` on the proxy
+ *     (see ignition/modules/CrystalsV3.ts).
+ *  2. Balances, nonces, roles and whitelist carry over unchanged.
+ *  3. A fresh proxy can still be set up with `initialize`, followed by `initializeV3`.
+ *  4. A player signs `Permit(owner, spender, value, nonce, deadline)` under the "Crystals" domain, with
+ *     `nonce = permitNonces(owner)`, and the spender (or a relayer) submits it with `permit`.
+ *
+ * Author: Matik86 (Mibboverse)
+ * Version: 3.0.0
+ */
+
+/// @title CrystalsV3
+/// @notice Upgrade of CrystalsV2 adding collection metadata and a versioned reinitializer.
+/// @dev Storage-compatible with CrystalsV2: new variables are declared after all inherited ones.
+contract CrystalsV3 is CrystalsV2 {
+    /// @notice Collection-level metadata URI (ERC-7572)
+    string private _contractURI;
+
+    /// @notice EIP-2612 permit nonce of each holder, independent of the mint-signature `nonces`
+    mapping(address => uint256) public permitNonces;
+
+    /// @notice Emitted when the collection metadata URI changes
+    event ContractURIUpdated(string uri);
+
+    // EIP-2612 typehash for signed approvals
+    bytes32 private constant PERMIT_TYPEHASH =
+        keccak256("Permit(address owner,address spender,uint256 value,uint256 nonce,uint256 deadline)");
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    /// @notice Initializes V3 state on an existing proxy (called once, through `upgradeToAndCall`)
+    /// @param contractURI_ Collection metadata URI
+    /// @param legacyAdmins Admins of the pre-roles `admins` mapping to migrate (may be empty)
+    function initializeV3(string calldata contractURI_, address[] calldata legacyAdmins)
+        external
+        reinitializer(2)
+        onlyOwner
+    {
+        _migrateAdmins(legacyAdmins);
+        _contractURI = contractURI_;
+        emit ContractURIUpdated(contractURI_);
+    }
+
+    /// @notice Returns the collection metadata URI
+    function contractURI() external view returns (string memory) {
+        return _contractURI;
+    }
+
+    /// @notice Update the collection metadata URI
+    /// @param uri New metadata URI
+    function setContractURI(string calldata uri) external onlyRole(METADATA_MANAGER_ROLE) {
+        _contractURI = uri;
+        emit ContractURIUpdated(uri);
+    }
+
+    /// @notice Approve `spender` with the owner's EIP-2612 signature (ERC20Permit)
+    /// @dev Uses the same EIP-712 domain as `mintWithSignature` but its own `permitNonces` counter,
+    ///      so permits and mint signatures never invalidate each other.
+    ///      Anyone may submit it; the transfer policy applies to the approval as it does to `approve`.
+    /// @param owner_ Token holder that signed the permit
+    /// @param spender Address allowed to spend
+    /// @param value Allowance to set
+    /// @param deadline Expiration timestamp
+    function permit(
+        address owner_,
+        address spender,
+        uint256 value,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external {
+        require(block.timestamp <= deadline, "Permit expired");
+
+        bytes32 structHash = keccak256(abi.encode(
+            PERMIT_TYPEHASH,
+            owner_,
+            spender,
+            value,
+            permitNonces[owner_],
+            deadline
+        ));
+        address signer = ECDSAUpgradeable.recover(_hashTypedDataV4(structHash), v, r, s);
+        require(signer == owner_, "Invalid signature");
+
+        permitNonces[owner_] += 1;
+        _approve(owner_, spender, value);
+    }
+
+    /// @notice EIP-712 domain separator used by `permit` and `mintWithSignature`
+    function DOMAIN_SEPARATOR() external view returns (bytes32) {
+        return _domainSeparatorV4();
+    }
+
+    /// @notice Returns the implementation version
+    function version() public pure override returns (string memory) {
+        return "3.0.0";
+    }
+}
@@ -0,0 +1,286 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+/// @notice Importing OpenZeppelin ownership control, token helpers and the interfaces of the game contracts
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/token/ERC1155/utils/ERC1155Holder.sol";
+import "./interfaces/IArtifactsERC1155.sol";
+import "./interfaces/ICreatureNFT.sol";
+import "./interfaces/ICrystals.sol";
+import "./interfaces/IGenesisNFT.sol";
+import "./utils/RandomnessConsumer.sol";
+
+/**
+ * @title EggHatchery
+ * @notice Hatching flow that consumes a Genesis egg (plus an optional Crystals and artifact cost) and mints
+ *         a creature whose traits come from a randomness provider.
+ *
+ * @dev
+ * Key features:
+ *  - `hatch` escrows the egg and the cost in the hatchery, then requests randomness
+ *  - The provider answers through `fulfillRandomness`, which burns the escrow, derives the traits and mints the creature
+ *  - Pending hatches are kept per provider; the player can `cancelHatch` to get the escrow back once the request
+ *    has waited `HATCH_TIMEOUT` or the owner has switched to another provider
+ *  - Pluggable randomness (`RandomnessConsumer`): RandomnessCoordinator, VRFRandomnessAdapter or MockRandomnessProvider
+ *  - Rarity is drawn from the owner-set weights in force when `hatch` was called, so changing them cannot
+ *    affect pending hatches; species, element and power come from independent parts of the random word
+ *
+ * Requirements:
+ *  - The hatchery must hold MINTER_ROLE on CreatureNFT, and be whitelisted on CrystalsV2 if Crystals are charged
+ *  - Players must approve the hatchery on GenesisNFT (and ArtifactsERC1155 if artifacts are charged)
+ *    via `setApprovalForAll`, and approve the Crystals cost with `approve`
+ *
+ * Inherits from:
+ *  - OpenZeppelin Ownable
+ *  - OpenZeppelin ERC1155Holder
+ *  - RandomnessConsumer
+ *
+ * Events:
+ *  - HatchRequested — egg and cost escrowed, waiting for randomness
+ *  - Hatched — escrow burned and creature minted
+ *  - HatchCancelled — unfulfilled hatch cancelled and escrow returned
+ *  - HatchCostUpdated / RarityWeightsUpdated / RandomnessProviderUpdated — configuration changes
+ *
+ * Usage example:
+ *  1. Owner deploys the hatchery with a randomness provider and grants it the roles above.
+ *  2. Player approves the hatchery and calls `hatch(eggId)`.
+ *  3. The provider fulfills the request and the creature appears in the player's wallet.
+ *
+ * Author: Matik86 (Mibboverse)
+ * Version: 1.0.0
+ */
+
+/// @title EggHatchery
+/// @notice Burns Genesis eggs into creatures with randomly drawn traits.
+/// @dev Only the configured randomness provider may fulfill requests.
+contract EggHatchery is Ownable, ERC1155Holder, RandomnessConsumer {
+    using SafeERC20 for IERC20;
+
+    /// @notice Number of species a creature can belong to
+    uint8 public constant SPECIES_COUNT = 8;
+
+    /// @notice Number of elements (fire, water, earth, air)
+    uint8 public constant ELEMENT_COUNT = 4;
+
+    /// @notice Number of rarity tiers (common, rare, epic, legendary)
+    uint8 public constant RARITY_COUNT = 4;
+
+    /// @notice Time after which the player can cancel a hatch the current provider has not fulfilled
+    uint256 public constant HATCH_TIMEOUT = 1 days;
+
+    /// @notice GenesisNFT collection providing eggs
+    IGenesisNFT public immutable genesis;
+
+    /// @notice Creature collection receiving hatched creatures
+    ICreatureNFT public immutable creatures;
+
+    /// @notice Crystals token (proxy address) charged as hatching cost
+    ICrystals public immutable crystals;
+
+    /// @notice Artifacts collection charged as hatching cost
+    IArtifactsERC1155 public immutable artifacts;
+
+    /// @notice Cost burned on top of the egg
+    struct HatchCost {
+        uint256 crystals;       // Crystals burned (0 = none)
+        uint256 artifactId;     // Artifact ID burned
+        uint256 artifactAmount; // Artifacts burned (0 = none)
+    }
+
+    /// @notice Hatch waiting for randomness
+    struct PendingHatch {
+        address player;       // Receives the creature
+        uint256 eggId;        // Escrowed egg
+        HatchCost cost;       // Escrowed cost
+        uint256 requestedAt;  // Timestamp of the request
+        uint16[RARITY_COUNT] rarityWeights; // Rarity weights when the hatch was requested
+    }
+
+    /// @notice Current hatching cost
+    HatchCost public hatchCost;
+
+    /// @notice Relative weight of each rarity tier
+    uint16[RARITY_COUNT] public rarityWeights = [600, 250, 120, 30];
+
+    /// @notice Pending hatches by provider and request ID
+    mapping(address => mapping(uint256 => PendingHatch)) public pendingHatches;
+
+    /// @notice Emitted when an egg is escrowed and randomness requested
+    event HatchRequested(address indexed player, uint256 indexed eggId, uint256 indexed requestId);
+
+    /// @notice Emitted when a creature is minted from an egg
+    event Hatched(address indexed player, uint256 indexed eggId, uint256 indexed creatureId, ICreatureNFT.Traits traits);
+
+    /// @notice Emitted when an unfulfilled hatch is cancelled and its escrow returned
+    event HatchCancelled(address indexed player, uint256 indexed eggId, uint256 indexed requestId);
+
+    /// @notice Emitted when the hatching cost changes
+    event HatchCostUpdated(uint256 crystals, uint256 artifactId, uint256 artifactAmount);
+
+    /// @notice Emitted when the rarity weights change
+    event RarityWeightsUpdated(uint16[RARITY_COUNT] weights);
+
+    /// @notice Contract constructor
+    /// @param genesis_ Address of GenesisNFT
+    /// @param creatures_ Address of CreatureNFT
+    /// @param crystals_ Address of the Crystals proxy
+    /// @param artifacts_ Address of ArtifactsERC1155
+    /// @param provider_ Randomness provider
+    constructor(
+        address genesis_,
+        address creatures_,
+        address crystals_,
+        address artifacts_,
+        address provider_
+    ) Ownable(msg.sender) RandomnessConsumer(provider_) {
+        require(
+            genesis_ != address(0) &&
+                creatures_ != address(0) &&
+                crystals_ != address(0) &&
+                artifacts_ != address(0),
+            "Zero address"
+        );
+        genesis = IGenesisNFT(genesis_);
+        creatures = ICreatureNFT(creatures_);
+        crystals = ICrystals(crystals_);
+        artifacts = IArtifactsERC1155(artifacts_);
+    }
+
+    /// @notice Set the cost burned on top of the egg
+    /// @param crystalsCost Crystals to burn (0 = none)
+    /// @param artifactId Artifact ID to burn
+    /// @param artifactAmount Artifacts to burn (0 = none)
+    function setHatchCost(uint256 crystalsCost, uint256 artifactId, uint256 artifactAmount) external onlyOwner {
+        hatchCost = HatchCost({crystals: crystalsCost, artifactId: artifactId, artifactAmount: artifactAmount});
+        emit HatchCostUpdated(crystalsCost, artifactId, artifactAmount);
+    }
+
+    /// @notice Set the relative weight of each rarity tier
+    /// @dev Applies to hatches requested from now on
+    /// @param weights Weights for common, rare, epic and legendary
+    function setRarityWeights(uint16[RARITY_COUNT] calldata weights) external onlyOwner {
+        uint256 total;
+        for (uint256 i = 0; i < RARITY_COUNT; i++) {
+            total += weights[i];
+        }
+        require(total > 0, "Weights sum to zero");
+        rarityWeights = weights;
+        emit RarityWeightsUpdated(weights);
+    }
+
+    /// @notice Switch the randomness provider
+    /// @dev Hatches pending at the old provider stay escrowed and their players can cancel them at once
+    /// @param provider_ New provider
+    function setRandomnessProvider(address provider_) external onlyOwner {
+        _setRandomnessProvider(provider_);
+    }
+
+    /// @notice Escrow an egg and the hatching cost, and request the creature's traits
+    /// @dev Caller must own the egg and have approved the hatchery
+    /// @param eggId GenesisNFT token ID
+    /// @return requestId Randomness request identifier
+    function hatch(uint256 eggId) external returns (uint256 requestId) {
+        require(genesis.ownerOf(eggId) == msg.sender, "Not egg owner");
+        genesis.transferFrom(msg.sender, address(this), eggId);
+
+        HatchCost memory cost = hatchCost;
+        if (cost.crystals > 0) {
+            IERC20(address(crystals)).safeTransferFrom(msg.sender, address(this), cost.crystals);
+        }
+        if (cost.artifactAmount > 0) {
+            artifacts.safeTransferFrom(msg.sender, address(this), cost.artifactId, cost.artifactAmount, "");
+        }
+
+        requestId = _requestRandomness();
+        pendingHatches[address(randomnessProvider)][requestId] = PendingHatch({
+            player: msg.sender,
+            eggId: eggId,
+            cost: cost,
+            requestedAt: block.timestamp,
+            rarityWeights: rarityWeights
+        });
+
+        emit HatchRequested(msg.sender, eggId, requestId);
+    }
+
+    /// @notice Cancel a hatch that was never fulfilled and get the egg and cost back
+    /// @dev Allowed after `HATCH_TIMEOUT`, or at once if `provider` is no longer the current provider
+    /// @param provider Provider the hatch was requested from
+    /// @param requestId Randomness request identifier
+    function cancelHatch(address provider, uint256 requestId) external {
+        PendingHatch memory pending = pendingHatches[provider][requestId];
+        require(pending.player == msg.sender, "Not hatch owner");
+        require(
+            provider != address(randomnessProvider) || block.timestamp >= pending.requestedAt + HATCH_TIMEOUT,
+            "Hatch still pending"
+        );
+        delete pendingHatches[provider][requestId];
+
+        genesis.transferFrom(address(this), msg.sender, pending.eggId);
+        if (pending.cost.crystals > 0) {
+            IERC20(address(crystals)).safeTransfer(msg.sender, pending.cost.crystals);
+        }
+        if (pending.cost.artifactAmount > 0) {
+            artifacts.safeTransferFrom(address(this), msg.sender, pending.cost.artifactId, pending.cost.artifactAmount, "");
+        }
+
+        emit HatchCancelled(msg.sender, pending.eggId, requestId);
+    }
+
+    /// @dev Burns the escrow, derives the traits and mints the creature of a pending hatch
+    function _fulfillRandomness(uint256 requestId, uint256 randomness) internal override {
+        PendingHatch memory pending = pendingHatches[address(randomnessProvider)][requestId];
+        require(pending.player != address(0), "Unknown request");
+        delete pendingHatches[address(randomnessProvider)][requestId];
+
+        genesis.burn(pending.eggId);
+        if (pending.cost.crystals > 0) {
+            crystals.burn(pending.cost.crystals);
+        }
+        if (pending.cost.artifactAmount > 0) {
+            artifacts.burn(address(this), pending.cost.artifactId, pending.cost.artifactAmount);
+        }
+
+        ICreatureNFT.Traits memory traits = _deriveTraits(randomness, pending.rarityWeights);
+        uint256 creatureId = creatures.mint(pending.player, traits);
+
+        emit Hatched(pending.player, pending.eggId, creatureId, traits);
+    }
+
+    /// @notice Returns the traits a random word hatches into under the current rarity weights
+    /// @param randomness Random word
+    function deriveTraits(uint256 randomness) external view returns (ICreatureNFT.Traits memory) {
+        return _deriveTraits(randomness, rarityWeights);
+    }
+
+    /// @dev Each trait uses a separate 64-bit slice of the word
+    function _deriveTraits(
+        uint256 randomness,
+        uint16[RARITY_COUNT] memory weights
+    ) private pure returns (ICreatureNFT.Traits memory traits) {
+        traits.species = uint8(uint64(randomness) % SPECIES_COUNT);
+        traits.element = uint8(uint64(randomness >> 64) % ELEMENT_COUNT);
+        traits.rarity = _drawRarity(uint64(randomness >> 128), weights);
+        // 10-100 base power, plus 25 per rarity tier
+        traits.power = uint16(10 + (uint64(randomness >> 192) % 91) + 25 * uint16(traits.rarity));
+    }
+
+    /// @dev Picks a rarity tier proportionally to `weights`
+    function _drawRarity(uint64 roll, uint16[RARITY_COUNT] memory weights) private pure returns (uint8) {
+        uint256 total;
+        for (uint256 i = 0; i < RARITY_COUNT; i++) {
+            total += weights[i];
+        }
+
+        uint256 point = roll % total;
+        for (uint8 i = 0; i < RARITY_COUNT; i++) {
+            if (point < weights[i]) {
+                return i;
+            }
+            point -= weights[i];
+        }
+        return RARITY_COUNT - 1;
+    }
+}
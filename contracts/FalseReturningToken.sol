@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/// @notice Test fixture for tokens that signal failure by returning false instead of reverting.
+/// @dev Once `failTransfers` is set, `transfer` and `transferFrom` return false and move nothing.
+contract FalseReturningToken is ERC20 {
+    bool public failTransfers;
+
+    constructor() ERC20("FalseToken", "FALSE") {}
+
+    function mint(address to, uint256 amount) external {
+        _mint(to, amount);
+    }
+
+    function setFailTransfers(bool fail) external {
+        failTransfers = fail;
+    }
+
+    function transfer(address to, uint256 amount) public override returns (bool) {
+        if (failTransfers) return false;
+        return super.transfer(to, amount);
+    }
+
+    function transferFrom(address from, address to, uint256 amount) public override returns (bool) {
+        if (failTransfers) return false;
+        return super.transferFrom(from, to, amount);
+    }
+}
@@ -8,58 +8,80 @@ import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/Strings.sol";
 import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/interfaces/IERC4906.sol";
+import "./utils/AccessRoles.sol";
+import "./utils/GuardianPausable.sol";
+import "./utils/RandomnessConsumer.sol";
+import "./utils/Royalties.sol";
 
 /**
  * @title GenesisNFT
  * @notice ERC721 NFT contract with capped supply (max 333 tokens), supporting EIP-712 signature-based minting 
- *         by the owner or authorized admins.
+ *         by the owner or authorized minters.
  *
  * @dev
  * Key features:
  *  - Maximum total supply: 333 tokens
  *  - One-time mint per address
- *  - Minting via EIP-712 signature (`mintWithPermit`) signed by owner or admins
+ *  - Minting via EIP-712 signature (`mintWithPermit`) signed by owner or minters, with optional deadline
+ *  - Outstanding nonces can be cancelled by a minter or the recipient (`cancelNonce`)
  *  - Metadata modes:
- *      1. Hidden metadata (`hiddenURI`)
+ *      1. Hidden metadata (`hiddenURI`, or a token's `_customTokenURIs` entry) until the reveal
  *      2. Single metadata file for all tokens (`singleMetadataMode = true`)
- *      3. Per-token metadata (`baseURI` or `_customTokenURIs`)
- *  - Admin system managed by owner
- *  - Manual reveal toggle (`revealed`)
+ *      3. Per-token metadata (`baseURI` shifted by `startingIndex`)
+ *  - Enumerable roles managed by owner: MINTER (signs permits, cancels nonces), METADATA_MANAGER (URIs, reveal), PAUSER
+ *  - Provenance: `provenanceHash` of the metadata files must be committed before the first mint
+ *  - One-time reveal: `reveal` requests randomness and the answer fixes `startingIndex`, which shifts
+ *    every token id onto its metadata file (`metadataIdOf`), so nobody can pick who gets which file;
+ *    minting, the provider, `baseURI` and custom token URIs are frozen from the request on, and custom
+ *    URIs are ignored once revealed
+ *  - Pluggable randomness (`RandomnessConsumer`): RandomnessCoordinator, VRFRandomnessAdapter or MockRandomnessProvider
+ *  - ERC-4906: every metadata setter emits `MetadataUpdate` / `BatchMetadataUpdate` so marketplaces refresh
+ *  - EIP-2981 royalties set by the owner, collection-wide and per token
  *  - Burn functionality for token owners
+ *  - Guardian emergency stop with separate MINT, TRANSFER and BURN pause flags
  *
  * Inherits from:
  *  - OpenZeppelin ERC721
  *  - OpenZeppelin Ownable
  *  - OpenZeppelin EIP712
+ *  - AccessRoles
+ *  - GuardianPausable
+ *  - RandomnessConsumer
+ *  - Royalties (OpenZeppelin ERC2981)
  *
  * Events:
- *  - AdminAdded / AdminRemoved — admin management
+ *  - RoleGranted / RoleRevoked — role management
  *  - HiddenURIChanged / RevealedURIChanged / BaseURIChanged — metadata updates
- *  - RevealedChanged / CollectionNameUpdated — collection state updates
+ *  - ProvenanceHashSet — provenance committed
+ *  - RevealRequested / StartingIndexSet / RevealedChanged — reveal lifecycle
+ *  - CollectionNameUpdated / RandomnessProviderUpdated — collection configuration updates
  *  - CustomURIChanged — per-token metadata assignment
+ *  - MetadataUpdate / BatchMetadataUpdate — ERC-4906 refresh signals
+ *  - DefaultRoyaltyUpdated / TokenRoyaltyUpdated — royalty changes
  *  - Minted — token successfully minted
  *  - MaxSupplyReached — maximum supply reached
+ *  - NonceCancelled — outstanding permit nonce invalidated
  *
  * Usage example:
- *  1. Owner or admin signs a mint authorization off-chain using EIP-712.
+ *  1. Owner or minter signs a mint authorization off-chain using EIP-712.
  *  2. User calls `mintWithPermit` with the signed message.
  *  3. Contract verifies signature, nonce, and mint status.
  *  4. If valid, a new token is minted and assigned to the user.
+ *  5. Before minting opens, a metadata manager commits `provenanceHash` (`npx hardhat provenance <folder>`);
+ *     after the sale, `reveal` picks `startingIndex` and token #id shows `<baseURI><metadataIdOf(id)>.json`.
  *
  * Author: Matik86 (Mibboverse)
  * Version: 1.0.0
  */
 
 /// @title GenesisNFT
-/// @notice ERC721 collection with capped supply, EIP-712 signature-based minting, admin control, and revealable metadata.
+/// @notice ERC721 collection with capped supply, EIP-712 signature-based minting, access roles, and revealable metadata.
 /// @dev Implements one-time minting per address and secure off-chain authorization via EIP-712.
-contract GenesisNFT is ERC721, Ownable, EIP712 {
+contract GenesisNFT is ERC721, Ownable, EIP712, AccessRoles, GuardianPausable, RandomnessConsumer, Royalties, IERC4906 {
     using Strings for uint256;
     using ECDSA for bytes32;
 
-    /// @notice Mapping of admin addresses with mint authorization rights
-    mapping(address => bool) public admins;
-
     /// @notice Nonce tracking for each address to prevent replay attacks
     mapping(address => uint256) public nonces;
 
@@ -84,8 +106,17 @@ contract GenesisNFT is ERC721, Ownable, EIP712 {
     /// @notice Base URI for token-specific metadata
     string public baseURI;
     
-    /// @notice Whether the collection has been revealed
+    /// @notice Whether the collection has been revealed (one-way)
     bool public revealed;
+
+    /// @notice keccak256 of the concatenated keccak256 hashes of metadata files 1..MAX_SUPPLY
+    bytes32 public provenanceHash;
+
+    /// @notice Random shift applied to token ids at reveal: token #1 shows metadata file `startingIndex + 1`
+    uint256 public startingIndex;
+
+    /// @notice Pending reveal randomness request (0 = none)
+    uint256 public revealRequestId;
     
     /// @notice Metadata mode flag: true = single metadata file, false = per-token metadata
     bool public singleMetadataMode;
@@ -93,12 +124,6 @@ contract GenesisNFT is ERC721, Ownable, EIP712 {
     /// @notice Optional custom metadata URIs for specific tokens
     mapping(uint256 => string) private _customTokenURIs;
 
-    /// @notice Emitted when a new admin is added
-    event AdminAdded(address indexed admin);
-
-    /// @notice Emitted when an admin is removed
-    event AdminRemoved(address indexed admin);
-
     /// @notice Emitted when the collection name is updated
     event CollectionNameUpdated(string name);
 
@@ -108,9 +133,18 @@ contract GenesisNFT is ERC721, Ownable, EIP712 {
     /// @notice Emitted when the revealed metadata URI is updated
     event RevealedURIChanged(string revealedURI);
 
-    /// @notice Emitted when the revealed state is toggled
+    /// @notice Emitted when the collection is revealed
     event RevealedChanged(bool revealed);
 
+    /// @notice Emitted when the provenance hash is committed
+    event ProvenanceHashSet(bytes32 provenanceHash);
+
+    /// @notice Emitted when the reveal randomness is requested
+    event RevealRequested(uint256 indexed requestId);
+
+    /// @notice Emitted when the reveal randomness fixes the starting index
+    event StartingIndexSet(uint256 startingIndex);
+
     /// @notice Emitted when the base URI is updated
     event BaseURIChanged(string baseURI);
 
@@ -123,33 +157,45 @@ contract GenesisNFT is ERC721, Ownable, EIP712 {
     /// @notice Emitted when the maximum supply is reached
     event MaxSupplyReached();
 
+    /// @notice Emitted when an outstanding permit nonce is invalidated
+    event NonceCancelled(address indexed to, uint256 nonce, address indexed canceller);
+
     /// @dev EIP-712 domain and version identifiers
     string private constant SIGNING_DOMAIN = "AdminMintableERC721";
     string private constant SIGNATURE_VERSION = "1";
 
+    /// @notice Pause keys for `pause` / `unpause`
+    bytes32 public constant MINT_ACTION = keccak256("MINT");
+    bytes32 public constant TRANSFER_ACTION = keccak256("TRANSFER");
+    bytes32 public constant BURN_ACTION = keccak256("BURN");
+
     /// @notice Struct representing an authorized mint request
     struct MintRequest {
         address to;
         uint256 nonce;
+        uint256 deadline;
     }
     
     /// @dev Typehash for MintRequest struct, used in EIP-712 encoding
     bytes32 private constant MINTREQUEST_TYPEHASH =
-        keccak256("MintRequest(address to,uint256 nonce)");
+        keccak256("MintRequest(address to,uint256 nonce,uint256 deadline)");
     
     /// @notice Contract constructor initializing ERC721, EIP-712, and collection details
     /// @param name_ ERC721 token name
     /// @param symbol_ ERC721 token symbol
     /// @param collectionName_ Human-readable name for the NFT collection
     /// @param _hiddenURI Metadata URI for hidden state
+    /// @param provider_ Randomness provider answering the reveal request
     constructor(
         string memory name_,
         string memory symbol_,
         string memory collectionName_,
-        string memory _hiddenURI
+        string memory _hiddenURI,
+        address provider_
     ) ERC721(name_, symbol_) 
     EIP712(SIGNING_DOMAIN, SIGNATURE_VERSION) 
     Ownable(msg.sender) 
+    RandomnessConsumer(provider_)
     {
         collectionName = collectionName_;
         hiddenURI = _hiddenURI;
@@ -164,18 +210,22 @@ contract GenesisNFT is ERC721, Ownable, EIP712 {
         require(_ownerOf(tokenId) != address(0), "Token does not exist");
 
         if (!revealed) {
-            return hiddenURI;
+            return bytes(_customTokenURIs[tokenId]).length > 0 ? _customTokenURIs[tokenId] : hiddenURI;
         }
 
         if (singleMetadataMode) {
             return revealedURI;
         }
 
-        if (bytes(_customTokenURIs[tokenId]).length > 0) {
-            return _customTokenURIs[tokenId];
-        }
+        return string(abi.encodePacked(baseURI, metadataIdOf(tokenId).toString(), ".json"));
+    }
 
-        return string(abi.encodePacked(baseURI, tokenId.toString(), ".json"));
+    /// @notice Returns the metadata file number shown by a token once revealed
+    /// @dev Token ids are shifted by `startingIndex` and wrap around MAX_SUPPLY
+    /// @param tokenId ID of the token to query
+    function metadataIdOf(uint256 tokenId) public view returns (uint256) {
+        require(tokenId >= 1 && tokenId <= MAX_SUPPLY, "Invalid token id");
+        return ((tokenId - 1 + startingIndex) % MAX_SUPPLY) + 1;
     }
     
     /// @notice Returns the collection name
@@ -186,88 +236,120 @@ contract GenesisNFT is ERC721, Ownable, EIP712 {
 
     /// @notice Updates the hidden metadata URI
     /// @param _hiddenURI New hidden URI
-    function setHiddenURI(string memory _hiddenURI) external onlyOwner {
+    function setHiddenURI(string memory _hiddenURI) external onlyRole(METADATA_MANAGER_ROLE) {
         hiddenURI = _hiddenURI;
         emit HiddenURIChanged(_hiddenURI);
+        _emitCollectionMetadataUpdate();
     }
     
     /// @notice Updates the revealed metadata URI
     /// @param _revealedURI New revealed URI
-    function setRevealedURI(string memory _revealedURI) external onlyOwner {
+    function setRevealedURI(string memory _revealedURI) external onlyRole(METADATA_MANAGER_ROLE) {
         revealedURI = _revealedURI;
         emit RevealedURIChanged(_revealedURI);
+        _emitCollectionMetadataUpdate();
     }
     
     /// @notice Updates the base URI for per-token metadata
+    /// @dev Frozen once the reveal is requested, so the shuffled mapping cannot be swapped afterwards
     /// @param _baseURI New base URI string
-    function setBaseURI(string memory _baseURI) external onlyOwner {
+    function setBaseURI(string memory _baseURI) external onlyRole(METADATA_MANAGER_ROLE) {
+        require(revealRequestId == 0, "Reveal already requested");
         baseURI = _baseURI;
         emit BaseURIChanged(_baseURI);
+        _emitCollectionMetadataUpdate();
     }
     
-    /// @notice Assigns a custom URI to a specific token
+    /// @notice Assigns a custom URI shown by a specific token until the reveal
+    /// @dev Frozen once the reveal is requested, like `setBaseURI`; revealed tokens always show their shuffled
+    ///      metadata file, so owners picked by the manager cannot be given other files
     /// @param tokenId ID of the token
     /// @param uri Custom URI string
-    function setCustomTokenURI(uint256 tokenId, string memory uri) external onlyOwner {
+    function setCustomTokenURI(uint256 tokenId, string memory uri) external onlyRole(METADATA_MANAGER_ROLE) {
+        require(revealRequestId == 0, "Reveal already requested");
         require(_ownerOf(tokenId) != address(0), "Token does not exist");
         _customTokenURIs[tokenId] = uri;
         emit CustomURIChanged(tokenId, uri);
+        emit MetadataUpdate(tokenId);
     }
    
-    /// @notice Sets the reveal state of the collection
-    /// @param _state Boolean indicating reveal state (true = revealed)
-    function setRevealed(bool _state) external onlyOwner {
-        revealed = _state;
-        emit RevealedChanged(_state);
+    /// @notice Commits the provenance hash of the metadata files (once, before the first mint)
+    /// @param provenanceHash_ Hash computed by `npx hardhat provenance <folder>`
+    function setProvenanceHash(bytes32 provenanceHash_) external onlyRole(METADATA_MANAGER_ROLE) {
+        require(provenanceHash == bytes32(0), "Provenance already set");
+        require(provenanceHash_ != bytes32(0), "Empty provenance");
+        provenanceHash = provenanceHash_;
+        emit ProvenanceHashSet(provenanceHash_);
+    }
+
+    /// @notice Requests the randomness that reveals the collection
+    /// @dev The collection is revealed when the provider answers. The request cannot be repeated or
+    ///      moved to another provider, so nobody can re-roll an unwelcome answer
+    /// @return requestId Randomness request identifier
+    function reveal() external onlyRole(METADATA_MANAGER_ROLE) returns (uint256 requestId) {
+        require(!revealed, "Already revealed");
+        require(revealRequestId == 0, "Reveal pending");
+        require(provenanceHash != bytes32(0), "Provenance not set");
+
+        requestId = _requestRandomness();
+        revealRequestId = requestId;
+
+        emit RevealRequested(requestId);
+    }
+
+    /// @notice Update the randomness provider (owner-only)
+    /// @dev Only possible until `reveal()` is called
+    /// @param provider_ New provider
+    function setRandomnessProvider(address provider_) external onlyOwner {
+        require(revealRequestId == 0, "Reveal already requested");
+        _setRandomnessProvider(provider_);
     }
     
     /// @notice Sets whether metadata is single or per-token
     /// @param _state Boolean flag (true = single metadata)
-    function setSingleMetadataMode(bool _state) external onlyOwner {
+    function setSingleMetadataMode(bool _state) external onlyRole(METADATA_MANAGER_ROLE) {
         singleMetadataMode = _state;
+        _emitCollectionMetadataUpdate();
     }
    
     /// @notice Updates the human-readable collection name
     /// @param name_ New name string
-    function setCollectionName(string memory name_) external onlyOwner {
+    function setCollectionName(string memory name_) external onlyRole(METADATA_MANAGER_ROLE) {
         collectionName = name_;
         emit CollectionNameUpdated(name_);
-    }
-
-    /// @notice Adds or removes an admin authorized to sign minting requests
-    /// @param admin Address of the admin
-    /// @param allowed Boolean flag (true = add, false = remove)
-    function setAdmin(address admin, bool allowed) external onlyOwner {
-        admins[admin] = allowed;
-        if (allowed) emit AdminAdded(admin);
-        else emit AdminRemoved(admin);
+        _emitCollectionMetadataUpdate();
     }
 
     /// @notice Mints a new NFT using an authorized signature (EIP-712)
-    /// @dev Each address can mint only once; verifies signature from owner or admin
+    /// @dev Each address can mint only once; verifies signature from owner or minter. Minting closes when
+    ///      the reveal is requested, as `startingIndex` would tell minters which file the next token gets
     /// @param to Recipient address
     /// @param nonce Expected nonce (must match stored value)
+    /// @param deadline Signature expiration timestamp (0 = no deadline)
     /// @param signature Signed authorization message
     function mintWithPermit(
         address to,
         uint256 nonce,
+        uint256 deadline,
         bytes memory signature
     ) external {
         require(to != address(0), "Invalid address");
+        require(deadline == 0 || block.timestamp <= deadline, "Signature expired");
         require(nonce == nonces[to], "Invalid nonce");
         require(!hasMinted[to], "Address already minted");
-        require(nonces[to] == 0, "Nonce already used");
         require(_tokenCounter < MAX_SUPPLY, "Max supply reached");
+        require(provenanceHash != bytes32(0), "Provenance not set");
+        require(revealRequestId == 0, "Reveal already requested");
 
-        MintRequest memory request = MintRequest({to: to, nonce: nonce});
+        MintRequest memory request = MintRequest({to: to, nonce: nonce, deadline: deadline});
 
         bytes32 structHash = keccak256(
-            abi.encode(MINTREQUEST_TYPEHASH, request.to, request.nonce)
+            abi.encode(MINTREQUEST_TYPEHASH, request.to, request.nonce, request.deadline)
         );
 
         bytes32 hash = _hashTypedDataV4(structHash);
         address signer = ECDSA.recover(hash, signature);
-        require(signer == owner() || admins[signer], "Invalid signature");
+        require(_isAuthorized(MINTER_ROLE, signer), "Invalid signature");
 
         nonces[to]++;
 
@@ -284,6 +366,19 @@ contract GenesisNFT is ERC721, Ownable, EIP712 {
         }
     }
 
+    /// @notice Invalidate the current permit nonce of a recipient, revoking any signature issued for it
+    /// @dev Callable by the owner, a minter, or the recipient itself
+    /// @param to Recipient whose nonce is cancelled
+    /// @param nonce Nonce to cancel (must be the current one)
+    function cancelNonce(address to, uint256 nonce) external {
+        require(msg.sender == to || _isAuthorized(MINTER_ROLE, msg.sender), "Not allowed");
+        require(nonce == nonces[to], "Invalid nonce");
+
+        nonces[to]++;
+
+        emit NonceCancelled(to, nonce, msg.sender);
+    }
+
     /// @notice Burns an existing token
     /// @dev Caller must be token owner or approved operator
     /// @param tokenId ID of the token to burn
@@ -295,6 +390,67 @@ contract GenesisNFT is ERC721, Ownable, EIP712 {
         _burn(tokenId);
     }
 
+    /// @dev Fixes the starting index and reveals the collection
+    function _fulfillRandomness(uint256 requestId, uint256 randomness) internal override {
+        require(requestId == revealRequestId && !revealed, "Unknown request");
+
+        startingIndex = randomness % MAX_SUPPLY;
+        revealed = true;
+
+        emit StartingIndexSet(startingIndex);
+        emit RevealedChanged(true);
+        _emitCollectionMetadataUpdate();
+    }
+
+    /// @dev Enforces pause flags on every mint, transfer and burn
+    function _update(address to, uint256 tokenId, address auth) internal override returns (address) {
+        address from = _ownerOf(tokenId);
+        if (from == address(0)) {
+            _requireNotPaused(MINT_ACTION);
+        } else if (to == address(0)) {
+            _requireNotPaused(BURN_ACTION);
+        } else {
+            _requireNotPaused(TRANSFER_ACTION);
+        }
+        return super._update(to, tokenId, auth);
+    }
+
+    /// @notice Returns true for ERC721, ERC-4906, EIP-2981 and ERC165
+    function supportsInterface(bytes4 interfaceId) public view override(ERC721, ERC2981, IERC165) returns (bool) {
+        return interfaceId == bytes4(0x49064906) || super.supportsInterface(interfaceId);
+    }
+
+    /// @dev Tells marketplaces to refresh every token the collection can hold
+    function _emitCollectionMetadataUpdate() private {
+        emit BatchMetadataUpdate(1, MAX_SUPPLY);
+    }
+
+    /// @dev Owner sets royalties
+    function _royaltyOwner() internal view override returns (address) {
+        return owner();
+    }
+
+    /// @dev Owner unpauses and manages the guardian
+    function _pauseOwner() internal view override returns (address) {
+        return owner();
+    }
+
+    /// @dev Owner grants and revokes roles
+    function _rolesOwner() internal view override returns (address) {
+        return owner();
+    }
+
+    /// @dev An admin used to sign mint permits and cancel nonces
+    function _adminRoles() internal pure override returns (bytes32[] memory roles) {
+        roles = new bytes32[](1);
+        roles[0] = MINTER_ROLE;
+    }
+
+    /// @dev PAUSER_ROLE members can pause alongside the guardian
+    function _isPauser(address account) internal view override returns (bool) {
+        return hasRole(PAUSER_ROLE, account);
+    }
+
     /// @notice Returns the total number of minted tokens
     /// @return Current total supply of NFTs
     function totalSupply() external view returns (uint256) {
@@ -0,0 +1,265 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+/// @notice Importing OpenZeppelin ownership control, the ERC721 interface, enumerable sets
+///         and the interfaces of the game contracts paying rewards
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC721/IERC721.sol";
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+import "./interfaces/ICrystals.sol";
+import "./interfaces/ITokenVault.sol";
+
+/**
+ * @title GenesisStaking
+ * @notice Staking contract where players lock GenesisNFT eggs and earn Crystals every second.
+ *
+ * @dev
+ * Key features:
+ *  - Each staked token accrues `rewardRate` Crystals (wei) per second, set by the owner
+ *  - Rate changes apply from the moment they are made; rewards accrued before keep the old rate
+ *  - Rewards are minted through CrystalsV2 `mint` or paid from TokenVault reserves (`RewardSource`)
+ *  - `unstake` pays pending rewards and returns the tokens
+ *  - `emergencyUnstake` returns the tokens without paying, so eggs never get stuck behind a failing payout
+ *    (Crystals mint cap reached, vault reserves empty or payouts paused); the rewards are owed and paid by `claim`
+ *  - Pending rewards per token and per owner, and the staked tokens of an owner, are readable on-chain
+ *
+ * Requirements:
+ *  - Mint source: the staking contract must hold MINTER_ROLE on CrystalsV2 (its minter allowance bounds emissions)
+ *  - Vault source: the staking contract must hold PAYOUT_ROLE on TokenVault, and Crystals must be allowed there
+ *  - Players must approve the staking contract on GenesisNFT before staking
+ *
+ * Inherits from:
+ *  - OpenZeppelin Ownable
+ *
+ * Events:
+ *  - Staked / Unstaked — token locked or returned
+ *  - RewardClaimed — Crystals paid to a staker
+ *  - RewardDeferred — rewards of an emergency unstake recorded as owed
+ *  - RewardRateUpdated — reward rate changed
+ *  - RewardSourceUpdated — rewards switched between minting and the vault
+ *
+ * Usage example:
+ *  1. Owner deploys the staking contract, grants it MINTER_ROLE on CrystalsV2 and calls `setRewardRate`.
+ *  2. Player approves the staking contract on GenesisNFT and calls `stake([tokenIds])`.
+ *  3. Player calls `claim()` at any time, and `unstake([tokenIds])` to take the tokens back.
+ *
+ * Author: Matik86 (Mibboverse)
+ * Version: 1.0.0
+ */
+
+/// @title GenesisStaking
+/// @notice Locks GenesisNFT tokens and rewards them with Crystals at an owner-set rate per second.
+/// @dev Uses a global reward-per-token accumulator so rate changes never require touching every stake.
+contract GenesisStaking is Ownable {
+    using EnumerableSet for EnumerableSet.UintSet;
+
+    /// @notice Where claimed rewards come from
+    enum RewardSource {
+        Mint,
+        Vault
+    }
+
+    /// @notice Staking position of a token
+    struct Stake {
+        address owner;              // Player who staked the token (zero when not staked)
+        uint256 rewardPerTokenPaid; // Accumulator value at the last payout
+    }
+
+    /// @notice GenesisNFT collection accepted for staking
+    IERC721 public immutable genesis;
+
+    /// @notice Crystals token (proxy address) paid as reward
+    ICrystals public immutable crystals;
+
+    /// @notice Crystals (wei) earned per staked token per second
+    uint256 public rewardRate;
+
+    /// @notice Current reward source
+    RewardSource public rewardSource;
+
+    /// @notice TokenVault paying rewards when `rewardSource` is Vault
+    ITokenVault public vault;
+
+    /// @notice Rewards earned by a token staked since the beginning, as of `lastUpdateTime`
+    uint256 public rewardPerTokenStored;
+
+    /// @notice Timestamp of the last accumulator update
+    uint256 public lastUpdateTime;
+
+    /// @notice Staking position by token ID
+    mapping(uint256 => Stake) public stakes;
+
+    /// @notice Rewards settled by `emergencyUnstake` and not yet paid, per staker
+    mapping(address => uint256) public owedRewards;
+
+    /// @dev Token IDs staked by each owner
+    mapping(address => EnumerableSet.UintSet) private _stakedTokens;
+
+    /// @notice Emitted when a token is staked
+    event Staked(address indexed owner, uint256 indexed tokenId);
+
+    /// @notice Emitted when a token is returned to its owner
+    event Unstaked(address indexed owner, uint256 indexed tokenId);
+
+    /// @notice Emitted when rewards are paid
+    event RewardClaimed(address indexed owner, uint256 amount);
+
+    /// @notice Emitted when rewards are recorded as owed instead of paid
+    event RewardDeferred(address indexed owner, uint256 amount);
+
+    /// @notice Emitted when the reward rate changes
+    event RewardRateUpdated(uint256 rewardRate);
+
+    /// @notice Emitted when the reward source changes
+    event RewardSourceUpdated(RewardSource source, address vault);
+
+    /// @notice Contract constructor
+    /// @param genesis_ Address of GenesisNFT
+    /// @param crystals_ Address of the Crystals proxy
+    constructor(address genesis_, address crystals_) Ownable(msg.sender) {
+        require(genesis_ != address(0) && crystals_ != address(0), "Zero address");
+        genesis = IERC721(genesis_);
+        crystals = ICrystals(crystals_);
+        lastUpdateTime = block.timestamp;
+    }
+
+    /// @notice Set the reward per staked token per second
+    /// @dev Rewards accrued so far are settled at the old rate first
+    /// @param rate Crystals (wei) per token per second
+    function setRewardRate(uint256 rate) external onlyOwner {
+        _updateRewardPerToken();
+        rewardRate = rate;
+        emit RewardRateUpdated(rate);
+    }
+
+    /// @notice Choose whether rewards are minted or paid from TokenVault
+    /// @param source Mint or Vault
+    /// @param vault_ TokenVault address (required for Vault, ignored for Mint)
+    function setRewardSource(RewardSource source, address vault_) external onlyOwner {
+        require(source == RewardSource.Mint || vault_ != address(0), "Zero address");
+        rewardSource = source;
+        vault = ITokenVault(vault_);
+        emit RewardSourceUpdated(source, vault_);
+    }
+
+    /// @notice Returns the rewards earned by a token staked since the beginning
+    function rewardPerToken() public view returns (uint256) {
+        return rewardPerTokenStored + (block.timestamp - lastUpdateTime) * rewardRate;
+    }
+
+    /// @notice Returns the unclaimed rewards of a staked token (0 if not staked)
+    /// @param tokenId GenesisNFT token ID
+    function pendingReward(uint256 tokenId) public view returns (uint256) {
+        Stake storage position = stakes[tokenId];
+        if (position.owner == address(0)) {
+            return 0;
+        }
+        return rewardPerToken() - position.rewardPerTokenPaid;
+    }
+
+    /// @notice Returns the unclaimed rewards of all tokens staked by an owner, plus rewards owed to them
+    /// @param owner_ Staker address
+    function pendingRewards(address owner_) external view returns (uint256 total) {
+        total = owedRewards[owner_];
+        EnumerableSet.UintSet storage tokens = _stakedTokens[owner_];
+        for (uint256 i = 0; i < tokens.length(); i++) {
+            total += pendingReward(tokens.at(i));
+        }
+    }
+
+    /// @notice Returns the token IDs staked by an owner
+    /// @param owner_ Staker address
+    function stakedTokens(address owner_) external view returns (uint256[] memory) {
+        return _stakedTokens[owner_].values();
+    }
+
+    /// @notice Lock tokens and start earning rewards
+    /// @dev Caller must have approved the staking contract on GenesisNFT
+    /// @param tokenIds GenesisNFT token IDs owned by the caller
+    function stake(uint256[] calldata tokenIds) external {
+        require(tokenIds.length > 0, "No tokens");
+        uint256 accumulated = _updateRewardPerToken();
+
+        for (uint256 i = 0; i < tokenIds.length; i++) {
+            genesis.transferFrom(msg.sender, address(this), tokenIds[i]);
+            stakes[tokenIds[i]] = Stake({owner: msg.sender, rewardPerTokenPaid: accumulated});
+            _stakedTokens[msg.sender].add(tokenIds[i]);
+            emit Staked(msg.sender, tokenIds[i]);
+        }
+    }
+
+    /// @notice Claim the rewards of every token staked by the caller, plus rewards owed to them
+    function claim() external {
+        uint256 accumulated = _updateRewardPerToken();
+        uint256[] memory tokenIds = _stakedTokens[msg.sender].values();
+
+        uint256 reward = owedRewards[msg.sender];
+        owedRewards[msg.sender] = 0;
+        for (uint256 i = 0; i < tokenIds.length; i++) {
+            reward += _settle(tokenIds[i], accumulated);
+        }
+        _payReward(msg.sender, reward);
+    }
+
+    /// @notice Claim pending rewards and return tokens to the caller
+    /// @param tokenIds Token IDs staked by the caller
+    function unstake(uint256[] calldata tokenIds) external {
+        _payReward(msg.sender, _unstake(tokenIds));
+    }
+
+    /// @notice Return tokens to the caller without paying rewards
+    /// @dev For when payouts fail; the settled rewards are added to `owedRewards` and paid by a later `claim`
+    /// @param tokenIds Token IDs staked by the caller
+    function emergencyUnstake(uint256[] calldata tokenIds) external {
+        uint256 reward = _unstake(tokenIds);
+        if (reward > 0) {
+            owedRewards[msg.sender] += reward;
+            emit RewardDeferred(msg.sender, reward);
+        }
+    }
+
+    /// @dev Settles and returns tokens staked by the caller; returns the rewards they earned
+    function _unstake(uint256[] calldata tokenIds) private returns (uint256 reward) {
+        require(tokenIds.length > 0, "No tokens");
+        uint256 accumulated = _updateRewardPerToken();
+
+        for (uint256 i = 0; i < tokenIds.length; i++) {
+            uint256 tokenId = tokenIds[i];
+            require(stakes[tokenId].owner == msg.sender, "Not staker");
+
+            reward += _settle(tokenId, accumulated);
+            delete stakes[tokenId];
+            _stakedTokens[msg.sender].remove(tokenId);
+
+            genesis.transferFrom(address(this), msg.sender, tokenId);
+            emit Unstaked(msg.sender, tokenId);
+        }
+    }
+
+    /// @dev Brings the accumulator up to date and returns it
+    function _updateRewardPerToken() private returns (uint256 accumulated) {
+        accumulated = rewardPerToken();
+        rewardPerTokenStored = accumulated;
+        lastUpdateTime = block.timestamp;
+    }
+
+    /// @dev Marks a token's rewards as paid and returns the amount owed
+    function _settle(uint256 tokenId, uint256 accumulated) private returns (uint256 owed) {
+        Stake storage position = stakes[tokenId];
+        owed = accumulated - position.rewardPerTokenPaid;
+        position.rewardPerTokenPaid = accumulated;
+    }
+
+    /// @dev Mints or pays out Crystals according to the reward source
+    function _payReward(address to, uint256 amount) private {
+        if (amount == 0) {
+            return;
+        }
+        if (rewardSource == RewardSource.Mint) {
+            crystals.mint(to, amount);
+        } else {
+            vault.payout(address(crystals), to, amount);
+        }
+        emit RewardClaimed(to, amount);
+    }
+}
@@ -0,0 +1,390 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+/// @notice Importing OpenZeppelin ownership control, token helpers and the interfaces of the game contracts
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "./interfaces/IArtifactsERC1155.sol";
+import "./interfaces/ICrystals.sol";
+import "./utils/RandomnessConsumer.sol";
+
+/**
+ * @title LootBox
+ * @notice Loot boxes bought with Crystals that drop artifacts from an owner-configured weighted table,
+ *         with a per-player pity counter guaranteeing a minimum rarity after a streak of bad luck.
+ *
+ * @dev
+ * Key features:
+ *  - `open` escrows `price` Crystals and requests randomness; the price is burned and the drop minted when the
+ *    provider answers
+ *  - Drop table entries: artifact ID, relative weight, amount minted and rarity tier (0 common … 3 legendary)
+ *  - Every table or pity change creates a new `tableVersion`; a box always draws from the version it was opened
+ *    against, so odds cannot change after a player has paid
+ *  - Pending boxes are kept per provider; the player can `cancelOpen` to get the price back once the request
+ *    has waited `OPEN_TIMEOUT` or the owner has switched to another provider
+ *  - Pity: once a player has opened `pityThreshold - 1` boxes in a row without a drop of `pityRarity` or higher,
+ *    the next box draws only from those drops (weighted among themselves)
+ *  - The table, weights and pity state are readable on-chain so the game can display exact odds
+ *  - Pluggable randomness (`RandomnessConsumer`): RandomnessCoordinator, VRFRandomnessAdapter or MockRandomnessProvider
+ *
+ * Requirements:
+ *  - The loot box must hold MINTER_ROLE on ArtifactsERC1155 and be whitelisted on CrystalsV2
+ *  - Players must `approve` the loot box for the Crystals price
+ *  - Every artifact ID in the table must be registered and mintable on ArtifactsERC1155, otherwise the
+ *    fulfillment of a box drawing it reverts
+ *
+ * Inherits from:
+ *  - OpenZeppelin Ownable
+ *  - RandomnessConsumer
+ *
+ * Events:
+ *  - BoxOpened — Crystals escrowed, waiting for randomness
+ *  - DropAwarded — price burned and artifacts minted to the player
+ *  - BoxCancelled — unfulfilled box cancelled and price returned
+ *  - DropTableUpdated / PriceUpdated / PityUpdated / RandomnessProviderUpdated — configuration changes
+ *
+ * Usage example:
+ *  1. Owner deploys the loot box, grants it the roles above and calls `setDropTable` and `setPity`.
+ *  2. Player approves the price and calls `open()`; the game shows odds from `getDropTable` and progress from `opensUntilPity`.
+ *  3. The provider fulfills the request and the artifacts appear in the player's wallet.
+ *
+ * Author: Matik86 (Mibboverse)
+ * Version: 1.0.0
+ */
+
+/// @title LootBox
+/// @notice Sells random artifact drops for Crystals.
+/// @dev Only the configured randomness provider may fulfill requests.
+contract LootBox is Ownable, RandomnessConsumer {
+    using SafeERC20 for IERC20;
+
+    /// @notice Number of rarity tiers (common, rare, epic, legendary)
+    uint8 public constant RARITY_COUNT = 4;
+
+    /// @notice Time after which the player can cancel a box the current provider has not fulfilled
+    uint256 public constant OPEN_TIMEOUT = 1 days;
+
+    /// @notice Crystals token (proxy address) charged as the box price
+    ICrystals public immutable crystals;
+
+    /// @notice Artifacts collection the drops are minted from
+    IArtifactsERC1155 public immutable artifacts;
+
+    /// @notice Drop table entry
+    struct Drop {
+        uint256 artifactId; // Artifact minted
+        uint256 amount;     // Amount minted
+        uint32 weight;      // Relative chance of this entry
+        uint8 rarity;       // Rarity tier, used by the pity rule
+    }
+
+    /// @notice Drop table and pity rule a box is drawn against
+    struct DropTable {
+        Drop[] drops;         // Entries
+        uint256 totalWeight;  // Sum of all drop weights
+        uint256 pityWeight;   // Sum of the weights of drops at or above `pityRarity`
+        uint8 pityRarity;     // Minimum rarity guaranteed by the pity rule
+        uint32 pityThreshold; // Boxes after which the pity rule guarantees `pityRarity` (0 = disabled)
+    }
+
+    /// @notice Box waiting for randomness
+    struct PendingOpen {
+        address player;       // Receives the drop
+        uint256 tableVersion; // Drop table the box draws from
+        uint256 price;        // Escrowed Crystals
+        uint256 requestedAt;  // Timestamp of the request
+    }
+
+    /// @notice Crystals charged per box
+    uint256 public price;
+
+    /// @notice Version of the current drop table (0 = none set yet)
+    uint256 public tableVersion;
+
+    /// @notice Drop tables by version
+    mapping(uint256 => DropTable) private _tables;
+
+    /// @notice Boxes each player opened since their last drop at or above `pityRarity`
+    mapping(address => uint256) public pityCounter;
+
+    /// @notice Boxes waiting for randomness by provider and request ID
+    mapping(address => mapping(uint256 => PendingOpen)) public pendingOpens;
+
+    /// @notice Emitted when a box is paid for and randomness requested
+    event BoxOpened(address indexed player, uint256 indexed requestId, uint256 price);
+
+    /// @notice Emitted when an unfulfilled box is cancelled and its price returned
+    event BoxCancelled(address indexed player, uint256 indexed requestId, uint256 price);
+
+    /// @notice Emitted when a box's drop is minted
+    event DropAwarded(address indexed player, uint256 indexed requestId, uint256 indexed artifactId, uint256 amount, bool pity);
+
+    /// @notice Emitted when the drop table is replaced
+    event DropTableUpdated(uint256 entries, uint256 totalWeight);
+
+    /// @notice Emitted when the box price changes
+    event PriceUpdated(uint256 price);
+
+    /// @notice Emitted when the pity rule changes
+    event PityUpdated(uint8 rarity, uint32 threshold);
+
+    /// @notice Contract constructor
+    /// @param crystals_ Address of the Crystals proxy
+    /// @param artifacts_ Address of ArtifactsERC1155
+    /// @param provider_ Randomness provider
+    /// @param price_ Crystals charged per box
+    constructor(
+        address crystals_,
+        address artifacts_,
+        address provider_,
+        uint256 price_
+    ) Ownable(msg.sender) RandomnessConsumer(provider_) {
+        require(crystals_ != address(0) && artifacts_ != address(0), "Zero address");
+        crystals = ICrystals(crystals_);
+        artifacts = IArtifactsERC1155(artifacts_);
+        price = price_;
+        emit PriceUpdated(price_);
+    }
+
+    /// @notice Set the Crystals price of a box
+    /// @param price_ Crystals charged per box
+    function setPrice(uint256 price_) external onlyOwner {
+        price = price_;
+        emit PriceUpdated(price_);
+    }
+
+    /// @notice Replace the drop table
+    /// @dev Creates a new table version; boxes still waiting for randomness keep drawing from theirs
+    /// @param artifactIds Artifact ID of each entry
+    /// @param weights Relative weight of each entry
+    /// @param amounts Amount minted by each entry
+    /// @param rarities Rarity tier of each entry
+    function setDropTable(
+        uint256[] calldata artifactIds,
+        uint32[] calldata weights,
+        uint256[] calldata amounts,
+        uint8[] calldata rarities
+    ) external onlyOwner {
+        require(artifactIds.length > 0, "Empty drop table");
+        require(
+            artifactIds.length == weights.length &&
+                artifactIds.length == amounts.length &&
+                artifactIds.length == rarities.length,
+            "Length mismatch"
+        );
+
+        DropTable storage table = _newTable(false);
+        uint256 total;
+        for (uint256 i = 0; i < artifactIds.length; i++) {
+            require(weights[i] > 0, "Weight must be > 0");
+            require(amounts[i] > 0, "Amount must be > 0");
+            require(rarities[i] < RARITY_COUNT, "Invalid rarity");
+            table.drops.push(Drop({artifactId: artifactIds[i], amount: amounts[i], weight: weights[i], rarity: rarities[i]}));
+            total += weights[i];
+        }
+        table.totalWeight = total;
+        _updatePityWeight(table);
+
+        emit DropTableUpdated(artifactIds.length, total);
+    }
+
+    /// @notice Configure the pity rule
+    /// @dev Creates a new table version with the same drops; boxes still waiting for randomness keep their rule
+    /// @param rarity Minimum rarity guaranteed
+    /// @param threshold Boxes after which it is guaranteed (0 = disabled)
+    function setPity(uint8 rarity, uint32 threshold) external onlyOwner {
+        require(rarity < RARITY_COUNT, "Invalid rarity");
+        DropTable storage table = _newTable(true);
+        table.pityRarity = rarity;
+        table.pityThreshold = threshold;
+        _updatePityWeight(table);
+
+        emit PityUpdated(rarity, threshold);
+    }
+
+    /// @notice Switch the randomness provider
+    /// @dev Boxes pending at the old provider stay escrowed and their players can cancel them at once
+    /// @param provider_ New provider
+    function setRandomnessProvider(address provider_) external onlyOwner {
+        _setRandomnessProvider(provider_);
+    }
+
+    /// @notice Sum of all drop weights of the current table
+    function totalWeight() external view returns (uint256) {
+        return _tables[tableVersion].totalWeight;
+    }
+
+    /// @notice Sum of the weights of drops at or above `pityRarity` in the current table
+    function pityWeight() external view returns (uint256) {
+        return _tables[tableVersion].pityWeight;
+    }
+
+    /// @notice Minimum rarity guaranteed by the current pity rule
+    function pityRarity() external view returns (uint8) {
+        return _tables[tableVersion].pityRarity;
+    }
+
+    /// @notice Boxes after which the current pity rule guarantees `pityRarity` (0 = disabled)
+    function pityThreshold() external view returns (uint32) {
+        return _tables[tableVersion].pityThreshold;
+    }
+
+    /// @notice Returns the full current drop table
+    /// @dev The chance of entry `i` is `weights[i] / totalWeight`, or `weights[i] / pityWeight` for a pity box
+    function getDropTable()
+        external
+        view
+        returns (uint256[] memory artifactIds, uint32[] memory weights, uint256[] memory amounts, uint8[] memory rarities)
+    {
+        Drop[] storage drops = _tables[tableVersion].drops;
+        uint256 length = drops.length;
+        artifactIds = new uint256[](length);
+        weights = new uint32[](length);
+        amounts = new uint256[](length);
+        rarities = new uint8[](length);
+        for (uint256 i = 0; i < length; i++) {
+            Drop memory drop = drops[i];
+            artifactIds[i] = drop.artifactId;
+            weights[i] = drop.weight;
+            amounts[i] = drop.amount;
+            rarities[i] = drop.rarity;
+        }
+    }
+
+    /// @notice Returns a single entry of the current drop table
+    /// @param index Entry index
+    function dropAt(uint256 index) external view returns (Drop memory) {
+        return _tables[tableVersion].drops[index];
+    }
+
+    /// @notice Returns the number of entries of the current drop table
+    function dropCount() external view returns (uint256) {
+        return _tables[tableVersion].drops.length;
+    }
+
+    /// @notice Returns how many more boxes `player` can open before one is guaranteed `pityRarity`
+    /// @dev 1 means the next box is a pity box; 0 means the pity rule is disabled
+    /// @param player Player address
+    function opensUntilPity(address player) external view returns (uint256) {
+        uint32 threshold = _tables[tableVersion].pityThreshold;
+        if (threshold == 0) {
+            return 0;
+        }
+        uint256 counter = pityCounter[player];
+        return counter + 1 >= threshold ? 1 : threshold - counter;
+    }
+
+    /// @notice Escrow the box price and request a drop from the current table
+    /// @dev Caller must have approved the loot box for `price` Crystals
+    /// @return requestId Randomness request identifier
+    function open() external returns (uint256 requestId) {
+        require(_tables[tableVersion].drops.length > 0, "Empty drop table");
+
+        uint256 price_ = price;
+        if (price_ > 0) {
+            IERC20(address(crystals)).safeTransferFrom(msg.sender, address(this), price_);
+        }
+
+        requestId = _requestRandomness();
+        pendingOpens[address(randomnessProvider)][requestId] = PendingOpen({
+            player: msg.sender,
+            tableVersion: tableVersion,
+            price: price_,
+            requestedAt: block.timestamp
+        });
+
+        emit BoxOpened(msg.sender, requestId, price_);
+    }
+
+    /// @notice Cancel a box that was never fulfilled and get the price back
+    /// @dev Allowed after `OPEN_TIMEOUT`, or at once if `provider` is no longer the current provider
+    /// @param provider Provider the box was requested from
+    /// @param requestId Randomness request identifier
+    function cancelOpen(address provider, uint256 requestId) external {
+        PendingOpen memory pending = pendingOpens[provider][requestId];
+        require(pending.player == msg.sender, "Not box owner");
+        require(
+            provider != address(randomnessProvider) || block.timestamp >= pending.requestedAt + OPEN_TIMEOUT,
+            "Box still pending"
+        );
+        delete pendingOpens[provider][requestId];
+
+        if (pending.price > 0) {
+            IERC20(address(crystals)).safeTransfer(msg.sender, pending.price);
+        }
+
+        emit BoxCancelled(msg.sender, requestId, pending.price);
+    }
+
+    /// @dev Burns the price, draws and mints the drop of a pending box, and advances the player's pity counter
+    function _fulfillRandomness(uint256 requestId, uint256 randomness) internal override {
+        PendingOpen memory pending = pendingOpens[address(randomnessProvider)][requestId];
+        require(pending.player != address(0), "Unknown request");
+        delete pendingOpens[address(randomnessProvider)][requestId];
+
+        if (pending.price > 0) {
+            crystals.burn(pending.price);
+        }
+
+        address player = pending.player;
+        DropTable storage table = _tables[pending.tableVersion];
+        bool pity = table.pityThreshold > 0 && pityCounter[player] + 1 >= table.pityThreshold;
+        Drop memory drop = _drawDrop(table, randomness, pity);
+
+        if (table.pityThreshold > 0) {
+            pityCounter[player] = drop.rarity >= table.pityRarity ? 0 : pityCounter[player] + 1;
+        }
+
+        uint256[] memory ids = new uint256[](1);
+        uint256[] memory amounts = new uint256[](1);
+        ids[0] = drop.artifactId;
+        amounts[0] = drop.amount;
+        artifacts.mintBatch(player, ids, amounts);
+
+        emit DropAwarded(player, requestId, drop.artifactId, drop.amount, pity);
+    }
+
+    /// @dev Picks an entry proportionally to its weight, among drops at or above `pityRarity` when `pity` is set
+    function _drawDrop(DropTable storage table, uint256 randomness, bool pity) private view returns (Drop memory) {
+        uint256 point = randomness % (pity ? table.pityWeight : table.totalWeight);
+        uint256 length = table.drops.length;
+        for (uint256 i = 0; i < length; i++) {
+            Drop memory drop = table.drops[i];
+            if (pity && drop.rarity < table.pityRarity) {
+                continue;
+            }
+            if (point < drop.weight) {
+                return drop;
+            }
+            point -= drop.weight;
+        }
+        revert("Empty drop table");
+    }
+
+    /// @dev Starts the next table version, carrying over the pity rule and, if `copyDrops`, the drops
+    function _newTable(bool copyDrops) private returns (DropTable storage table) {
+        DropTable storage current = _tables[tableVersion];
+        table = _tables[++tableVersion];
+        table.pityRarity = current.pityRarity;
+        table.pityThreshold = current.pityThreshold;
+        if (copyDrops) {
+            for (uint256 i = 0; i < current.drops.length; i++) {
+                table.drops.push(current.drops[i]);
+            }
+            table.totalWeight = current.totalWeight;
+        }
+    }
+
+    /// @dev Recomputes `pityWeight` and rejects a pity rule no drop can satisfy
+    function _updatePityWeight(DropTable storage table) private {
+        uint256 weight;
+        for (uint256 i = 0; i < table.drops.length; i++) {
+            if (table.drops[i].rarity >= table.pityRarity) {
+                weight += table.drops[i].weight;
+            }
+        }
+        require(table.pityThreshold == 0 || table.drops.length == 0 || weight > 0, "No drops at pity rarity");
+        table.pityWeight = weight;
+    }
+}
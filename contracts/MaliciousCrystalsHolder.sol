@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+/// @notice Test fixture that tries to route around the Crystals transfer policy.
+/// @dev Approves and pulls from its constructor, where `isContract` still returns false.
+contract MaliciousCrystalsHolder {
+    IERC20 public immutable token;
+
+    constructor(IERC20 token_, address spender, uint256 approveAmount, address pullFrom, uint256 pullAmount) {
+        token = token_;
+        if (approveAmount > 0) {
+            token_.approve(spender, approveAmount);
+        }
+        if (pullAmount > 0) {
+            token_.transferFrom(pullFrom, address(this), pullAmount);
+        }
+    }
+
+    function approve(address spender, uint256 amount) external {
+        token.approve(spender, amount);
+    }
+
+    function transfer(address to, uint256 amount) external {
+        token.transfer(to, amount);
+    }
+
+    function transferFrom(address from, address to, uint256 amount) external {
+        token.transferFrom(from, to, amount);
+    }
+}
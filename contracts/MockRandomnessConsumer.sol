@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+import "./utils/RandomnessConsumer.sol";
+
+/// @notice Minimal RandomnessConsumer for provider tests.
+/// @dev Stores every delivered word and can be told to reject callbacks. Never use outside tests.
+contract MockRandomnessConsumer is RandomnessConsumer {
+    /// @notice Delivered word of each request
+    mapping(uint256 => uint256) public results;
+
+    /// @notice When true, callbacks revert
+    bool public rejectCallbacks;
+
+    constructor(address provider_) RandomnessConsumer(provider_) {}
+
+    function request() external returns (uint256) {
+        return _requestRandomness();
+    }
+
+    function setRejectCallbacks(bool reject) external {
+        rejectCallbacks = reject;
+    }
+
+    function _fulfillRandomness(uint256 requestId, uint256 randomness) internal override {
+        require(!rejectCallbacks, "Callback rejected");
+        results[requestId] = randomness;
+    }
+}
@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+import "./interfaces/IRandomnessProvider.sol";
+
+/// @notice Local randomness provider for tests and offline development.
+/// @dev Records requests and lets anyone answer them with a chosen word. Never use outside tests.
+contract MockRandomnessProvider is IRandomnessProvider {
+    /// @notice Number of requests made; request IDs start from 1
+    uint256 public requestCount;
+
+    /// @notice Contract that made each request
+    mapping(uint256 => address) public requester;
+
+    event RandomnessRequested(uint256 indexed requestId, address indexed requester);
+
+    function requestRandomness() external returns (uint256 requestId) {
+        requestId = ++requestCount;
+        requester[requestId] = msg.sender;
+        emit RandomnessRequested(requestId, msg.sender);
+    }
+
+    /// @notice Answer a request with `randomness`
+    function fulfill(uint256 requestId, uint256 randomness) external {
+        address consumer = requester[requestId];
+        require(consumer != address(0), "Unknown request");
+        delete requester[requestId];
+        IRandomnessConsumer(consumer).fulfillRandomness(requestId, randomness);
+    }
+}
@@ -0,0 +1,58 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+import "./interfaces/IVRFCoordinator.sol";
+
+/// @notice Local VRF coordinator for tests and offline development.
+/// @dev Accepts every request and lets anyone answer it with derived or chosen words. Never use outside tests.
+contract MockVRFCoordinator is IVRFCoordinator {
+    struct Request {
+        address consumer;
+        uint32 numWords;
+    }
+
+    /// @notice Number of requests made; request IDs start from 1
+    uint256 public requestCount;
+
+    /// @notice Pending requests by ID
+    mapping(uint256 => Request) public requests;
+
+    event RandomWordsRequested(uint256 indexed requestId, address indexed consumer, bytes32 keyHash, uint32 numWords);
+    event RandomWordsFulfilled(uint256 indexed requestId, bool success);
+
+    function requestRandomWords(
+        bytes32 keyHash,
+        uint256,
+        uint16,
+        uint32,
+        uint32 numWords
+    ) external returns (uint256 requestId) {
+        requestId = ++requestCount;
+        requests[requestId] = Request({consumer: msg.sender, numWords: numWords});
+        emit RandomWordsRequested(requestId, msg.sender, keyHash, numWords);
+    }
+
+    /// @notice Answer a request with words derived from its ID
+    function fulfillRandomWords(uint256 requestId) external {
+        uint256[] memory words = new uint256[](requests[requestId].numWords);
+        for (uint256 i = 0; i < words.length; i++) {
+            words[i] = uint256(keccak256(abi.encode(requestId, i)));
+        }
+        _fulfill(requestId, words);
+    }
+
+    /// @notice Answer a request with chosen words
+    function fulfillRandomWordsWithOverride(uint256 requestId, uint256[] calldata words) external {
+        _fulfill(requestId, words);
+    }
+
+    function _fulfill(uint256 requestId, uint256[] memory words) private {
+        Request memory request = requests[requestId];
+        require(request.consumer != address(0), "Unknown request");
+        require(words.length == request.numWords, "Wrong number of words");
+        delete requests[requestId];
+
+        IVRFConsumer(request.consumer).rawFulfillRandomWords(requestId, words);
+        emit RandomWordsFulfilled(requestId, true);
+    }
+}
@@ -0,0 +1,220 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+/// @notice Importing OpenZeppelin ownership control, the shared access roles and the randomness interfaces
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "./interfaces/IRandomnessProvider.sol";
+import "./utils/AccessRoles.sol";
+
+/**
+ * @title RandomnessCoordinator
+ * @notice Commit-reveal randomness provider: the backend commits to secret seeds in advance, each request
+ *         is bound to the next unused commitment plus on-chain entropy, and revealing the seed delivers
+ *         the random word to the requesting contract.
+ *
+ * @dev
+ * Key features:
+ *  - Operators (RANDOMNESS_OPERATOR_ROLE) publish `keccak256(seed)` commitments before any request can use them
+ *  - A request takes the next commitment and records `keccak256(blockhash(block.number - 1), block.prevrandao)`
+ *  - Random word = `keccak256(abi.encode(seed, entropy, requestId))`, reproducible by anyone after the reveal
+ *  - Anyone holding the seed can `reveal`; the coordinator then calls `fulfillRandomness` on the consumer with
+ *    `callbackGasLimit` gas, and the reveal reverts if the transaction cannot forward that much
+ *  - A reverting consumer does not block the reveal: the word is stored, `RandomnessFulfilled` reports the failure
+ *    and anyone can `retryDelivery` later
+ *  - Only consumers allowed by WHITELIST_MANAGER can request (`setConsumer`)
+ *
+ * Trust model:
+ *  - The operator commits to each seed before the request exists, so it cannot pick a seed to suit the entropy,
+ *    and players cannot predict the word before the reveal.
+ *  - The operator is still trusted: it knows every seed and the entropy is public once the request is mined,
+ *    so it learns each word before revealing and can withhold reveals it dislikes. Block producers can also
+ *    influence the entropy. `pendingRequests` makes stalls visible, and consumers let players cancel requests
+ *    that are never answered; use VRFRandomnessAdapter where the operator must not be trusted.
+ *
+ * Inherits from:
+ *  - OpenZeppelin Ownable
+ *  - AccessRoles
+ *
+ * Events:
+ *  - RoleGranted / RoleRevoked — role management
+ *  - ConsumerUpdated — contract allowed or disallowed to request
+ *  - SeedsCommitted — new commitments published
+ *  - RandomnessRequested — commitment assigned to a request
+ *  - RandomnessFulfilled — seed revealed and word delivered
+ *  - RandomnessDelivered — undelivered word re-sent with `retryDelivery`
+ *  - CallbackGasLimitUpdated — callback gas changed
+ *
+ * Usage example:
+ *  1. Backend generates seeds with sdk/randomness.ts and calls `commit(commitments)`.
+ *  2. Owner allows consumers (EggHatchery, loot contracts) with `setConsumer`.
+ *  3. A consumer calls `requestRandomness`; the backend watches `RandomnessRequested` and calls `reveal(requestId, seed)`.
+ *
+ * Author: Matik86 (Mibboverse)
+ * Version: 1.0.0
+ */
+
+/// @title RandomnessCoordinator
+/// @notice Commit-reveal IRandomnessProvider for game contracts.
+/// @dev Commitments are consumed in the order they were published.
+contract RandomnessCoordinator is Ownable, AccessRoles, IRandomnessProvider {
+    /// @notice Publishes seed commitments
+    bytes32 public constant RANDOMNESS_OPERATOR_ROLE = keccak256("RANDOMNESS_OPERATOR_ROLE");
+
+    /// @notice Randomness request bound to a commitment
+    struct Request {
+        address consumer;    // Contract receiving the word
+        bytes32 commitment;  // keccak256(seed) the request was assigned
+        bytes32 entropy;     // On-chain entropy recorded at request time
+        uint256 randomness;  // Delivered word (0 until revealed)
+        bool fulfilled;      // Whether the seed has been revealed
+        bool delivered;      // Whether the consumer accepted the word
+    }
+
+    /// @notice Published commitments, in consumption order
+    bytes32[] public commitments;
+
+    /// @notice Index of the next commitment to assign
+    uint256 public nextCommitment;
+
+    /// @notice Number of requests made; request IDs start from 1
+    uint256 public requestCount;
+
+    /// @notice Number of requests still waiting for a reveal
+    uint256 public pendingRequests;
+
+    /// @notice Gas forwarded to the consumer callback
+    uint32 public callbackGasLimit = 500_000;
+
+    /// @notice Requests by ID
+    mapping(uint256 => Request) public requests;
+
+    /// @notice Contracts allowed to request randomness
+    mapping(address => bool) public consumers;
+
+    /// @notice Emitted when a consumer is allowed or disallowed
+    event ConsumerUpdated(address indexed consumer, bool allowed);
+
+    /// @notice Emitted when commitments are published
+    event SeedsCommitted(uint256 indexed firstIndex, uint256 count);
+
+    /// @notice Emitted when a request is assigned a commitment
+    event RandomnessRequested(uint256 indexed requestId, address indexed consumer, bytes32 commitment, bytes32 entropy);
+
+    /// @notice Emitted when a seed is revealed; `delivered` is false if the consumer callback reverted
+    event RandomnessFulfilled(uint256 indexed requestId, uint256 randomness, bool delivered);
+
+    /// @notice Emitted when the word of a revealed request is re-sent to its consumer
+    event RandomnessDelivered(uint256 indexed requestId, bool delivered);
+
+    /// @notice Emitted when the callback gas changes
+    event CallbackGasLimitUpdated(uint32 callbackGasLimit);
+
+    constructor() Ownable(msg.sender) {}
+
+    /// @notice Allow or disallow a contract to request randomness
+    /// @param consumer Consumer contract
+    /// @param allowed True to allow, false to disallow
+    function setConsumer(address consumer, bool allowed) external onlyRole(WHITELIST_MANAGER_ROLE) {
+        require(consumer != address(0), "Zero address");
+        consumers[consumer] = allowed;
+        emit ConsumerUpdated(consumer, allowed);
+    }
+
+    /// @notice Set the gas forwarded to consumer callbacks
+    /// @param callbackGasLimit_ Gas available to `fulfillRandomness`
+    function setCallbackGasLimit(uint32 callbackGasLimit_) external onlyOwner {
+        require(callbackGasLimit_ > 0, "Zero gas limit");
+        callbackGasLimit = callbackGasLimit_;
+        emit CallbackGasLimitUpdated(callbackGasLimit_);
+    }
+
+    /// @notice Publish commitments to future seeds (operator-only)
+    /// @param newCommitments `keccak256(seed)` of each seed, in the order they will be used
+    function commit(bytes32[] calldata newCommitments) external onlyRole(RANDOMNESS_OPERATOR_ROLE) {
+        require(newCommitments.length > 0, "No commitments");
+        emit SeedsCommitted(commitments.length, newCommitments.length);
+        for (uint256 i = 0; i < newCommitments.length; i++) {
+            require(newCommitments[i] != bytes32(0), "Empty commitment");
+            commitments.push(newCommitments[i]);
+        }
+    }
+
+    /// @notice Returns the number of commitments not yet assigned to a request
+    function availableCommitments() external view returns (uint256) {
+        return commitments.length - nextCommitment;
+    }
+
+    /// @notice Request a random word, delivered later through `fulfillRandomness`
+    /// @return requestId Identifier passed back with the result
+    function requestRandomness() external returns (uint256 requestId) {
+        require(consumers[msg.sender], "Consumer not allowed");
+        require(nextCommitment < commitments.length, "No commitments available");
+
+        requestId = ++requestCount;
+        bytes32 commitment = commitments[nextCommitment++];
+        bytes32 entropy = keccak256(abi.encode(blockhash(block.number - 1), block.prevrandao));
+
+        requests[requestId] = Request({
+            consumer: msg.sender,
+            commitment: commitment,
+            entropy: entropy,
+            randomness: 0,
+            fulfilled: false,
+            delivered: false
+        });
+        pendingRequests++;
+
+        emit RandomnessRequested(requestId, msg.sender, commitment, entropy);
+    }
+
+    /// @notice Reveal the seed of a request and deliver its random word
+    /// @param requestId Randomness request identifier
+    /// @param seed Secret whose hash is the request's commitment
+    function reveal(uint256 requestId, bytes32 seed) external {
+        Request storage request = requests[requestId];
+        require(request.consumer != address(0), "Unknown request");
+        require(!request.fulfilled, "Already fulfilled");
+        require(keccak256(abi.encode(seed)) == request.commitment, "Invalid seed");
+
+        uint256 randomness = uint256(keccak256(abi.encode(seed, request.entropy, requestId)));
+        request.randomness = randomness;
+        request.fulfilled = true;
+        pendingRequests--;
+
+        emit RandomnessFulfilled(requestId, randomness, _deliver(requestId, request));
+    }
+
+    /// @notice Re-send the word of a revealed request whose consumer callback failed
+    /// @param requestId Randomness request identifier
+    function retryDelivery(uint256 requestId) external {
+        Request storage request = requests[requestId];
+        require(request.fulfilled, "Not fulfilled");
+        require(!request.delivered, "Already delivered");
+
+        emit RandomnessDelivered(requestId, _deliver(requestId, request));
+    }
+
+    /// @dev Calls the consumer with `callbackGasLimit` gas. Only 63/64 of the remaining gas can be forwarded,
+    ///      so a caller starving the callback would make it fail; such transactions revert instead.
+    function _deliver(uint256 requestId, Request storage request) private returns (bool delivered) {
+        uint256 gasLimit = callbackGasLimit;
+        require(gasleft() >= gasLimit + gasLimit / 63 + 10_000, "Insufficient gas for callback");
+
+        (delivered, ) = request.consumer.call{gas: gasLimit}(
+            abi.encodeCall(IRandomnessConsumer.fulfillRandomness, (requestId, request.randomness))
+        );
+        request.delivered = delivered;
+    }
+
+    /// @dev Owner grants and revokes roles
+    function _rolesOwner() internal view override returns (address) {
+        return owner();
+    }
+
+    /// @dev An admin publishes commitments and manages consumers
+    function _adminRoles() internal pure override returns (bytes32[] memory roles) {
+        roles = new bytes32[](2);
+        roles[0] = RANDOMNESS_OPERATOR_ROLE;
+        roles[1] = WHITELIST_MANAGER_ROLE;
+    }
+}
@@ -5,130 +5,336 @@ pragma solidity ^0.8.30;
 ///         and cryptographic utilities (ECDSA and EIP-712) used for secure off-chain 
 ///         signature verification, access control, and token interactions.
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
 import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import "@openzeppelin/contracts/utils/Address.sol";
+import "./utils/AccessRoles.sol";
+import "./utils/GuardianPausable.sol";
 
 /**
  * @title TokenVault
- * @notice Vault contract for managing ERC20 tokens with admin-controlled deposits, claims via off-chain signatures, and owner withdrawals.
+ * @notice Vault contract for managing ERC20 tokens with role-controlled deposits, claims via off-chain signatures, and owner withdrawals.
  *
  * @dev
  * Key features:
- *  - Admin system managed by owner for controlling claim permissions
+ *  - Enumerable roles managed by owner: MINTER (signs claims), PAYOUT (pays out rewards), WHITELIST_MANAGER (allowed tokens), PAUSER
  *  - EIP-712 signature-based token claims with nonces and optional deadlines to prevent replay attacks (`claim`)
- *  - Deposit functionality for allowed ERC20 tokens
- *  - Owner can withdraw tokens from the vault
- *  - Supports standard ERC20 token interactions via `transferFrom` and `transfer`
+ *  - Direct reward payouts by game contracts holding PAYOUT_ROLE (`payout`), e.g. GenesisStaking;
+ *    the role is never granted by `setAdmin`, so the backend signer cannot move reserves without a signature
+ *  - Deposit functionality for allowed ERC20 tokens, in one transaction for EIP-2612 tokens (`depositWithPermit`)
+ *  - Guardian emergency stop with separate DEPOSIT, CLAIM and WITHDRAW pause flags
+ *  - Native ETH support: deposits, claims and withdrawals use `address(0)` as the token address
+ *  - Per-user deposit accounting; users can withdraw their own deposits after an optional cooldown (`withdrawDeposit`)
+ *  - Owner can withdraw tokens from the vault, except for user-owned deposits and unclaimed distributions
+ *  - Per-token claim limits per epoch: total, per user and per signer (`setClaimLimits`)
+ *  - Merkle-root reward distributions claimed with a proof (`publishDistribution` / `claimDistribution`);
+ *    the published total is set aside from the reserves until claimed, and claims count against the limits
+ *  - ERC20 transfers go through SafeERC20, so tokens returning false never credit a deposit or a payout
  *
  * Inherits from:
  *  - OpenZeppelin Ownable
  *  - OpenZeppelin EIP712
+ *  - AccessRoles
+ *  - GuardianPausable
  *
  * Events:
- *  - AdminUpdated — admin added or removed
+ *  - RoleGranted / RoleRevoked — role management
  *  - TokenAllowed — ERC20 token added or removed from allowed list
  *  - Deposited — user deposited tokens into the vault
  *  - Claimed — user claimed tokens using signed permit
  *  - Withdrawn — owner withdrew tokens from the vault
+ *  - Funded — ETH added to the vault reserves
+ *  - DepositWithdrawn — user withdrew their own deposit
+ *  - WithdrawalCooldownUpdated — deposit cooldown changed
+ *  - ClaimLimitsUpdated / EpochDurationUpdated — claim limit configuration changes
+ *  - DistributionPublished / DistributionClaimed — Merkle reward distributions
  *
  * Usage example:
- *  1. Owner adds an admin using `setAdmin`.
- *  2. Admins authorize claims off-chain using EIP-712 signed messages.
- *  3. Users deposit allowed ERC20 tokens using `deposit`.
+ *  1. Owner grants MINTER_ROLE to the claim signer using `grantRole` (or `setAdmin`).
+ *  2. Minters authorize claims off-chain using EIP-712 signed messages.
+ *  3. Users deposit allowed ERC20 tokens using `deposit` (or `depositWithPermit` with a signed approval),
+ *     or ETH using `depositETH`.
  *  4. Users can claim tokens via `claim` with a valid signed message.
- *  5. Owner can withdraw tokens from the vault using `withdraw`.
+ *  5. Users can take back their deposits using `withdrawDeposit`.
+ *  6. Owner can withdraw tokens not owned by users from the vault using `withdraw`.
  *
  * Author: Matik86 (Mibboverse)
  * Version: 1.0.0
  */
 
 /// @title TokenVault
-/// @notice Vault contract for managing allowed ERC20 tokens with admin-controlled deposits, off-chain signature-based claims, and owner withdrawals.
-/// @dev Uses EIP-712 for secure signature-based claims and owner/admin system for managing allowed tokens.
-contract TokenVault is Ownable, EIP712 {
+/// @notice Vault contract for managing allowed ERC20 tokens with role-controlled deposits, off-chain signature-based claims, and owner withdrawals.
+/// @dev Uses EIP-712 for secure signature-based claims and access roles for managing allowed tokens.
+contract TokenVault is Ownable, EIP712, AccessRoles, GuardianPausable {
     using ECDSA for bytes32;
+    using SafeERC20 for IERC20;
 
-    /// @notice Mapping of ERC20 tokens allowed in the vault
+    /// @notice Token address used for native ETH in deposits, claims, distributions and withdrawals
+    address public constant NATIVE_TOKEN = address(0);
+
+    /// @notice Mapping of ERC20 tokens (and NATIVE_TOKEN for ETH) allowed in the vault
     mapping(address => bool) public allowedTokens;
     
-    /// @notice Mapping of admin addresses
-    mapping(address => bool) public admins;
-
     /// @notice Nonces for replay protection in EIP-712 claims
     mapping(address => uint256) public nonces;
-    
-    /// @notice Emitted when an admin is added or removed
-    event AdminUpdated(address indexed admin, bool allowed);
 
+    /// @notice Deposited balance per user and token
+    mapping(address => mapping(address => uint256)) public deposits;
+
+    /// @notice Sum of all user deposits per token; never available for claims or owner withdrawals
+    mapping(address => uint256) public totalDeposits;
+
+    /// @notice Timestamp of the last deposit per user and token
+    mapping(address => mapping(address => uint256)) public lastDepositAt;
+
+    /// @notice Seconds a user must wait after their last deposit before withdrawing it (0 = no lock)
+    uint256 public withdrawalCooldown;
+
+    /// @notice Claim limits of a token, applied per epoch (0 = unlimited)
+    struct ClaimLimits {
+        uint256 tokenCap;   // Total amount claimable by everyone
+        uint256 userCap;    // Amount claimable by a single user
+        uint256 signerCap;  // Amount a single signer can authorize
+    }
+
+    /// @notice Length of a claim limit epoch in seconds
+    uint256 public epochDuration = 1 days;
+
+    /// @notice Claim limits per ERC20 token
+    mapping(address => ClaimLimits) public claimLimits;
+
+    /// @notice Amount claimed per epoch and token
+    mapping(uint256 => mapping(address => uint256)) public claimedByToken;
+
+    /// @notice Amount claimed per epoch, token and user
+    mapping(uint256 => mapping(address => mapping(address => uint256))) public claimedByUser;
+
+    /// @notice Amount authorized per epoch, token and signer
+    mapping(uint256 => mapping(address => mapping(address => uint256))) public claimedBySigner;
+
+    /// @notice Merkle reward distribution (e.g. a weekly leaderboard payout)
+    struct Distribution {
+        bytes32 root;      // Root of the (index, account, amount) leaves
+        uint256 total;     // Sum of all leaf amounts
+        uint256 claimed;   // Amount claimed so far
+    }
+
+    /// @notice Distributions per token and distribution epoch
+    mapping(address => mapping(uint256 => Distribution)) public distributions;
+
+    /// @notice Published distribution amounts not yet claimed, per token; never available for other payouts
+    mapping(address => uint256) public reservedForDistributions;
+
+    /// @dev Claimed leaf bitmap per token and distribution epoch
+    mapping(address => mapping(uint256 => mapping(uint256 => uint256))) private _claimedBitMap;
+    
     /// @notice Emitted when an ERC20 token is allowed or disallowed for deposits and claims
     event TokenAllowed(address indexed token, bool allowed);
 
-    /// @notice Emitted when a user deposits ERC20 tokens into the vault
+    /// @notice Emitted when a user deposits ERC20 tokens or ETH into the vault
     event Deposited(address indexed user, address indexed token, uint256 amount);
 
-    /// @notice Emitted when a user claims ERC20 tokens using a valid signature
+    /// @notice Emitted when a user claims ERC20 tokens or ETH using a valid signature
     event Claimed(address indexed user, address indexed token, uint256 amount, address indexed signer);
 
-    /// @notice Emitted when the owner withdraws ERC20 tokens from the vault
+    /// @notice Emitted when the owner withdraws ERC20 tokens or ETH from the vault
     event Withdrawn(address indexed token, address indexed to, uint256 amount);
+
+    /// @notice Emitted when ETH is added to the vault reserves
+    event Funded(address indexed from, address indexed token, uint256 amount);
+
+    /// @notice Emitted when a user withdraws their own deposit
+    event DepositWithdrawn(address indexed user, address indexed token, uint256 amount);
+
+    /// @notice Emitted when the deposit withdrawal cooldown is updated
+    event WithdrawalCooldownUpdated(uint256 cooldown);
+
+    /// @notice Emitted when the claim limits of a token are updated
+    event ClaimLimitsUpdated(address indexed token, uint256 tokenCap, uint256 userCap, uint256 signerCap);
+
+    /// @notice Emitted when the epoch duration is updated
+    event EpochDurationUpdated(uint256 epochDuration);
+
+    /// @notice Emitted when a Merkle reward distribution is published
+    event DistributionPublished(address indexed token, uint256 indexed epoch, bytes32 root, uint256 total);
+
+    /// @notice Emitted when a leaf of a Merkle reward distribution is claimed
+    event DistributionClaimed(address indexed token, uint256 indexed epoch, uint256 index, address indexed account, uint256 amount);
     
     // EIP-712 typehash for signature-based claims
     bytes32 private constant CLAIM_TYPEHASH =
         keccak256("Claim(address to,address token,uint256 amount,uint256 nonce,uint256 deadline)");
+
+    /// @notice Pays rewards out of the reserves without a signature; meant for game contracts only
+    bytes32 public constant PAYOUT_ROLE = keccak256("PAYOUT_ROLE");
+
+    /// @notice Pause keys for `pause` / `unpause`
+    bytes32 public constant DEPOSIT_ACTION = keccak256("DEPOSIT");
+    bytes32 public constant CLAIM_ACTION = keccak256("CLAIM");
+    bytes32 public constant WITHDRAW_ACTION = keccak256("WITHDRAW");
     
     /// @custom:oz-upgrades-unsafe-allow constructor
-    /// @dev Sets deployer as initial owner and admin
+    /// @dev Sets deployer as initial owner and grants it the admin roles
     constructor() Ownable(msg.sender) EIP712("TokenVault", "1") {
-        admins[msg.sender] = true;
-        emit AdminUpdated(msg.sender, true);
-    }
-   
-    /// @dev Restricts access to only admins or owner
-    modifier onlyAdmin() {
-        require(admins[msg.sender] || owner() == msg.sender, "Not admin");
-        _;
-    }
-
-    /// @notice Add or remove an admin
-    /// @param admin Address to grant/revoke admin rights
-    /// @param allowed True to add, false to remove
-    function setAdmin(address admin, bool allowed) external onlyOwner {
-        admins[admin] = allowed;
-        emit AdminUpdated(admin, allowed);
+        _setAdmin(msg.sender, true);
     }
 
     /// @notice Add or remove a token from the allowed list
     /// @param token Address of the ERC20 token
     /// @param allowed True to allow, false to disallow
-    function setAllowedToken(address token, bool allowed) external onlyAdmin {
+    function setAllowedToken(address token, bool allowed) external onlyRole(WHITELIST_MANAGER_ROLE) {
         allowedTokens[token] = allowed;
         emit TokenAllowed(token, allowed);
     }
 
+    /// @notice Set per-epoch claim limits for a token
+    /// @param token Address of the ERC20 token
+    /// @param tokenCap Total amount claimable per epoch (0 = unlimited)
+    /// @param userCap Amount claimable by a single user per epoch (0 = unlimited)
+    /// @param signerCap Amount a single signer can authorize per epoch (0 = unlimited)
+    function setClaimLimits(
+        address token,
+        uint256 tokenCap,
+        uint256 userCap,
+        uint256 signerCap
+    ) external onlyOwner {
+        claimLimits[token] = ClaimLimits({tokenCap: tokenCap, userCap: userCap, signerCap: signerCap});
+        emit ClaimLimitsUpdated(token, tokenCap, userCap, signerCap);
+    }
+
+    /// @notice Set the length of a claim limit epoch
+    /// @dev Changing the duration renumbers epochs, so amounts claimed in the current epoch stop counting
+    /// @param duration Epoch length in seconds
+    function setEpochDuration(uint256 duration) external onlyOwner {
+        require(duration > 0, "Duration must be > 0");
+        epochDuration = duration;
+        emit EpochDurationUpdated(duration);
+    }
+
+    /// @notice Returns the current claim limit epoch
+    function currentEpoch() public view returns (uint256) {
+        return block.timestamp / epochDuration;
+    }
+
+    /// @notice Returns the amount of a token still claimable by everyone in the current epoch
+    /// @param token Address of the ERC20 token
+    /// @return Remaining amount (type(uint256).max if unlimited)
+    function remainingTokenAllowance(address token) external view returns (uint256) {
+        return _remaining(claimLimits[token].tokenCap, claimedByToken[currentEpoch()][token]);
+    }
+
+    /// @notice Returns the amount of a token still claimable by a user in the current epoch
+    /// @param token Address of the ERC20 token
+    /// @param user Claiming user
+    /// @return Remaining amount (type(uint256).max if unlimited)
+    function remainingUserAllowance(address token, address user) external view returns (uint256) {
+        return _remaining(claimLimits[token].userCap, claimedByUser[currentEpoch()][token][user]);
+    }
+
+    /// @notice Returns the amount of a token a signer can still authorize in the current epoch
+    /// @param token Address of the ERC20 token
+    /// @param signer Admin signing claims
+    /// @return Remaining amount (type(uint256).max if unlimited)
+    function remainingSignerAllowance(address token, address signer) external view returns (uint256) {
+        return _remaining(claimLimits[token].signerCap, claimedBySigner[currentEpoch()][token][signer]);
+    }
+
     /// @notice Deposit allowed ERC20 tokens into the vault
     /// @param token Address of the ERC20 token
     /// @param amount Amount to deposit
-    function deposit(address token, uint256 amount) external {
-        require(allowedTokens[token], "Token not allowed");
+    function deposit(address token, uint256 amount) external whenNotPaused(DEPOSIT_ACTION) {
+        _depositToken(token, amount);
+    }
+
+    /// @notice Deposit allowed EIP-2612 tokens using a signed approval instead of a separate `approve`
+    /// @dev A permit already submitted by someone else (front-running) does not block the deposit:
+    ///      its failure is ignored and `transferFrom` relies on the allowance it granted.
+    /// @param token Address of the ERC20 token (must implement `permit`)
+    /// @param amount Amount to deposit, also the approved value
+    /// @param deadline Permit expiration timestamp
+    /// @param v Signature `v`
+    /// @param r Signature `r`
+    /// @param s Signature `s`
+    function depositWithPermit(
+        address token,
+        uint256 amount,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external whenNotPaused(DEPOSIT_ACTION) {
+        try IERC20Permit(token).permit(msg.sender, address(this), amount, deadline, v, r, s) {} catch {}
+        _depositToken(token, amount);
+    }
+
+    /// @notice Deposit native ETH into the vault
+    function depositETH() external payable {
+        _depositETH();
+    }
+
+    /// @notice Plain ETH transfers are treated as deposits
+    receive() external payable {
+        _depositETH();
+    }
+
+    /// @notice Add ETH to the vault reserves used for claims, without crediting a deposit
+    /// @dev ERC20 reserves are funded by transferring tokens to the vault directly
+    function fundETH() external payable whenNotPaused(DEPOSIT_ACTION) {
+        require(msg.value > 0, "Amount must be > 0");
+        emit Funded(msg.sender, NATIVE_TOKEN, msg.value);
+    }
+
+    /// @notice Withdraw tokens or ETH the caller has deposited
+    /// @param token Address of the ERC20 token (NATIVE_TOKEN for ETH)
+    /// @param amount Amount to withdraw
+    function withdrawDeposit(address token, uint256 amount) external whenNotPaused(WITHDRAW_ACTION) {
         require(amount > 0, "Amount must be > 0");
-        IERC20(token).transferFrom(msg.sender, address(this), amount);
-        emit Deposited(msg.sender, token, amount);
+        require(deposits[msg.sender][token] >= amount, "Insufficient deposit");
+        require(
+            block.timestamp >= lastDepositAt[msg.sender][token] + withdrawalCooldown,
+            "Deposit locked"
+        );
+
+        deposits[msg.sender][token] -= amount;
+        totalDeposits[token] -= amount;
+
+        _transferOut(token, msg.sender, amount);
+
+        emit DepositWithdrawn(msg.sender, token, amount);
     }
 
-    /// @notice Claim ERC20 tokens using a signed permit (EIP-712)
-    /// @param token Address of the ERC20 token
+    /// @notice Set the lock period applied after each deposit
+    /// @param cooldown Seconds after the last deposit before it can be withdrawn (0 = no lock)
+    function setWithdrawalCooldown(uint256 cooldown) external onlyOwner {
+        withdrawalCooldown = cooldown;
+        emit WithdrawalCooldownUpdated(cooldown);
+    }
+
+    /// @notice Returns the vault balance of a token that is neither owned by depositors nor promised to distributions
+    /// @param token Address of the ERC20 token (NATIVE_TOKEN for ETH)
+    function availableBalance(address token) public view returns (uint256) {
+        uint256 balance = token == NATIVE_TOKEN ? address(this).balance : IERC20(token).balanceOf(address(this));
+        uint256 committed = totalDeposits[token] + reservedForDistributions[token];
+        return balance > committed ? balance - committed : 0;
+    }
+
+    /// @notice Claim ERC20 tokens or ETH using a signed permit (EIP-712)
+    /// @param token Address of the ERC20 token (NATIVE_TOKEN for ETH)
     /// @param amount Amount to claim
     /// @param nonce User nonce for replay protection
     /// @param deadline Signature expiration timestamp (0 = no deadline)
-    /// @param signature EIP-712 signature from admin or owner
+    /// @param signature EIP-712 signature from a minter or the owner
     function claim(
         address token,
         uint256 amount,
         uint256 nonce,
         uint256 deadline,
         bytes calldata signature
-    ) external {
+    ) external whenNotPaused(CLAIM_ACTION) {
         require(allowedTokens[token], "Token not allowed");
         require(deadline == 0 || block.timestamp <= deadline, "Signature expired");
         require(nonces[msg.sender] == nonce, "Invalid nonce");
@@ -147,22 +353,196 @@ contract TokenVault is Ownable, EIP712 {
         address signer = ECDSA.recover(hash, signature);
 
         require(signer != address(0), "Invalid signature");
-        require(admins[signer] || owner() == signer, "Signer not admin");
+        require(_isAuthorized(MINTER_ROLE, signer), "Signer not authorized");
 
         nonces[msg.sender] += 1;
 
-        IERC20(token).transfer(msg.sender, amount);
+        _consumeClaimLimits(token, msg.sender, signer, amount);
+
+        _transferFromReserves(token, msg.sender, amount);
 
         emit Claimed(msg.sender, token, amount, signer);
     }
 
-    /// @notice Withdraw ERC20 tokens from the vault
+    /// @notice Pay a reward out of the vault reserves (PAYOUT_ROLE only, meant for game contracts)
+    /// @dev Counts against the claim limits with the caller as signer, so a per-signer cap bounds each contract
+    /// @param token Address of the ERC20 token (NATIVE_TOKEN for ETH)
+    /// @param to Recipient address
+    /// @param amount Amount to pay
+    function payout(address token, address to, uint256 amount) external onlyRole(PAYOUT_ROLE) whenNotPaused(CLAIM_ACTION) {
+        require(allowedTokens[token], "Token not allowed");
+        require(to != address(0), "Zero address");
+
+        _consumeClaimLimits(token, to, msg.sender, amount);
+        _transferFromReserves(token, to, amount);
+
+        emit Claimed(to, token, amount, msg.sender);
+    }
+
+    /// @notice Publish a Merkle reward distribution
+    /// @dev Leaves are `keccak256(bytes.concat(keccak256(abi.encode(index, account, amount))))`.
+    ///      `total` is set aside from the available reserves until the leaves are claimed.
+    /// @param token Address of the ERC20 token
+    /// @param epoch Distribution identifier (e.g. leaderboard week)
+    /// @param root Merkle root of the leaves
+    /// @param total Sum of all leaf amounts
+    function publishDistribution(
+        address token,
+        uint256 epoch,
+        bytes32 root,
+        uint256 total
+    ) external onlyOwner {
+        require(allowedTokens[token], "Token not allowed");
+        require(root != bytes32(0), "Empty root");
+        require(distributions[token][epoch].root == bytes32(0), "Distribution exists");
+        require(total <= availableBalance(token), "Insufficient vault reserves");
+
+        distributions[token][epoch] = Distribution({root: root, total: total, claimed: 0});
+        reservedForDistributions[token] += total;
+
+        emit DistributionPublished(token, epoch, root, total);
+    }
+
+    /// @notice Claim a leaf of a Merkle reward distribution
+    /// @dev Anyone may submit the claim; tokens are always sent to `account`.
+    ///      Counts against the claim limits with the vault itself as signer.
     /// @param token Address of the ERC20 token
+    /// @param epoch Distribution identifier
+    /// @param index Leaf index
+    /// @param account Recipient of the leaf
+    /// @param amount Leaf amount
+    /// @param proof Merkle proof of the leaf
+    function claimDistribution(
+        address token,
+        uint256 epoch,
+        uint256 index,
+        address account,
+        uint256 amount,
+        bytes32[] calldata proof
+    ) external whenNotPaused(CLAIM_ACTION) {
+        Distribution storage distribution = distributions[token][epoch];
+        require(distribution.root != bytes32(0), "Distribution not found");
+        require(!isDistributionClaimed(token, epoch, index), "Already claimed");
+
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(index, account, amount))));
+        require(MerkleProof.verifyCalldata(proof, distribution.root, leaf), "Invalid proof");
+
+        distribution.claimed += amount;
+        require(distribution.claimed <= distribution.total, "Distribution exhausted");
+        _claimedBitMap[token][epoch][index / 256] |= (1 << (index % 256));
+
+        _consumeClaimLimits(token, account, address(this), amount);
+
+        reservedForDistributions[token] -= amount;
+        _transferFromReserves(token, account, amount);
+
+        emit DistributionClaimed(token, epoch, index, account, amount);
+    }
+
+    /// @notice Returns whether a leaf of a distribution has been claimed
+    /// @param token Address of the ERC20 token
+    /// @param epoch Distribution identifier
+    /// @param index Leaf index
+    function isDistributionClaimed(address token, uint256 epoch, uint256 index) public view returns (bool) {
+        uint256 word = _claimedBitMap[token][epoch][index / 256];
+        return word & (1 << (index % 256)) != 0;
+    }
+
+    /// @notice Withdraw ERC20 tokens or ETH from the vault
+    /// @param token Address of the ERC20 token (NATIVE_TOKEN for ETH)
     /// @param to Recipient address
     /// @param amount Amount to withdraw
-    function withdraw(address token, address to, uint256 amount) external onlyOwner {
+    function withdraw(address token, address to, uint256 amount) external onlyOwner whenNotPaused(WITHDRAW_ACTION) {
         require(to != address(0), "Zero address");
-        IERC20(token).transfer(to, amount);
+        _transferFromReserves(token, to, amount);
         emit Withdrawn(token, to, amount);
     }
+
+    /// @dev Owner unpauses and manages the guardian
+    function _pauseOwner() internal view override returns (address) {
+        return owner();
+    }
+
+    /// @dev Owner grants and revokes roles
+    function _rolesOwner() internal view override returns (address) {
+        return owner();
+    }
+
+    /// @dev An admin used to sign claims and manage allowed tokens
+    function _adminRoles() internal pure override returns (bytes32[] memory roles) {
+        roles = new bytes32[](2);
+        roles[0] = MINTER_ROLE;
+        roles[1] = WHITELIST_MANAGER_ROLE;
+    }
+
+    /// @dev PAUSER_ROLE members can pause alongside the guardian
+    function _isPauser(address account) internal view override returns (bool) {
+        return hasRole(PAUSER_ROLE, account);
+    }
+
+    /// @dev Pulls an allowed ERC20 deposit from the caller
+    function _depositToken(address token, uint256 amount) private {
+        require(token != NATIVE_TOKEN, "Use depositETH");
+        require(allowedTokens[token], "Token not allowed");
+        require(amount > 0, "Amount must be > 0");
+        IERC20(token).safeTransferFrom(msg.sender, address(this), amount);
+        _recordDeposit(msg.sender, token, amount);
+    }
+
+    /// @dev Accepts an ETH deposit if ETH is allowed
+    function _depositETH() private {
+        _requireNotPaused(DEPOSIT_ACTION);
+        require(allowedTokens[NATIVE_TOKEN], "Token not allowed");
+        require(msg.value > 0, "Amount must be > 0");
+        _recordDeposit(msg.sender, NATIVE_TOKEN, msg.value);
+    }
+
+    /// @dev Credits a deposit to the user and restarts their cooldown
+    function _recordDeposit(address user, address token, uint256 amount) private {
+        deposits[user][token] += amount;
+        totalDeposits[token] += amount;
+        lastDepositAt[user][token] = block.timestamp;
+        emit Deposited(user, token, amount);
+    }
+
+    /// @dev Pays out of the vault's own reserves, never out of user deposits
+    function _transferFromReserves(address token, address to, uint256 amount) private {
+        require(amount <= availableBalance(token), "Insufficient vault reserves");
+        _transferOut(token, to, amount);
+    }
+
+    /// @dev Sends ERC20 tokens or ETH out of the vault
+    function _transferOut(address token, address to, uint256 amount) private {
+        if (token == NATIVE_TOKEN) {
+            Address.sendValue(payable(to), amount);
+        } else {
+            IERC20(token).safeTransfer(to, amount);
+        }
+    }
+
+    /// @dev Records a claim against the current epoch and reverts if any limit is exceeded
+    function _consumeClaimLimits(address token, address user, address signer, uint256 amount) private {
+        ClaimLimits storage limits = claimLimits[token];
+        uint256 epoch = currentEpoch();
+
+        uint256 tokenTotal = claimedByToken[epoch][token] + amount;
+        require(limits.tokenCap == 0 || tokenTotal <= limits.tokenCap, "Token epoch cap exceeded");
+        claimedByToken[epoch][token] = tokenTotal;
+
+        uint256 userTotal = claimedByUser[epoch][token][user] + amount;
+        require(limits.userCap == 0 || userTotal <= limits.userCap, "User epoch cap exceeded");
+        claimedByUser[epoch][token][user] = userTotal;
+
+        uint256 signerTotal = claimedBySigner[epoch][token][signer] + amount;
+        require(limits.signerCap == 0 || signerTotal <= limits.signerCap, "Signer epoch cap exceeded");
+        claimedBySigner[epoch][token][signer] = signerTotal;
+    }
+
+    /// @dev Remaining allowance under a cap (0 cap = unlimited)
+    function _remaining(uint256 cap, uint256 used) private pure returns (uint256) {
+        if (cap == 0) {
+            return type(uint256).max;
+        }
+        return cap > used ? cap - used : 0;
+    }
 }
\ No newline at end of file
@@ -0,0 +1,170 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+/// @notice Importing OpenZeppelin ownership control and the randomness interfaces
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "./interfaces/IRandomnessProvider.sol";
+import "./interfaces/IVRFCoordinator.sol";
+
+/**
+ * @title VRFRandomnessAdapter
+ * @notice IRandomnessProvider backed by a VRF coordinator, so game contracts can switch between
+ *         RandomnessCoordinator and VRF without code changes.
+ *
+ * @dev
+ * Key features:
+ *  - Forwards each request as a single-word VRF request with the owner-set key hash, subscription and gas limit
+ *  - Relays the verified word to the requesting contract through `fulfillRandomness`
+ *  - A reverting or out-of-gas consumer does not fail the VRF fulfillment: the word is stored,
+ *    `RandomnessFulfilled` reports the failure and anyone can `retryDelivery` later
+ *  - Only consumers allowed by the owner can request (`setConsumer`)
+ *
+ * Requirements:
+ *  - The adapter must be a registered consumer of the VRF subscription
+ *
+ * Inherits from:
+ *  - OpenZeppelin Ownable
+ *
+ * Events:
+ *  - ConsumerUpdated — contract allowed or disallowed to request
+ *  - VRFConfigUpdated — key hash, subscription or gas settings changed
+ *  - RandomnessFulfilled — VRF word received and relayed
+ *  - RandomnessDelivered — undelivered word re-sent with `retryDelivery`
+ *
+ * Usage example:
+ *  1. Owner deploys the adapter with the network's VRF coordinator and calls `setVRFConfig`.
+ *  2. Owner allows consumers with `setConsumer` and points them at the adapter.
+ *  3. The VRF coordinator answers with `rawFulfillRandomWords` and the adapter calls the consumer back;
+ *     if the callback failed, anyone calls `retryDelivery(requestId)` once the consumer can accept it.
+ *
+ * Author: Matik86 (Mibboverse)
+ * Version: 1.0.0
+ */
+
+/// @title VRFRandomnessAdapter
+/// @notice Bridges IRandomnessProvider requests to a VRF coordinator.
+/// @dev Request IDs are the VRF coordinator's request IDs.
+contract VRFRandomnessAdapter is Ownable, IRandomnessProvider, IVRFConsumer {
+    /// @notice VRF request made for a consumer
+    struct Request {
+        address consumer;    // Contract receiving the word
+        bool fulfilled;      // Whether the VRF coordinator has answered
+        bool delivered;      // Whether the consumer accepted the word
+        uint256 randomness;  // Relayed word (0 until answered)
+    }
+
+    /// @dev Gas kept back from the consumer in `rawFulfillRandomWords` to record the outcome
+    uint256 private constant DELIVERY_GAS_RESERVE = 20_000;
+
+    /// @notice VRF coordinator answering requests
+    IVRFCoordinator public immutable vrfCoordinator;
+
+    /// @notice Gas lane of the VRF requests
+    bytes32 public keyHash;
+
+    /// @notice VRF subscription paying for requests
+    uint256 public subscriptionId;
+
+    /// @notice Blocks the coordinator waits before answering
+    uint16 public requestConfirmations = 3;
+
+    /// @notice Gas available to `rawFulfillRandomWords`, including the consumer callback
+    uint32 public callbackGasLimit = 500_000;
+
+    /// @notice Contracts allowed to request randomness
+    mapping(address => bool) public consumers;
+
+    /// @notice Requests by VRF request ID
+    mapping(uint256 => Request) public requests;
+
+    /// @notice Emitted when a consumer is allowed or disallowed
+    event ConsumerUpdated(address indexed consumer, bool allowed);
+
+    /// @notice Emitted when the VRF request settings change
+    event VRFConfigUpdated(bytes32 keyHash, uint256 subscriptionId, uint16 requestConfirmations, uint32 callbackGasLimit);
+
+    /// @notice Emitted when the VRF word arrives; `delivered` is false if the consumer callback failed
+    event RandomnessFulfilled(uint256 indexed requestId, uint256 randomness, bool delivered);
+
+    /// @notice Emitted when the word of an answered request is re-sent to its consumer
+    event RandomnessDelivered(uint256 indexed requestId, bool delivered);
+
+    /// @param vrfCoordinator_ VRF coordinator of the network
+    constructor(address vrfCoordinator_) Ownable(msg.sender) {
+        require(vrfCoordinator_ != address(0), "Zero address");
+        vrfCoordinator = IVRFCoordinator(vrfCoordinator_);
+    }
+
+    /// @notice Set the VRF request settings
+    /// @param keyHash_ Gas lane key hash
+    /// @param subscriptionId_ Subscription paying for requests
+    /// @param requestConfirmations_ Blocks to wait before answering
+    /// @param callbackGasLimit_ Gas available to the callback
+    function setVRFConfig(
+        bytes32 keyHash_,
+        uint256 subscriptionId_,
+        uint16 requestConfirmations_,
+        uint32 callbackGasLimit_
+    ) external onlyOwner {
+        keyHash = keyHash_;
+        subscriptionId = subscriptionId_;
+        requestConfirmations = requestConfirmations_;
+        callbackGasLimit = callbackGasLimit_;
+        emit VRFConfigUpdated(keyHash_, subscriptionId_, requestConfirmations_, callbackGasLimit_);
+    }
+
+    /// @notice Allow or disallow a contract to request randomness
+    /// @param consumer Consumer contract
+    /// @param allowed True to allow, false to disallow
+    function setConsumer(address consumer, bool allowed) external onlyOwner {
+        require(consumer != address(0), "Zero address");
+        consumers[consumer] = allowed;
+        emit ConsumerUpdated(consumer, allowed);
+    }
+
+    /// @notice Request a random word through the VRF coordinator
+    /// @return requestId VRF request identifier
+    function requestRandomness() external returns (uint256 requestId) {
+        require(consumers[msg.sender], "Consumer not allowed");
+        requestId = vrfCoordinator.requestRandomWords(keyHash, subscriptionId, requestConfirmations, callbackGasLimit, 1);
+        requests[requestId].consumer = msg.sender;
+    }
+
+    /// @notice Receives the VRF words and forwards the first one to the consumer (coordinator-only)
+    /// @dev Never reverts because of the consumer, since the VRF coordinator does not answer a request twice
+    /// @param requestId VRF request identifier
+    /// @param randomWords Verified random words
+    function rawFulfillRandomWords(uint256 requestId, uint256[] calldata randomWords) external {
+        require(msg.sender == address(vrfCoordinator), "Not VRF coordinator");
+        Request storage request = requests[requestId];
+        require(request.consumer != address(0), "Unknown request");
+        require(!request.fulfilled, "Already fulfilled");
+
+        request.randomness = randomWords[0];
+        request.fulfilled = true;
+
+        uint256 gasLeft = gasleft();
+        uint256 gasLimit = gasLeft > DELIVERY_GAS_RESERVE ? gasLeft - DELIVERY_GAS_RESERVE : 0;
+        emit RandomnessFulfilled(requestId, randomWords[0], _deliver(requestId, request, gasLimit));
+    }
+
+    /// @notice Re-send the word of an answered request whose consumer callback failed
+    /// @param requestId VRF request identifier
+    function retryDelivery(uint256 requestId) external {
+        Request storage request = requests[requestId];
+        require(request.fulfilled, "Not fulfilled");
+        require(!request.delivered, "Already delivered");
+
+        uint256 gasLimit = callbackGasLimit;
+        require(gasleft() >= gasLimit + gasLimit / 63 + 10_000, "Insufficient gas for callback");
+        emit RandomnessDelivered(requestId, _deliver(requestId, request, gasLimit));
+    }
+
+    /// @dev Calls the consumer with at most `gasLimit` gas and records whether it accepted the word
+    function _deliver(uint256 requestId, Request storage request, uint256 gasLimit) private returns (bool delivered) {
+        (delivered, ) = request.consumer.call{gas: gasLimit}(
+            abi.encodeCall(IRandomnessConsumer.fulfillRandomness, (requestId, request.randomness))
+        );
+        request.delivered = delivered;
+    }
+}
@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+/// @title IArtifactsERC1155
+/// @notice Subset of ArtifactsERC1155 used by game contracts that mint or burn artifacts.
+/// @dev The calling contract must hold MINTER_ROLE on ArtifactsERC1155 to mint, and approved by the holder to burn.
+interface IArtifactsERC1155 {
+    /// @notice Mint several token IDs directly (minter-only)
+    function mintBatch(address to, uint256[] calldata ids, uint256[] calldata amounts) external;
+
+    /// @notice Burn a specific amount of a token (owner or approved operator)
+    function burn(address account, uint256 id, uint256 amount) external;
+
+    /// @notice Transfer an amount of a token (owner or approved operator)
+    function safeTransferFrom(address from, address to, uint256 id, uint256 value, bytes calldata data) external;
+
+    /// @notice Returns the balance of `account` for token `id`
+    function balanceOf(address account, uint256 id) external view returns (uint256);
+}
@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+/// @title ICreatureNFT
+/// @notice Subset of CreatureNFT used by the hatchery to mint creatures.
+/// @dev The calling contract must hold MINTER_ROLE on CreatureNFT.
+interface ICreatureNFT {
+    /// @notice Traits fixed at hatching
+    struct Traits {
+        uint8 species;
+        uint8 element;
+        uint8 rarity;
+        uint16 power;
+    }
+
+    /// @notice Mint a creature with its traits (minter-only)
+    function mint(address to, Traits calldata traits) external returns (uint256 tokenId);
+}
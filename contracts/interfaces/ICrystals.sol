@@ -0,0 +1,19 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+/// @title ICrystals
+/// @notice Subset of CrystalsV2 used by game contracts that mint or burn Crystals.
+/// @dev The calling contract must hold MINTER_ROLE (to mint) or BURNER_ROLE (to burn) on the Crystals proxy.
+interface ICrystals {
+    /// @notice Mint tokens (minter-only)
+    function mint(address to, uint256 amount) external;
+
+    /// @notice Burner burns tokens from any account
+    function adminBurnFrom(address account, uint256 amount) external;
+
+    /// @notice Burn tokens from the caller's balance
+    function burn(uint256 amount) external;
+
+    /// @notice Returns the balance of `account`
+    function balanceOf(address account) external view returns (uint256);
+}
@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+/// @title IGenesisNFT
+/// @notice Subset of GenesisNFT used by game contracts that consume eggs.
+/// @dev The holder must approve the calling contract with `setApprovalForAll` before it can move or burn eggs.
+interface IGenesisNFT {
+    /// @notice Returns the owner of a token
+    function ownerOf(uint256 tokenId) external view returns (address);
+
+    /// @notice Transfers a token (owner or approved operator)
+    function transferFrom(address from, address to, uint256 tokenId) external;
+
+    /// @notice Burns a token (owner or approved operator)
+    function burn(uint256 tokenId) external;
+}
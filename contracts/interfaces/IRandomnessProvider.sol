@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+/// @title IRandomnessProvider
+/// @notice Source of randomness for game contracts (VRF adapter, commit-reveal coordinator or a local mock).
+/// @dev Requests are answered asynchronously: the provider later calls `fulfillRandomness` on the requester.
+interface IRandomnessProvider {
+    /// @notice Request a random word for the caller
+    /// @return requestId Identifier passed back with the result
+    function requestRandomness() external returns (uint256 requestId);
+}
+
+/// @title IRandomnessConsumer
+/// @notice Callback implemented by contracts that request randomness.
+interface IRandomnessConsumer {
+    /// @notice Receives the random word of a request (provider-only)
+    function fulfillRandomness(uint256 requestId, uint256 randomness) external;
+}
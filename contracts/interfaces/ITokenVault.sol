@@ -0,0 +1,10 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+/// @title ITokenVault
+/// @notice Subset of TokenVault used by game contracts that pay rewards out of the vault reserves.
+/// @dev The calling contract must hold PAYOUT_ROLE on TokenVault, and the token must be allowed.
+interface ITokenVault {
+    /// @notice Pay a reward out of the vault reserves (PAYOUT_ROLE only)
+    function payout(address token, address to, uint256 amount) external;
+}
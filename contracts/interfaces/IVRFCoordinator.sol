@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+/// @title IVRFCoordinator
+/// @notice VRF coordinator request API (Chainlink VRF v2 style) used by VRFRandomnessAdapter.
+interface IVRFCoordinator {
+    /// @notice Request `numWords` random words, answered through `rawFulfillRandomWords` on the caller
+    function requestRandomWords(
+        bytes32 keyHash,
+        uint256 subId,
+        uint16 minimumRequestConfirmations,
+        uint32 callbackGasLimit,
+        uint32 numWords
+    ) external returns (uint256 requestId);
+}
+
+/// @title IVRFConsumer
+/// @notice Callback the VRF coordinator calls with the verified random words.
+interface IVRFConsumer {
+    /// @notice Receives the random words of a request (coordinator-only)
+    function rawFulfillRandomWords(uint256 requestId, uint256[] calldata randomWords) external;
+}
@@ -0,0 +1,174 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+import "@openzeppelin/contracts/utils/structs/EnumerableSet.sol";
+
+/**
+ * @title AccessRoles
+ * @notice Granular, enumerable roles shared by all game contracts, replacing the per-contract `admins` mappings.
+ *
+ * @dev
+ * Key features:
+ *  - Five roles with the same ids on every contract: MINTER, BURNER, METADATA_MANAGER, WHITELIST_MANAGER, PAUSER
+ *  - Membership is enumerable per role (`getRoleMembers`, `getRoleMember`, `getRoleMemberCount`)
+ *  - Only the owner grants and revokes roles; members can renounce their own roles
+ *  - The owner passes every role check without being a member
+ *  - `setAdmin` / `admins` keep the old single-admin API working by granting or checking the
+ *    contract's admin role set (`_adminRoles`)
+ *  - State lives in an ERC-7201 namespaced slot, so the contract can be added to upgradeable
+ *    contracts (CrystalsV2) without shifting their storage layout
+ *
+ * Inheriting contracts:
+ *  - implement `_rolesOwner` (usually returning `owner()`)
+ *  - implement `_adminRoles` with the roles a legacy admin used to hold
+ *  - guard entry points with `onlyRole(ROLE)`
+ *
+ * Events:
+ *  - RoleGranted / RoleRevoked — role membership changed
+ */
+abstract contract AccessRoles {
+    using EnumerableSet for EnumerableSet.AddressSet;
+
+    /// @notice Mints directly and signs mint / claim permits
+    bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
+
+    /// @notice Burns tokens from any account
+    bytes32 public constant BURNER_ROLE = keccak256("BURNER_ROLE");
+
+    /// @notice Updates names, URIs and reveal state
+    bytes32 public constant METADATA_MANAGER_ROLE = keccak256("METADATA_MANAGER_ROLE");
+
+    /// @notice Manages contract and token whitelists
+    bytes32 public constant WHITELIST_MANAGER_ROLE = keccak256("WHITELIST_MANAGER_ROLE");
+
+    /// @notice Pauses actions alongside the guardian
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+
+    /// @custom:storage-location erc7201:mibboverse.storage.AccessRoles
+    struct AccessRolesStorage {
+        mapping(bytes32 => EnumerableSet.AddressSet) members;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("mibboverse.storage.AccessRoles")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant STORAGE_LOCATION =
+        0x84e241f86fc66fd06aca975988efa30c8d2d9ff348dcbce59ba14569ea7b3500;
+
+    /// @notice Emitted when `account` is granted `role`
+    event RoleGranted(bytes32 indexed role, address indexed account, address indexed sender);
+
+    /// @notice Emitted when `account` loses `role`
+    event RoleRevoked(bytes32 indexed role, address indexed account, address indexed sender);
+
+    /// @dev Restricts access to the owner and members of `role`
+    modifier onlyRole(bytes32 role) {
+        _checkRole(role, msg.sender);
+        _;
+    }
+
+    /// @notice Returns whether `account` is a member of `role`
+    function hasRole(bytes32 role, address account) public view returns (bool) {
+        return _getAccessRolesStorage().members[role].contains(account);
+    }
+
+    /// @notice Returns the number of members of `role`
+    function getRoleMemberCount(bytes32 role) external view returns (uint256) {
+        return _getAccessRolesStorage().members[role].length();
+    }
+
+    /// @notice Returns the member of `role` at `index` (order may change on revocation)
+    function getRoleMember(bytes32 role, uint256 index) external view returns (address) {
+        return _getAccessRolesStorage().members[role].at(index);
+    }
+
+    /// @notice Returns all members of `role`
+    function getRoleMembers(bytes32 role) external view returns (address[] memory) {
+        return _getAccessRolesStorage().members[role].values();
+    }
+
+    /// @notice Grant a role (owner-only)
+    /// @param role Role id
+    /// @param account Address receiving the role
+    function grantRole(bytes32 role, address account) external {
+        require(msg.sender == _rolesOwner(), "Not owner");
+        _grantRole(role, account);
+    }
+
+    /// @notice Revoke a role (owner-only)
+    /// @param role Role id
+    /// @param account Address losing the role
+    function revokeRole(bytes32 role, address account) external {
+        require(msg.sender == _rolesOwner(), "Not owner");
+        _revokeRole(role, account);
+    }
+
+    /// @notice Give up a role held by the caller
+    /// @param role Role id
+    function renounceRole(bytes32 role) external {
+        _revokeRole(role, msg.sender);
+    }
+
+    /// @notice Grant or revoke every admin role at once (owner-only)
+    /// @dev Kept for the backend and deploy scripts written against the old `admins` mapping
+    /// @param admin Address to grant/revoke admin rights
+    /// @param allowed True to add, false to remove
+    function setAdmin(address admin, bool allowed) external {
+        require(msg.sender == _rolesOwner(), "Not owner");
+        _setAdmin(admin, allowed);
+    }
+
+    /// @notice Returns whether `account` holds every admin role
+    function admins(address account) external view returns (bool) {
+        bytes32[] memory roles = _adminRoles();
+        for (uint256 i = 0; i < roles.length; i++) {
+            if (!hasRole(roles[i], account)) return false;
+        }
+        return true;
+    }
+
+    /// @dev Returns whether `account` is the owner or a member of `role`
+    function _isAuthorized(bytes32 role, address account) internal view returns (bool) {
+        return account == _rolesOwner() || hasRole(role, account);
+    }
+
+    /// @dev Reverts unless `account` is the owner or a member of `role`
+    function _checkRole(bytes32 role, address account) internal view {
+        require(_isAuthorized(role, account), "Missing role");
+    }
+
+    /// @dev Grants or revokes every role returned by `_adminRoles`
+    function _setAdmin(address account, bool allowed) internal {
+        bytes32[] memory roles = _adminRoles();
+        for (uint256 i = 0; i < roles.length; i++) {
+            if (allowed) {
+                _grantRole(roles[i], account);
+            } else {
+                _revokeRole(roles[i], account);
+            }
+        }
+    }
+
+    function _grantRole(bytes32 role, address account) internal {
+        require(account != address(0), "Zero address");
+        if (_getAccessRolesStorage().members[role].add(account)) {
+            emit RoleGranted(role, account, msg.sender);
+        }
+    }
+
+    function _revokeRole(bytes32 role, address account) internal {
+        if (_getAccessRolesStorage().members[role].remove(account)) {
+            emit RoleRevoked(role, account, msg.sender);
+        }
+    }
+
+    /// @dev Account allowed to grant and revoke roles
+    function _rolesOwner() internal view virtual returns (address);
+
+    /// @dev Roles granted by `setAdmin`, matching what an admin could do before roles existed
+    function _adminRoles() internal pure virtual returns (bytes32[] memory);
+
+    function _getAccessRolesStorage() private pure returns (AccessRolesStorage storage $) {
+        assembly {
+            $.slot := STORAGE_LOCATION
+        }
+    }
+}
@@ -0,0 +1,83 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+import "@openzeppelin/contracts/utils/Base64.sol";
+import "@openzeppelin/contracts/utils/Strings.sol";
+
+/**
+ * @title ArtifactMetadata
+ * @notice Renders ERC1155 metadata fully on-chain as a base64 `data:application/json` document.
+ *
+ * @dev
+ * Document layout (ERC1155 / OpenSea metadata standard):
+ *  - name, description — stored strings, JSON-escaped
+ *  - image — the stored SVG as `data:image/svg+xml;base64,…`, else the stored image URI
+ *  - attributes — Rarity and Element as named tiers, Power as a number
+ *
+ * Rarity tiers: Common, Rare, Epic, Legendary. Elements: Fire, Water, Earth, Air.
+ */
+library ArtifactMetadata {
+    using Strings for uint256;
+
+    /// @notice Number of rarity tiers
+    uint8 internal constant RARITY_COUNT = 4;
+
+    /// @notice Number of elements
+    uint8 internal constant ELEMENT_COUNT = 4;
+
+    /// @notice On-chain metadata of a token ID
+    struct Metadata {
+        string description; // Free text shown by wallets and marketplaces
+        string image;       // Image URI, used when `svg` is empty
+        string svg;         // Raw SVG markup embedded in the document (optional)
+        uint8 rarity;       // Rarity tier
+        uint8 element;      // Element
+        uint16 power;       // Power attribute
+    }
+
+    /// @notice Returns the base64 JSON data URI of a token
+    /// @param name Token name
+    /// @param metadata Stored on-chain metadata
+    function render(string memory name, Metadata memory metadata) internal pure returns (string memory) {
+        string memory json = string.concat(
+            '{"name":"',
+            Strings.escapeJSON(name),
+            '","description":"',
+            Strings.escapeJSON(metadata.description),
+            '","image":"',
+            Strings.escapeJSON(_image(metadata)),
+            '","attributes":[{"trait_type":"Rarity","value":"',
+            rarityName(metadata.rarity),
+            '"},{"trait_type":"Element","value":"',
+            elementName(metadata.element),
+            '"},{"trait_type":"Power","display_type":"number","value":',
+            uint256(metadata.power).toString(),
+            "}]}"
+        );
+        return string.concat("data:application/json;base64,", Base64.encode(bytes(json)));
+    }
+
+    /// @notice Returns the display name of a rarity tier
+    function rarityName(uint8 rarity) internal pure returns (string memory) {
+        if (rarity == 0) return "Common";
+        if (rarity == 1) return "Rare";
+        if (rarity == 2) return "Epic";
+        return "Legendary";
+    }
+
+    /// @notice Returns the display name of an element
+    function elementName(uint8 element) internal pure returns (string memory) {
+        if (element == 0) return "Fire";
+        if (element == 1) return "Water";
+        if (element == 2) return "Earth";
+        return "Air";
+    }
+
+    /// @dev Stored SVG as a data URI, else the stored image URI
+    function _image(Metadata memory metadata) private pure returns (string memory) {
+        if (bytes(metadata.svg).length == 0) {
+            return metadata.image;
+        }
+        return string.concat("data:image/svg+xml;base64,", Base64.encode(bytes(metadata.svg)));
+    }
+}
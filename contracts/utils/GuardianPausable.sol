@@ -0,0 +1,107 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+/**
+ * @title GuardianPausable
+ * @notice Emergency stop with granular per-action pause flags, shared by all game contracts.
+ *
+ * @dev
+ * Key features:
+ *  - A guardian, separate from the owner, can pause individual actions (e.g. MINT, CLAIM) or everything (`PAUSE_ALL`)
+ *  - Inheriting contracts can authorize further pausers through `_isPauser`
+ *  - Only the owner can unpause and change the guardian
+ *  - State lives in an ERC-7201 namespaced slot, so the contract can be added to upgradeable
+ *    contracts (CrystalsV2) without shifting their storage layout
+ *
+ * Inheriting contracts:
+ *  - implement `_pauseOwner` (usually returning `owner()`)
+ *  - guard entry points with `whenNotPaused(ACTION)`
+ *
+ * Events:
+ *  - GuardianUpdated — guardian changed
+ *  - ActionPaused / ActionUnpaused — pause flag toggled
+ */
+abstract contract GuardianPausable {
+    /// @notice Pause key that halts every action at once
+    bytes32 public constant PAUSE_ALL = keccak256("ALL");
+
+    /// @custom:storage-location erc7201:mibboverse.storage.GuardianPausable
+    struct GuardianPausableStorage {
+        address guardian;
+        mapping(bytes32 => bool) paused;
+    }
+
+    // keccak256(abi.encode(uint256(keccak256("mibboverse.storage.GuardianPausable")) - 1)) & ~bytes32(uint256(0xff))
+    bytes32 private constant STORAGE_LOCATION =
+        0x9f5e0625a3971d894b231660f006d2bdc8f72b3452b27642e1342676c6691d00;
+
+    /// @notice Emitted when the guardian is changed
+    event GuardianUpdated(address indexed guardian);
+
+    /// @notice Emitted when an action is paused
+    event ActionPaused(bytes32 indexed action, address indexed account);
+
+    /// @notice Emitted when an action is unpaused
+    event ActionUnpaused(bytes32 indexed action, address indexed account);
+
+    /// @dev Reverts if `action` (or everything) is paused
+    modifier whenNotPaused(bytes32 action) {
+        _requireNotPaused(action);
+        _;
+    }
+
+    /// @notice Returns the current guardian
+    function guardian() public view returns (address) {
+        return _getGuardianPausableStorage().guardian;
+    }
+
+    /// @notice Returns whether an action is paused, either directly or through `PAUSE_ALL`
+    /// @param action Pause key of the action
+    function isPaused(bytes32 action) public view returns (bool) {
+        GuardianPausableStorage storage $ = _getGuardianPausableStorage();
+        return $.paused[action] || $.paused[PAUSE_ALL];
+    }
+
+    /// @notice Set the guardian (owner-only)
+    /// @param newGuardian Address allowed to pause
+    function setGuardian(address newGuardian) external {
+        require(msg.sender == _pauseOwner(), "Not owner");
+        _getGuardianPausableStorage().guardian = newGuardian;
+        emit GuardianUpdated(newGuardian);
+    }
+
+    /// @notice Pause an action (guardian, pauser or owner)
+    /// @param action Pause key of the action, or `PAUSE_ALL`
+    function pause(bytes32 action) external {
+        require(msg.sender == guardian() || msg.sender == _pauseOwner() || _isPauser(msg.sender), "Not guardian");
+        _getGuardianPausableStorage().paused[action] = true;
+        emit ActionPaused(action, msg.sender);
+    }
+
+    /// @notice Unpause an action (owner-only)
+    /// @param action Pause key of the action, or `PAUSE_ALL`
+    function unpause(bytes32 action) external {
+        require(msg.sender == _pauseOwner(), "Not owner");
+        _getGuardianPausableStorage().paused[action] = false;
+        emit ActionUnpaused(action, msg.sender);
+    }
+
+    /// @dev Reverts if `action` (or everything) is paused
+    function _requireNotPaused(bytes32 action) internal view {
+        require(!isPaused(action), "Action paused");
+    }
+
+    /// @dev Account allowed to unpause and to change the guardian
+    function _pauseOwner() internal view virtual returns (address);
+
+    /// @dev Additional accounts allowed to pause; none by default
+    function _isPauser(address) internal view virtual returns (bool) {
+        return false;
+    }
+
+    function _getGuardianPausableStorage() private pure returns (GuardianPausableStorage storage $) {
+        assembly {
+            $.slot := STORAGE_LOCATION
+        }
+    }
+}
@@ -0,0 +1,53 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+import "../interfaces/IRandomnessProvider.sol";
+
+/**
+ * @title RandomnessConsumer
+ * @notice Base for game contracts that request randomness from an `IRandomnessProvider`
+ *         (RandomnessCoordinator, VRFRandomnessAdapter or MockRandomnessProvider).
+ *
+ * @dev
+ * Inheriting contracts:
+ *  - call `_requestRandomness` and remember what the request is for
+ *  - implement `_fulfillRandomness`, which only runs for calls coming from the current provider
+ *  - expose an owner-only setter calling `_setRandomnessProvider`
+ *
+ * Events:
+ *  - RandomnessProviderUpdated — provider changed
+ */
+abstract contract RandomnessConsumer is IRandomnessConsumer {
+    /// @notice Current randomness provider
+    IRandomnessProvider public randomnessProvider;
+
+    /// @notice Emitted when the randomness provider changes
+    event RandomnessProviderUpdated(address indexed provider);
+
+    constructor(address provider_) {
+        _setRandomnessProvider(provider_);
+    }
+
+    /// @notice Receives the random word of a request (provider-only)
+    /// @param requestId Randomness request identifier
+    /// @param randomness Random word
+    function fulfillRandomness(uint256 requestId, uint256 randomness) external {
+        require(msg.sender == address(randomnessProvider), "Not randomness provider");
+        _fulfillRandomness(requestId, randomness);
+    }
+
+    /// @dev Requests a random word from the current provider
+    function _requestRandomness() internal returns (uint256 requestId) {
+        return randomnessProvider.requestRandomness();
+    }
+
+    /// @dev Requests still pending at the old provider can no longer be fulfilled
+    function _setRandomnessProvider(address provider_) internal {
+        require(provider_ != address(0), "Zero address");
+        randomnessProvider = IRandomnessProvider(provider_);
+        emit RandomnessProviderUpdated(provider_);
+    }
+
+    /// @dev Handles the random word of a request made by this contract
+    function _fulfillRandomness(uint256 requestId, uint256 randomness) internal virtual;
+}
@@ -0,0 +1,68 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.30;
+
+import "@openzeppelin/contracts/token/common/ERC2981.sol";
+
+/**
+ * @title Royalties
+ * @notice EIP-2981 royalty info managed by the owner, shared by GenesisNFT and ArtifactsERC1155.
+ *
+ * @dev
+ * Key features:
+ *  - Collection-wide default royalty (`setDefaultRoyalty` / `deleteDefaultRoyalty`)
+ *  - Per-token overrides (`setTokenRoyalty` / `resetTokenRoyalty`)
+ *  - Fees are in basis points (10000 = 100%)
+ *
+ * Inheriting contracts:
+ *  - implement `_royaltyOwner` (usually returning `owner()`)
+ *  - include ERC2981 in their `supportsInterface` override
+ *
+ * Events:
+ *  - DefaultRoyaltyUpdated / TokenRoyaltyUpdated — royalty changed (a zero receiver means removed)
+ */
+abstract contract Royalties is ERC2981 {
+    /// @notice Emitted when the default royalty changes
+    event DefaultRoyaltyUpdated(address indexed receiver, uint96 feeNumerator);
+
+    /// @notice Emitted when a token's royalty override changes
+    event TokenRoyaltyUpdated(uint256 indexed tokenId, address indexed receiver, uint96 feeNumerator);
+
+    /// @dev Restricts access to the royalty owner
+    modifier onlyRoyaltyOwner() {
+        require(msg.sender == _royaltyOwner(), "Not owner");
+        _;
+    }
+
+    /// @notice Set the royalty of every token without an override (owner-only)
+    /// @param receiver Address receiving royalties
+    /// @param feeNumerator Royalty in basis points
+    function setDefaultRoyalty(address receiver, uint96 feeNumerator) external onlyRoyaltyOwner {
+        _setDefaultRoyalty(receiver, feeNumerator);
+        emit DefaultRoyaltyUpdated(receiver, feeNumerator);
+    }
+
+    /// @notice Remove the default royalty (owner-only)
+    function deleteDefaultRoyalty() external onlyRoyaltyOwner {
+        _deleteDefaultRoyalty();
+        emit DefaultRoyaltyUpdated(address(0), 0);
+    }
+
+    /// @notice Override the royalty of a single token (owner-only)
+    /// @param tokenId ID of the token
+    /// @param receiver Address receiving royalties
+    /// @param feeNumerator Royalty in basis points
+    function setTokenRoyalty(uint256 tokenId, address receiver, uint96 feeNumerator) external onlyRoyaltyOwner {
+        _setTokenRoyalty(tokenId, receiver, feeNumerator);
+        emit TokenRoyaltyUpdated(tokenId, receiver, feeNumerator);
+    }
+
+    /// @notice Remove a token's override so it falls back to the default royalty (owner-only)
+    /// @param tokenId ID of the token
+    function resetTokenRoyalty(uint256 tokenId) external onlyRoyaltyOwner {
+        _resetTokenRoyalty(tokenId);
+        emit TokenRoyaltyUpdated(tokenId, address(0), 0);
+    }
+
+    /// @dev Account allowed to change royalties
+    function _royaltyOwner() internal view virtual returns (address);
+}
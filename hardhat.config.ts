@@ -1,5 +1,5 @@
 import type { HardhatUserConfig } from "hardhat/config";
-import { configVariable } from "hardhat/config";
+import { configVariable, task } from "hardhat/config";
 
 import hardhatToolboxMochaEthersPlugin from "@nomicfoundation/hardhat-toolbox-mocha-ethers";
 import hardhatViem from "@nomicfoundation/hardhat-viem";
@@ -16,10 +16,48 @@ const config: HardhatUserConfig = {
     hardhatIgnitionPlugin,
     hardhatVerify
   ],
+  tasks: [
+    task("merkle", "Build a TokenVault reward distribution from an address,amount CSV")
+      .addPositionalArgument({ name: "csv", description: "Path to the CSV file" })
+      .addOption({ name: "out", description: "Output JSON path (defaults to <csv>.merkle.json)", defaultValue: "" })
+      .setAction(() => import("./tasks/merkle.js"))
+      .build(),
+    task("storage-layout", "Check that an implementation can safely replace another behind a proxy")
+      .addPositionalArgument({ name: "current", description: "Deployed implementation (name, fully qualified name or recorded .json snapshot)" })
+      .addPositionalArgument({ name: "next", description: "Implementation to upgrade to" })
+      .addOption({ name: "record", description: "Write the layout of <next> to this snapshot file once it is released", defaultValue: "" })
+      .setAction(() => import("./tasks/storage-layout.js"))
+      .build(),
+    task("check-deployment", "Assert owner, admins, EIP-712 domains, vault wiring and the Crystals implementation of a deployment")
+      .addOption({ name: "deploymentId", description: "Ignition deployment id to read addresses from", defaultValue: "" })
+      .addOption({ name: "addresses", description: "JSON file mapping crystals, crystalsImplementation, artifacts, genesis and vault", defaultValue: "" })
+      .addOption({ name: "owner", description: "Expected owner (defaults to the first configured account)", defaultValue: "" })
+      .addOption({ name: "admins", description: "Comma-separated backend signers expected to be admins", defaultValue: "" })
+      .addOption({ name: "crystalsName", description: "Token name of the Crystals proxy (defaults to Crystals)", defaultValue: "" })
+      .setAction(() => import("./tasks/check-deployment.js"))
+      .build(),
+    task("provenance", "Compute the GenesisNFT provenance hash of a metadata folder (1.json … <supply>.json)")
+      .addPositionalArgument({ name: "dir", description: "Folder holding the metadata files" })
+      .addOption({ name: "supply", description: "Number of metadata files (defaults to MAX_SUPPLY)", defaultValue: "333" })
+      .addOption({ name: "out", description: "Optional JSON path for the per-file hashes", defaultValue: "" })
+      .setAction(() => import("./tasks/provenance.js"))
+      .build(),
+  ],
   solidity: {
     profiles: {
       default: {
         version: "0.8.30",
+        settings: {
+          // Unoptimized builds of the game contracts exceed the 24 KB code size limit
+          optimizer: {
+            enabled: true,
+            runs: 200,
+          },
+          // Read by the storage-layout task and the CrystalsV3 upgrade module
+          outputSelection: {
+            "*": { "*": ["storageLayout"] },
+          },
+        },
       },
       production: {
         version: "0.8.30",
@@ -28,6 +66,10 @@ const config: HardhatUserConfig = {
             enabled: true,
             runs: 200,
           },
+          // Read by the storage-layout task and the CrystalsV3 upgrade module
+          outputSelection: {
+            "*": { "*": ["storageLayout"] },
+          },
         },
       },
     },
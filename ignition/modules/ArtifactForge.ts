@@ -0,0 +1,11 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+export default buildModule("ArtifactForgeModule", (m) => {
+  // Already deployed ArtifactsERC1155 and Crystals proxy
+  const artifacts = m.getParameter<string>("artifacts");
+  const crystals = m.getParameter<string>("crystals");
+
+  const forge = m.contract("ArtifactForge", [artifacts, crystals]);
+
+  return { forge };
+});
@@ -0,0 +1,41 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import { fileURLToPath } from "node:url";
+
+import { assertStorageUpgradeSafe } from "../../sdk/storage-layout.js";
+import CrystalsV2Module from "./CrystalsV2.js";
+
+const artifactsDir = fileURLToPath(new URL("../../artifacts", import.meta.url));
+
+// Every V2 implementation a proxy may run: the released ones, recorded when they were deployed,
+// and the current source that CrystalsV2Module deploys
+const upgradableFrom = [
+  fileURLToPath(new URL("../storage-layouts/CrystalsV2-2.0.0.json", import.meta.url)),
+  "contracts/CrystalsProxy_v2.sol:CrystalsV2",
+];
+
+export default buildModule("CrystalsV3Module", (m) => {
+  // Refuse to build the upgrade (so nothing is sent) if V3 would corrupt V2 storage
+  for (const current of upgradableFrom) {
+    assertStorageUpgradeSafe(artifactsDir, current, "contracts/CrystalsProxy_v3.sol:CrystalsV3");
+  }
+
+  // Proxy deployed by CrystalsV2Module (reused when run under the same deployment id)
+  const { proxy } = m.useModule(CrystalsV2Module);
+
+  const crystalsV2 = m.contractAt("CrystalsV2", proxy, { id: "CrystalsV2Proxy" });
+
+  // New implementation
+  const crystalsV3Impl = m.contract("CrystalsV3");
+
+  // V3 state is initialized in the same transaction as the upgrade
+  const initData = m.encodeFunctionCall(crystalsV3Impl, "initializeV3", [
+    m.getParameter<string>("contractURI", ""),
+    m.getParameter<string[]>("legacyAdmins", []),
+  ]);
+
+  const upgrade = m.call(crystalsV2, "upgradeToAndCall", [crystalsV3Impl, initData]);
+
+  const crystals = m.contractAt("CrystalsV3", proxy, { id: "CrystalsV3Proxy", after: [upgrade] });
+
+  return { crystals, crystalsV3Impl, proxy };
+});
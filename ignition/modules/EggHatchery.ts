@@ -0,0 +1,18 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+export default buildModule("EggHatcheryModule", (m) => {
+  // Already deployed GenesisNFT, Crystals proxy, ArtifactsERC1155 and randomness provider
+  const genesis = m.getParameter<string>("genesis");
+  const crystals = m.getParameter<string>("crystals");
+  const artifacts = m.getParameter<string>("artifacts");
+  const randomnessProvider = m.getParameter<string>("randomnessProvider");
+  const baseURI = m.getParameter<string>("creatureBaseURI", "");
+
+  const creatures = m.contract("CreatureNFT", ["Mibboverse Creatures", "MBC", baseURI]);
+  const hatchery = m.contract("EggHatchery", [genesis, creatures, crystals, artifacts, randomnessProvider]);
+
+  // The hatchery mints every creature
+  m.call(creatures, "grantRole", [m.staticCall(creatures, "MINTER_ROLE"), hatchery]);
+
+  return { creatures, hatchery };
+});
@@ -1,12 +1,21 @@
 import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
 
+import RandomnessCoordinatorModule from "./RandomnessCoordinator.js";
+
 export default buildModule("GenesisNFTModule", (m) => {
+  // The one-time reveal is answered by a commit-reveal coordinator deployed alongside;
+  // point GenesisNFT at a VRFRandomnessAdapter with `setRandomnessProvider` before `reveal()` to use VRF instead
+  const { coordinator } = m.useModule(RandomnessCoordinatorModule);
+
   const genesis = m.contract("GenesisNFT", [
     "Genesis",
     "OG",
     "Genesis of the Mibboverse",
-    "ipfs://hidden.json"
+    "ipfs://hidden.json",
+    coordinator
   ]);
 
-  return { genesis };
-});
\ No newline at end of file
+  m.call(coordinator, "setConsumer", [genesis, true]);
+
+  return { genesis, coordinator };
+});
@@ -0,0 +1,11 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+export default buildModule("GenesisStakingModule", (m) => {
+  // Already deployed GenesisNFT and Crystals proxy
+  const genesis = m.getParameter<string>("genesis");
+  const crystals = m.getParameter<string>("crystals");
+
+  const staking = m.contract("GenesisStaking", [genesis, crystals]);
+
+  return { staking };
+});
@@ -0,0 +1,13 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+export default buildModule("LootBoxModule", (m) => {
+  // Already deployed Crystals proxy, ArtifactsERC1155 and randomness provider
+  const crystals = m.getParameter<string>("crystals");
+  const artifacts = m.getParameter<string>("artifacts");
+  const randomnessProvider = m.getParameter<string>("randomnessProvider");
+  const price = m.getParameter<bigint>("price", 100n * 10n ** 18n);
+
+  const lootBox = m.contract("LootBox", [crystals, artifacts, randomnessProvider, price]);
+
+  return { lootBox };
+});
@@ -0,0 +1,48 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+import ArtifactsERC1155Module from "./ArtifactsERC1155.js";
+import CrystalsV2Module from "./CrystalsV2.js";
+import GenesisNFTModule from "./GenesisNFT.js";
+import TokenVaultModule from "./TokenVault.js";
+
+/**
+ * Deploys every core contract and wires them together:
+ *  - the backend signer becomes an admin (`setAdmin`) of Crystals, Artifacts, Genesis and the vault
+ *  - the vault accepts the Crystals proxy (`setAllowedToken`) and is whitelisted on it (`setContractWhitelist`)
+ *  - artifact names and URIs are set from the `artifactIds` / `artifactNames` / `artifactURIs` parameters
+ *  - `vaultFunding` Crystals are minted into the vault reserves (0 mints nothing)
+ *  - GenesisNFT reveals through a RandomnessCoordinator whose operator is `RandomnessCoordinatorModule.operator`
+ *
+ * Per-network parameters live in ignition/parameters/<network>.json.
+ */
+export default buildModule("MibboverseModule", (m) => {
+  const backendSigner = m.getParameter<string>("backendSigner");
+  const artifactIds = m.getParameter<bigint[]>("artifactIds", []);
+  const artifactNames = m.getParameter<string[]>("artifactNames", []);
+  const artifactURIs = m.getParameter<string[]>("artifactURIs", []);
+  const vaultFunding = m.getParameter<bigint>("vaultFunding", 0n);
+
+  const { artifacts } = m.useModule(ArtifactsERC1155Module);
+  const { crystalsImpl, proxy } = m.useModule(CrystalsV2Module);
+  const { genesis, coordinator } = m.useModule(GenesisNFTModule);
+  const { vault } = m.useModule(TokenVaultModule);
+
+  const crystals = m.contractAt("CrystalsV2", proxy, { id: "CrystalsProxy" });
+
+  // Backend signer signs permits and mints on every contract
+  m.call(crystals, "setAdmin", [backendSigner, true], { id: "CrystalsSetAdmin" });
+  m.call(artifacts, "setAdmin", [backendSigner, true], { id: "ArtifactsSetAdmin" });
+  m.call(genesis, "setAdmin", [backendSigner, true], { id: "GenesisSetAdmin" });
+  m.call(vault, "setAdmin", [backendSigner, true], { id: "VaultSetAdmin" });
+
+  // The vault holds and pays out Crystals
+  m.call(vault, "setAllowedToken", [proxy, true]);
+  const whitelist = m.call(crystals, "setContractWhitelist", [vault, true]);
+
+  m.call(artifacts, "setTokenMetadataBatch", [artifactIds, artifactNames, artifactURIs]);
+
+  // Reserves are whatever the vault holds beyond user deposits
+  m.call(crystals, "mint", [vault, vaultFunding], { id: "FundVault", after: [whitelist] });
+
+  return { artifacts, crystals, crystalsImpl, genesis, coordinator, vault, proxy };
+});
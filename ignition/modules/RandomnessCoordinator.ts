@@ -0,0 +1,12 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+export default buildModule("RandomnessCoordinatorModule", (m) => {
+  // Backend account publishing commitments and revealing seeds (defaults to the deployer)
+  const operator = m.getParameter("operator", m.getAccount(0));
+
+  const coordinator = m.contract("RandomnessCoordinator", []);
+
+  m.call(coordinator, "grantRole", [m.staticCall(coordinator, "RANDOMNESS_OPERATOR_ROLE"), operator]);
+
+  return { coordinator };
+});
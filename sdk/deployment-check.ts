@@ -0,0 +1,237 @@
+import { getAddress, isAddressEqual, type Address, type PublicClient } from "viem";
+
+import { PERMITS, SIGNATURE_VERSION } from "./permits.js";
+
+/**
+ * Post-deploy invariant checks for CrystalsV2, ArtifactsERC1155, GenesisNFT and TokenVault.
+ *
+ * Every check reads chain state through a public client, so it runs the same way against Base Sepolia
+ * and the local edr-simulated networks:
+ *  - code        — every address holds a contract
+ *  - owner       — `owner()` is the expected owner
+ *  - admins      — every expected admin holds the contract's admin roles (`admins(account)`)
+ *  - eip712      — `eip712Domain()` matches the domain the permits in sdk/permits.ts are signed for
+ *  - vault       — the vault allows the Crystals proxy and is on its contract whitelist
+ *  - erc1967     — the proxy's implementation slot points to the expected implementation
+ */
+
+/** Addresses of a Mibboverse deployment */
+export interface DeploymentAddresses {
+  crystals: Address;
+  crystalsImplementation: Address;
+  artifacts: Address;
+  genesis: Address;
+  vault: Address;
+}
+
+export interface DeploymentExpectations {
+  owner: Address;
+  admins: Address[];
+  /** EIP-712 name of the Crystals proxy, i.e. its token name */
+  crystalsName?: string;
+}
+
+export interface DeploymentCheck {
+  name: string;
+  passed: boolean;
+  detail: string;
+}
+
+export interface DeploymentReport {
+  passed: boolean;
+  checks: DeploymentCheck[];
+}
+
+/** `bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1)` */
+export const ERC1967_IMPLEMENTATION_SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+/** Ignition future ids (`<Module>#<Contract>`) → address map key; later entries override earlier ones */
+const IGNITION_FUTURES: [suffix: string, key: keyof DeploymentAddresses][] = [
+  ["#ProxyExample", "crystals"],
+  ["#CrystalsV2", "crystalsImplementation"],
+  ["#CrystalsV3", "crystalsImplementation"],
+  ["#ArtifactsERC1155", "artifacts"],
+  ["#GenesisNFT", "genesis"],
+  ["#TokenVault", "vault"],
+];
+
+const checkAbi = [
+  {
+    type: "function",
+    name: "owner",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+  },
+  {
+    type: "function",
+    name: "admins",
+    stateMutability: "view",
+    inputs: [{ name: "account", type: "address" }],
+    outputs: [{ name: "", type: "bool" }],
+  },
+  {
+    type: "function",
+    name: "eip712Domain",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [
+      { name: "fields", type: "bytes1" },
+      { name: "name", type: "string" },
+      { name: "version", type: "string" },
+      { name: "chainId", type: "uint256" },
+      { name: "verifyingContract", type: "address" },
+      { name: "salt", type: "bytes32" },
+      { name: "extensions", type: "uint256[]" },
+    ],
+  },
+  {
+    type: "function",
+    name: "allowedTokens",
+    stateMutability: "view",
+    inputs: [{ name: "token", type: "address" }],
+    outputs: [{ name: "", type: "bool" }],
+  },
+  {
+    type: "function",
+    name: "contractWhitelist",
+    stateMutability: "view",
+    inputs: [{ name: "account", type: "address" }],
+    outputs: [{ name: "", type: "bool" }],
+  },
+] as const;
+
+/** Builds the address map from Ignition's `deployed_addresses.json` (CrystalsV2/V3, ArtifactsERC1155, GenesisNFT and TokenVault modules) */
+export function addressesFromIgnition(deployed: Record<string, string>): DeploymentAddresses {
+  const addresses: Partial<DeploymentAddresses> = {};
+  for (const [suffix, key] of IGNITION_FUTURES) {
+    const futureId = Object.keys(deployed).find((id) => id.endsWith(suffix));
+    if (futureId !== undefined) {
+      addresses[key] = getAddress(deployed[futureId]);
+    }
+  }
+  return parseDeploymentAddresses(addresses);
+}
+
+/** Validates an address map read from JSON */
+export function parseDeploymentAddresses(map: Record<string, unknown>): DeploymentAddresses {
+  const keys: (keyof DeploymentAddresses)[] = ["crystals", "crystalsImplementation", "artifacts", "genesis", "vault"];
+  const addresses = {} as DeploymentAddresses;
+  for (const key of keys) {
+    const value = map[key];
+    if (typeof value !== "string") {
+      throw new Error(`Deployment is missing the "${key}" address`);
+    }
+    addresses[key] = getAddress(value);
+  }
+  return addresses;
+}
+
+/** Runs every invariant check against a deployment */
+export async function checkDeployment(
+  client: PublicClient,
+  addresses: DeploymentAddresses,
+  expected: DeploymentExpectations
+): Promise<DeploymentReport> {
+  const checks: DeploymentCheck[] = [];
+  const check = (name: string, passed: boolean, detail: string) => checks.push({ name, passed, detail });
+  // A call reverting (wrong contract, missing function) fails the check instead of aborting the report
+  const attempt = async (name: string, run: () => Promise<void>) => {
+    try {
+      await run();
+    } catch (err: any) {
+      check(name, false, (err.shortMessage ?? err.message).split("\n")[0]);
+    }
+  };
+  const chainId = await client.getChainId();
+  const deployed = new Set<Address>();
+
+  const contracts = [
+    { label: "CrystalsV2", address: addresses.crystals, domainName: expected.crystalsName ?? PERMITS.crystalsMint.domainName },
+    { label: "ArtifactsERC1155", address: addresses.artifacts, domainName: PERMITS.artifactsMint.domainName },
+    { label: "GenesisNFT", address: addresses.genesis, domainName: PERMITS.genesisMint.domainName },
+    { label: "TokenVault", address: addresses.vault, domainName: PERMITS.vaultClaim.domainName },
+  ];
+
+  for (const { label, address, domainName } of contracts) {
+    const code = await client.getCode({ address });
+    if (code === undefined || code === "0x") {
+      check(`${label} code`, false, `no contract at ${address}`);
+      continue;
+    }
+    check(`${label} code`, true, address);
+    deployed.add(address);
+
+    await attempt(`${label} owner`, async () => {
+      const owner = await client.readContract({ address, abi: checkAbi, functionName: "owner" });
+      check(`${label} owner`, isAddressEqual(owner, expected.owner), owner);
+    });
+
+    for (const admin of expected.admins) {
+      await attempt(`${label} admin ${admin}`, async () => {
+        const isAdmin = await client.readContract({ address, abi: checkAbi, functionName: "admins", args: [admin] });
+        check(`${label} admin ${admin}`, isAdmin, isAdmin ? "holds admin roles" : "missing admin roles");
+      });
+    }
+
+    await attempt(`${label} EIP-712 domain`, async () => {
+      const [, name, version, domainChainId, verifyingContract] = await client.readContract({
+        address,
+        abi: checkAbi,
+        functionName: "eip712Domain",
+      });
+      check(
+        `${label} EIP-712 domain`,
+        name === domainName &&
+          version === SIGNATURE_VERSION &&
+          domainChainId === BigInt(chainId) &&
+          isAddressEqual(verifyingContract, address),
+        `"${name}" v${version}, chain ${domainChainId}, ${verifyingContract}`
+      );
+    });
+  }
+
+  if (deployed.has(addresses.vault) && deployed.has(addresses.crystals)) {
+    await attempt("TokenVault allows Crystals", async () => {
+      const allowed = await client.readContract({
+        address: addresses.vault,
+        abi: checkAbi,
+        functionName: "allowedTokens",
+        args: [addresses.crystals],
+      });
+      check("TokenVault allows Crystals", allowed, allowed ? "allowed" : "not allowed");
+    });
+
+    await attempt("CrystalsV2 whitelists TokenVault", async () => {
+      const whitelisted = await client.readContract({
+        address: addresses.crystals,
+        abi: checkAbi,
+        functionName: "contractWhitelist",
+        args: [addresses.vault],
+      });
+      check("CrystalsV2 whitelists TokenVault", whitelisted, whitelisted ? "whitelisted" : "not whitelisted");
+    });
+  }
+
+  const slot = await client.getStorageAt({ address: addresses.crystals, slot: ERC1967_IMPLEMENTATION_SLOT });
+  const implementation = getAddress(`0x${(slot ?? "0x").slice(-40).padStart(40, "0")}`);
+  check(
+    "CrystalsV2 ERC-1967 implementation",
+    isAddressEqual(implementation, addresses.crystalsImplementation),
+    implementation
+  );
+
+  return { passed: checks.every((c) => c.passed), checks };
+}
+
+/** Human-readable report, one line per check */
+export function formatDeploymentReport(report: DeploymentReport): string {
+  const lines = report.checks.map((c) => `  ${c.passed ? "✓" : "✗"} ${c.name}  ${c.detail}`);
+  const failed = report.checks.filter((c) => !c.passed).length;
+  lines.push(
+    report.passed
+      ? `All ${report.checks.length} checks passed`
+      : `${failed} of ${report.checks.length} checks failed`
+  );
+  return lines.join("\n");
+}
@@ -0,0 +1,149 @@
+import {
+  concat,
+  encodeAbiParameters,
+  getAddress,
+  isAddress,
+  keccak256,
+  type Address,
+  type Hex,
+} from "viem";
+
+/**
+ * Merkle trees for TokenVault reward distributions.
+ *
+ * Leaves match `TokenVault.claimDistribution`:
+ *   keccak256(bytes.concat(keccak256(abi.encode(index, account, amount))))
+ * and pairs are hashed in sorted order, as OpenZeppelin's MerkleProof expects.
+ */
+
+export interface RewardEntry {
+  account: Address;
+  amount: bigint;
+}
+
+export interface RewardClaim extends RewardEntry {
+  index: number;
+  proof: Hex[];
+}
+
+export interface RewardDistribution {
+  root: Hex;
+  total: bigint;
+  claims: RewardClaim[];
+}
+
+/** Hashes a single distribution leaf */
+export function rewardLeaf(index: number | bigint, account: Address, amount: bigint): Hex {
+  const encoded = encodeAbiParameters(
+    [{ type: "uint256" }, { type: "address" }, { type: "uint256" }],
+    [BigInt(index), account, amount]
+  );
+  return keccak256(keccak256(encoded));
+}
+
+function hashPair(a: Hex, b: Hex): Hex {
+  return BigInt(a) < BigInt(b) ? keccak256(concat([a, b])) : keccak256(concat([b, a]));
+}
+
+/** Builds every layer of the tree, leaves first; an odd node is carried up unchanged */
+function buildLayers(leaves: Hex[]): Hex[][] {
+  const layers = [leaves];
+  while (layers[layers.length - 1].length > 1) {
+    const current = layers[layers.length - 1];
+    const next: Hex[] = [];
+    for (let i = 0; i < current.length; i += 2) {
+      next.push(i + 1 < current.length ? hashPair(current[i], current[i + 1]) : current[i]);
+    }
+    layers.push(next);
+  }
+  return layers;
+}
+
+function proofFor(layers: Hex[][], index: number): Hex[] {
+  const proof: Hex[] = [];
+  for (const layer of layers.slice(0, -1)) {
+    const sibling = index % 2 === 0 ? index + 1 : index - 1;
+    if (sibling < layer.length) {
+      proof.push(layer[sibling]);
+    }
+    index = Math.floor(index / 2);
+  }
+  return proof;
+}
+
+/** Builds the root, total and per-account proofs for a list of rewards; leaf index is the list position */
+export function buildRewardDistribution(entries: RewardEntry[]): RewardDistribution {
+  if (entries.length === 0) {
+    throw new Error("No reward entries");
+  }
+
+  const seen = new Set<string>();
+  for (const { account } of entries) {
+    const key = account.toLowerCase();
+    if (seen.has(key)) {
+      throw new Error(`Duplicate account ${account}`);
+    }
+    seen.add(key);
+  }
+
+  const leaves = entries.map((entry, index) => rewardLeaf(index, entry.account, entry.amount));
+  const layers = buildLayers(leaves);
+
+  return {
+    root: layers[layers.length - 1][0],
+    total: entries.reduce((sum, entry) => sum + entry.amount, 0n),
+    claims: entries.map((entry, index) => ({
+      index,
+      account: entry.account,
+      amount: entry.amount,
+      proof: proofFor(layers, index),
+    })),
+  };
+}
+
+/** Recomputes the root from a claim and its proof */
+export function verifyRewardClaim(root: Hex, claim: RewardClaim): boolean {
+  let hash = rewardLeaf(claim.index, claim.account, claim.amount);
+  for (const sibling of claim.proof) {
+    hash = hashPair(hash, sibling);
+  }
+  return hash === root;
+}
+
+/**
+ * Parses `address,amount` rows; amounts are integers in the token's smallest unit.
+ * A header row and blank lines are skipped.
+ */
+export function parseRewardCsv(csv: string): RewardEntry[] {
+  const entries: RewardEntry[] = [];
+
+  csv.split(/\r?\n/).forEach((line, lineIndex) => {
+    const [rawAccount, rawAmount, ...rest] = line.split(",").map((cell) => cell.trim());
+    if (rawAccount === undefined || rawAccount === "") {
+      return;
+    }
+    if (lineIndex === 0 && !isAddress(rawAccount)) {
+      return;
+    }
+    if (!isAddress(rawAccount) || rawAmount === undefined || !/^\d+$/.test(rawAmount) || rest.length > 0) {
+      throw new Error(`Invalid row ${lineIndex + 1}: "${line}"`);
+    }
+    entries.push({ account: getAddress(rawAccount), amount: BigInt(rawAmount) });
+  });
+
+  return entries;
+}
+
+/** JSON-safe form of a distribution (amounts as decimal strings) */
+export function serializeRewardDistribution(distribution: RewardDistribution) {
+  return {
+    root: distribution.root,
+    total: distribution.total.toString(),
+    claims: distribution.claims.map((claim) => ({
+      index: claim.index,
+      account: claim.account,
+      amount: claim.amount.toString(),
+      proof: claim.proof,
+    })),
+  };
+}
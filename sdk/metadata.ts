@@ -0,0 +1,81 @@
+/**
+ * Decoder for the on-chain metadata rendered by ArtifactsERC1155 (contracts/utils/ArtifactMetadata.sol).
+ *
+ * `uri(id)` of a token in on-chain mode returns `data:application/json;base64,<json>`; `decodeTokenMetadata`
+ * parses it and checks it has the shape wallets and marketplaces expect. Embedded SVG images
+ * (`data:image/svg+xml;base64,…`) are unpacked with `decodeSvgImage`.
+ */
+
+export type Rarity = "Common" | "Rare" | "Epic" | "Legendary";
+export type Element = "Fire" | "Water" | "Earth" | "Air";
+
+export const RARITIES: readonly Rarity[] = ["Common", "Rare", "Epic", "Legendary"];
+export const ELEMENTS: readonly Element[] = ["Fire", "Water", "Earth", "Air"];
+
+export type TokenAttribute =
+  | { trait_type: "Rarity"; value: Rarity }
+  | { trait_type: "Element"; value: Element }
+  | { trait_type: "Power"; display_type: "number"; value: number };
+
+export interface AttributeValues {
+  Rarity: Rarity;
+  Element: Element;
+  Power: number;
+}
+
+export interface TokenMetadata {
+  name: string;
+  description: string;
+  image: string;
+  attributes: TokenAttribute[];
+}
+
+const JSON_PREFIX = "data:application/json;base64,";
+const SVG_PREFIX = "data:image/svg+xml;base64,";
+
+function decodeBase64DataURI(uri: string, prefix: string): string {
+  if (!uri.startsWith(prefix)) {
+    throw new Error(`Expected a ${prefix}… URI, got "${uri.slice(0, 40)}"`);
+  }
+  return Buffer.from(uri.slice(prefix.length), "base64").toString("utf8");
+}
+
+/** Parses and validates an on-chain metadata URI */
+export function decodeTokenMetadata(uri: string): TokenMetadata {
+  const metadata = JSON.parse(decodeBase64DataURI(uri, JSON_PREFIX));
+
+  for (const field of ["name", "description", "image"] as const) {
+    if (typeof metadata[field] !== "string") {
+      throw new Error(`Metadata "${field}" must be a string`);
+    }
+  }
+  if (!Array.isArray(metadata.attributes)) {
+    throw new Error(`Metadata "attributes" must be an array`);
+  }
+
+  for (const attribute of metadata.attributes) {
+    const valid =
+      (attribute.trait_type === "Rarity" && RARITIES.includes(attribute.value)) ||
+      (attribute.trait_type === "Element" && ELEMENTS.includes(attribute.value)) ||
+      (attribute.trait_type === "Power" && attribute.display_type === "number" && Number.isInteger(attribute.value));
+    if (!valid) {
+      throw new Error(`Invalid attribute ${JSON.stringify(attribute)}`);
+    }
+  }
+
+  return metadata as TokenMetadata;
+}
+
+/** Returns the value of a trait, or undefined if the token does not have it */
+export function attributeValue<T extends keyof AttributeValues>(
+  metadata: TokenMetadata,
+  traitType: T
+): AttributeValues[T] | undefined {
+  const attribute = metadata.attributes.find((a) => a.trait_type === traitType);
+  return attribute?.value as AttributeValues[T] | undefined;
+}
+
+/** Returns the markup of an embedded SVG image */
+export function decodeSvgImage(image: string): string {
+  return decodeBase64DataURI(image, SVG_PREFIX);
+}
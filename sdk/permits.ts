@@ -0,0 +1,408 @@
+import {
+  isAddressEqual,
+  parseSignature,
+  recoverTypedDataAddress,
+  type Account,
+  type Address,
+  type Chain,
+  type Hex,
+  type LocalAccount,
+  type PublicClient,
+  type Transport,
+  type TypedData,
+  type TypedDataDefinition,
+  type WalletClient,
+} from "viem";
+
+import { ROLES } from "./roles.js";
+
+/**
+ * EIP-712 permit signing for the Mibboverse contracts.
+ *
+ * Every contract verifies a typed-data message signed by the owner or a MINTER_ROLE member before it mints or pays out:
+ *  - ArtifactsERC1155.mintWithPermit — `MintRequest` under the "AdminMintableERC1155" domain
+ *  - ArtifactsERC1155.mintBatchWithPermit — `MintBatchRequest` under the same domain
+ *  - GenesisNFT.mintWithPermit       — `MintRequest` under the "AdminMintableERC721" domain
+ *  - CrystalsV2.mintWithSignature    — `Mint` under the token-name domain ("Crystals")
+ *  - TokenVault.claim                — `Claim` under the "TokenVault" domain
+ *
+ * The definitions below must stay in sync with the typehashes in contracts/.
+ *
+ * CrystalsV3 additionally accepts EIP-2612 approvals signed by the token holder (`signErc20Permit`),
+ * submitted through `permit` or TokenVault.depositWithPermit.
+ */
+
+export const PERMITS = {
+  artifactsMint: {
+    domainName: "AdminMintableERC1155",
+    primaryType: "MintRequest",
+    types: {
+      MintRequest: [
+        { name: "to", type: "address" },
+        { name: "id", type: "uint256" },
+        { name: "amount", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    },
+  },
+  artifactsMintBatch: {
+    domainName: "AdminMintableERC1155",
+    primaryType: "MintBatchRequest",
+    types: {
+      MintBatchRequest: [
+        { name: "to", type: "address" },
+        { name: "ids", type: "uint256[]" },
+        { name: "amounts", type: "uint256[]" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    },
+  },
+  genesisMint: {
+    domainName: "AdminMintableERC721",
+    primaryType: "MintRequest",
+    types: {
+      MintRequest: [
+        { name: "to", type: "address" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    },
+  },
+  crystalsMint: {
+    domainName: "Crystals",
+    primaryType: "Mint",
+    types: {
+      Mint: [
+        { name: "to", type: "address" },
+        { name: "amount", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    },
+  },
+  vaultClaim: {
+    domainName: "TokenVault",
+    primaryType: "Claim",
+    types: {
+      Claim: [
+        { name: "to", type: "address" },
+        { name: "token", type: "address" },
+        { name: "amount", type: "uint256" },
+        { name: "nonce", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+      ],
+    },
+  },
+} as const;
+
+export type PermitKind = keyof typeof PERMITS;
+
+/** Message shapes, field for field with the Solidity structs */
+export interface ArtifactsMintMessage {
+  to: Address;
+  id: bigint;
+  amount: bigint;
+  nonce: bigint;
+  deadline: bigint;
+}
+
+export interface ArtifactsMintBatchMessage {
+  to: Address;
+  ids: readonly bigint[];
+  amounts: readonly bigint[];
+  nonce: bigint;
+  deadline: bigint;
+}
+
+export interface GenesisMintMessage {
+  to: Address;
+  nonce: bigint;
+  deadline: bigint;
+}
+
+export interface CrystalsMintMessage {
+  to: Address;
+  amount: bigint;
+  nonce: bigint;
+  deadline: bigint;
+}
+
+export interface VaultClaimMessage {
+  to: Address;
+  token: Address;
+  amount: bigint;
+  nonce: bigint;
+  deadline: bigint;
+}
+
+export interface PermitMessages {
+  artifactsMint: ArtifactsMintMessage;
+  artifactsMintBatch: ArtifactsMintBatchMessage;
+  genesisMint: GenesisMintMessage;
+  crystalsMint: CrystalsMintMessage;
+  vaultClaim: VaultClaimMessage;
+}
+
+/** Everything but the nonce, which is read from chain by `preparePermit` */
+export type UnsignedPermitMessage<K extends PermitKind> = Omit<PermitMessages[K], "nonce">;
+
+/**
+ * EIP-712 domain of a deployed contract.
+ * `name` only needs to be set for CrystalsV2 proxies initialized with a name other than "Crystals".
+ */
+export interface PermitDomain {
+  chainId: number;
+  verifyingContract: Address;
+  name?: string;
+}
+
+/** Anything that can produce an EIP-712 signature: a local viem account or a wallet client with a hoisted account */
+export type PermitSigner = LocalAccount | WalletClient<Transport, Chain | undefined, Account>;
+
+export interface SignedPermit<K extends PermitKind> {
+  message: PermitMessages[K];
+  signature: Hex;
+}
+
+export const SIGNATURE_VERSION = "1";
+
+/** Read-only fragment shared by all four contracts */
+const permitAbi = [
+  {
+    type: "function",
+    name: "nonces",
+    stateMutability: "view",
+    inputs: [{ name: "", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "hasRole",
+    stateMutability: "view",
+    inputs: [
+      { name: "role", type: "bytes32" },
+      { name: "account", type: "address" },
+    ],
+    outputs: [{ name: "", type: "bool" }],
+  },
+  {
+    type: "function",
+    name: "owner",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "address" }],
+  },
+] as const;
+
+/** Typed-data payload of any permit kind, accepted as is by viem's `signTypedData` and `recoverTypedDataAddress` */
+export type PermitTypedData = TypedDataDefinition<TypedData, string>;
+
+/** Builds the full typed-data payload for a permit */
+export function permitTypedData<K extends PermitKind>(
+  kind: K,
+  domain: PermitDomain,
+  message: PermitMessages[K]
+): PermitTypedData {
+  const permit = PERMITS[kind];
+  return {
+    domain: {
+      name: domain.name ?? permit.domainName,
+      version: SIGNATURE_VERSION,
+      chainId: domain.chainId,
+      verifyingContract: domain.verifyingContract,
+    },
+    types: permit.types,
+    primaryType: permit.primaryType,
+    message: { ...message },
+  };
+}
+
+/** Signs a permit with a viem account or wallet client */
+export async function signPermit<K extends PermitKind>(
+  kind: K,
+  signer: PermitSigner,
+  domain: PermitDomain,
+  message: PermitMessages[K]
+): Promise<Hex> {
+  const typedData = permitTypedData(kind, domain, message);
+
+  if ("account" in signer) {
+    return signer.signTypedData({ ...typedData, account: signer.account });
+  }
+  return signer.signTypedData(typedData);
+}
+
+/** Reads the current permit nonce of `account` on any of the four contracts */
+export async function readPermitNonce(
+  client: PublicClient,
+  contract: Address,
+  account: Address
+): Promise<bigint> {
+  return client.readContract({
+    address: contract,
+    abi: permitAbi,
+    functionName: "nonces",
+    args: [account],
+  });
+}
+
+/** Reads chain id and the recipient's current nonce, then signs the permit */
+export async function preparePermit<K extends PermitKind>(
+  kind: K,
+  client: PublicClient,
+  signer: PermitSigner,
+  contract: Address,
+  unsigned: UnsignedPermitMessage<K>,
+  domainName?: string
+): Promise<SignedPermit<K>> {
+  const [chainId, nonce] = await Promise.all([
+    client.getChainId(),
+    readPermitNonce(client, contract, unsigned.to),
+  ]);
+
+  const message = { ...unsigned, nonce } as PermitMessages[K];
+  const signature = await signPermit(kind, signer, { chainId, verifyingContract: contract, name: domainName }, message);
+
+  return { message, signature };
+}
+
+/** Recovers the address that signed a permit */
+export async function recoverPermitSigner<K extends PermitKind>(
+  kind: K,
+  domain: PermitDomain,
+  message: PermitMessages[K],
+  signature: Hex
+): Promise<Address> {
+  return recoverTypedDataAddress({
+    ...permitTypedData(kind, domain, message),
+    signature,
+  });
+}
+
+/**
+ * Checks a permit off-chain the same way the contract will on submission:
+ * the signer must be the owner or a minter, the nonce must still be current, and the deadline
+ * (0 = none) must not have passed at the latest block.
+ */
+export async function verifyPermit<K extends PermitKind>(
+  kind: K,
+  client: PublicClient,
+  domain: PermitDomain,
+  message: PermitMessages[K],
+  signature: Hex
+): Promise<boolean> {
+  const signer = await recoverPermitSigner(kind, domain, message, signature);
+  const contract = domain.verifyingContract;
+
+  const [owner, isMinter, nonce, block] = await Promise.all([
+    client.readContract({ address: contract, abi: permitAbi, functionName: "owner" }),
+    client.readContract({ address: contract, abi: permitAbi, functionName: "hasRole", args: [ROLES.minter, signer] }),
+    readPermitNonce(client, contract, message.to),
+    client.getBlock({ blockTag: "latest" }),
+  ]);
+
+  return (
+    (isMinter || isAddressEqual(owner, signer)) &&
+    nonce === message.nonce &&
+    (message.deadline === 0n || message.deadline >= block.timestamp)
+  );
+}
+
+/** EIP-2612 `Permit`, signed by the token holder rather than a minter */
+export const ERC20_PERMIT = {
+  domainName: "Crystals",
+  primaryType: "Permit",
+  types: {
+    Permit: [
+      { name: "owner", type: "address" },
+      { name: "spender", type: "address" },
+      { name: "value", type: "uint256" },
+      { name: "nonce", type: "uint256" },
+      { name: "deadline", type: "uint256" },
+    ],
+  },
+} as const;
+
+export interface Erc20PermitMessage {
+  owner: Address;
+  spender: Address;
+  value: bigint;
+  nonce: bigint;
+  deadline: bigint;
+}
+
+/** Split signature in the `(v, r, s)` form taken by `permit` and `depositWithPermit` */
+export interface Erc20PermitSignature {
+  v: number;
+  r: Hex;
+  s: Hex;
+}
+
+/** Read-only fragment of CrystalsV3 holding the EIP-2612 nonces */
+const erc20PermitAbi = [
+  {
+    type: "function",
+    name: "permitNonces",
+    stateMutability: "view",
+    inputs: [{ name: "", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+] as const;
+
+/** Reads the current EIP-2612 permit nonce of `owner` on CrystalsV3 */
+export async function readErc20PermitNonce(client: PublicClient, token: Address, owner: Address): Promise<bigint> {
+  return client.readContract({
+    address: token,
+    abi: erc20PermitAbi,
+    functionName: "permitNonces",
+    args: [owner],
+  });
+}
+
+/** Signs an EIP-2612 approval; `nonce` is the holder's `permitNonces`, separate from mint-signature nonces */
+export async function signErc20Permit(
+  signer: PermitSigner,
+  domain: PermitDomain,
+  message: Erc20PermitMessage
+): Promise<Erc20PermitSignature> {
+  const typedData = {
+    domain: {
+      name: domain.name ?? ERC20_PERMIT.domainName,
+      version: SIGNATURE_VERSION,
+      chainId: domain.chainId,
+      verifyingContract: domain.verifyingContract,
+    },
+    types: ERC20_PERMIT.types,
+    primaryType: ERC20_PERMIT.primaryType,
+    message,
+  } as const;
+
+  const signature =
+    "account" in signer
+      ? await signer.signTypedData({ ...typedData, account: signer.account })
+      : await signer.signTypedData(typedData);
+
+  const { r, s, yParity } = parseSignature(signature);
+  return { v: yParity + 27, r, s };
+}
+
+/** Reads chain id and the holder's current permit nonce, then signs the approval */
+export async function prepareErc20Permit(
+  client: PublicClient,
+  signer: PermitSigner,
+  token: Address,
+  unsigned: Omit<Erc20PermitMessage, "nonce">,
+  domainName?: string
+): Promise<{ message: Erc20PermitMessage; signature: Erc20PermitSignature }> {
+  const [chainId, nonce] = await Promise.all([
+    client.getChainId(),
+    readErc20PermitNonce(client, token, unsigned.owner),
+  ]);
+
+  const message = { ...unsigned, nonce };
+  const signature = await signErc20Permit(signer, { chainId, verifyingContract: token, name: domainName }, message);
+
+  return { message, signature };
+}
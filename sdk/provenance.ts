@@ -0,0 +1,76 @@
+import { readdir, readFile } from "node:fs/promises";
+import { join } from "node:path";
+
+import { concat, keccak256, type Hex } from "viem";
+
+/**
+ * Provenance of the GenesisNFT metadata, committed with `setProvenanceHash` before minting.
+ *
+ * The metadata folder holds `1.json` … `<supply>.json`. Each file is hashed as raw bytes and
+ *   provenanceHash = keccak256(fileHash(1) ‖ fileHash(2) ‖ … ‖ fileHash(supply))
+ * so anyone holding the published files can check that the order was fixed before the reveal.
+ * After the reveal, token #id shows file `metadataIdOf(id, startingIndex)`, as GenesisNFT does on-chain.
+ */
+
+export const GENESIS_MAX_SUPPLY = 333;
+
+export interface MetadataFileHash {
+  metadataId: number;
+  file: string;
+  hash: Hex;
+}
+
+export interface Provenance {
+  provenanceHash: Hex;
+  files: MetadataFileHash[];
+}
+
+/** Hashes the raw bytes of a metadata file */
+export function metadataFileHash(content: Uint8Array): Hex {
+  return keccak256(content);
+}
+
+/** Combines file hashes, ordered by metadata id, into the provenance hash */
+export function provenanceHash(fileHashes: Hex[]): Hex {
+  if (fileHashes.length === 0) {
+    throw new Error("No metadata files");
+  }
+  return keccak256(concat(fileHashes));
+}
+
+/** Metadata file shown by `tokenId` once revealed with `startingIndex` */
+export function metadataIdOf(tokenId: number, startingIndex: number, supply = GENESIS_MAX_SUPPLY): number {
+  if (!Number.isInteger(tokenId) || tokenId < 1 || tokenId > supply) {
+    throw new Error(`Invalid token id ${tokenId}`);
+  }
+  return ((tokenId - 1 + startingIndex) % supply) + 1;
+}
+
+/**
+ * Hashes `1.json` … `<supply>.json` in `dir`. Other files are ignored; a missing file throws,
+ * since the provenance must cover every token of the collection.
+ */
+export async function computeProvenance(dir: string, supply = GENESIS_MAX_SUPPLY): Promise<Provenance> {
+  const present = new Set((await readdir(dir)).filter((name) => /^[1-9]\d*\.json$/.test(name)));
+
+  const missing: string[] = [];
+  for (let id = 1; id <= supply; id++) {
+    if (!present.has(`${id}.json`)) missing.push(`${id}.json`);
+  }
+  if (missing.length > 0) {
+    throw new Error(`Missing metadata files in ${dir}: ${missing.slice(0, 5).join(", ")}${missing.length > 5 ? ", …" : ""}`);
+  }
+
+  const extra = [...present].filter((name) => Number(name.slice(0, -".json".length)) > supply);
+  if (extra.length > 0) {
+    throw new Error(`Metadata files beyond supply ${supply} in ${dir}: ${extra.join(", ")}`);
+  }
+
+  const files: MetadataFileHash[] = [];
+  for (let id = 1; id <= supply; id++) {
+    const file = join(dir, `${id}.json`);
+    files.push({ metadataId: id, file, hash: metadataFileHash(await readFile(file)) });
+  }
+
+  return { provenanceHash: provenanceHash(files.map((entry) => entry.hash)), files };
+}
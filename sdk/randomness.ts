@@ -0,0 +1,48 @@
+import { randomBytes } from "node:crypto";
+import { encodeAbiParameters, hexToBigInt, keccak256, toHex, type Hex } from "viem";
+
+/**
+ * Commit-reveal helpers for RandomnessCoordinator (contracts/RandomnessCoordinator.sol).
+ *
+ * The backend keeps secret seeds and publishes only their commitments:
+ *  1. `createCommitBatch(n)` → store `seeds` privately, send `commitments` to `commit`
+ *  2. each `RandomnessRequested(requestId, consumer, commitment, entropy)` names the commitment it used;
+ *     look up the seed with `seedFor` and call `reveal(requestId, seed)`
+ *  3. anyone can recompute the delivered word with `expectedRandomness(seed, entropy, requestId)`
+ *
+ * The encodings below must stay in sync with `reveal` in the contract.
+ */
+
+export interface CommitBatch {
+  seeds: Hex[];
+  commitments: Hex[];
+}
+
+/** Returns `count` random 32-byte seeds from the Node.js CSPRNG */
+export function generateSeeds(count: number): Hex[] {
+  return Array.from({ length: count }, () => toHex(randomBytes(32)));
+}
+
+/** Commitment published for a seed: `keccak256(abi.encode(seed))` */
+export function commitmentOf(seed: Hex): Hex {
+  return keccak256(encodeAbiParameters([{ type: "bytes32" }], [seed]));
+}
+
+/** Generates `count` seeds together with the commitments to publish, in the same order */
+export function createCommitBatch(count: number): CommitBatch {
+  const seeds = generateSeeds(count);
+  return { seeds, commitments: seeds.map(commitmentOf) };
+}
+
+/** Finds the seed behind a commitment, or undefined if it is not part of `batch` */
+export function seedFor(batch: CommitBatch, commitment: Hex): Hex | undefined {
+  const index = batch.commitments.findIndex((c) => c.toLowerCase() === commitment.toLowerCase());
+  return index === -1 ? undefined : batch.seeds[index];
+}
+
+/** Random word delivered for a revealed request: `keccak256(abi.encode(seed, entropy, requestId))` */
+export function expectedRandomness(seed: Hex, entropy: Hex, requestId: bigint): bigint {
+  return hexToBigInt(
+    keccak256(encodeAbiParameters([{ type: "bytes32" }, { type: "bytes32" }, { type: "uint256" }], [seed, entropy, requestId]))
+  );
+}
@@ -0,0 +1,27 @@
+import { keccak256, toHex, type Hex } from "viem";
+
+/**
+ * Role ids shared by CrystalsV2, ArtifactsERC1155, GenesisNFT and TokenVault (contracts/utils/AccessRoles.sol).
+ *
+ *  - minter           — mints directly and signs mint / claim permits
+ *  - burner           — burns Crystals from any account
+ *  - metadataManager  — updates names, URIs and reveal state
+ *  - whitelistManager — manages the Crystals contract whitelist and the vault's allowed tokens
+ *  - pauser           — pauses actions alongside the guardian
+ *
+ * The owner passes every role check without being a member.
+ */
+
+function roleId(name: string): Hex {
+  return keccak256(toHex(name));
+}
+
+export const ROLES = {
+  minter: roleId("MINTER_ROLE"),
+  burner: roleId("BURNER_ROLE"),
+  metadataManager: roleId("METADATA_MANAGER_ROLE"),
+  whitelistManager: roleId("WHITELIST_MANAGER_ROLE"),
+  pauser: roleId("PAUSER_ROLE"),
+} as const;
+
+export type RoleName = keyof typeof ROLES;
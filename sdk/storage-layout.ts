@@ -0,0 +1,295 @@
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join } from "node:path";
+
+/**
+ * Storage-layout comparison for upgradeable implementations (CrystalsV2 → CrystalsV3 and later).
+ *
+ * Layouts come from the compiler's `storageLayout` output, which hardhat.config.ts requests for every
+ * contract, or from a snapshot committed when an implementation is released (ignition/storage-layouts),
+ * since the source in the repo may have moved on from what the proxy runs. Variables are matched by slot
+ * and offset:
+ *  - appended  — new variable after the old layout (safe)
+ *  - gap       — new variables carved out of the end-aligned `__gap` (safe)
+ *  - renamed   — same slot and type, new name (safe)
+ *  - retyped   — same slot and name, different type (unsafe)
+ *  - reordered — slot now holds a different variable, or the variable moved (unsafe)
+ *  - removed   — slot no longer used by the new layout (unsafe)
+ */
+
+export interface StorageEntry {
+  label: string;
+  slot: string;
+  offset: number;
+  type: string;
+}
+
+export interface StorageType {
+  label: string;
+  encoding: string;
+  numberOfBytes: string;
+  base?: string;
+  key?: string;
+  value?: string;
+  members?: StorageEntry[];
+}
+
+export interface StorageLayout {
+  storage: StorageEntry[];
+  types: Record<string, StorageType> | null;
+}
+
+/** Layout of a released implementation, recorded so later upgrades are checked against what is deployed */
+export interface StorageLayoutSnapshot extends StorageLayout {
+  contract: string;
+}
+
+export type StorageChangeKind = "appended" | "gap" | "renamed" | "retyped" | "reordered" | "removed";
+
+export interface StorageChange {
+  kind: StorageChangeKind;
+  slot: bigint;
+  offset: number;
+  label: string;
+  detail: string;
+}
+
+export interface StorageLayoutReport {
+  compatible: boolean;
+  changes: StorageChange[];
+}
+
+const UNSAFE: ReadonlySet<StorageChangeKind> = new Set(["retyped", "reordered", "removed"]);
+
+/**
+ * Reads the storage layout of `contract` ("path/File.sol:Name") from the build info next to its artifact.
+ * Synchronous so Ignition modules can call it while the module is being built.
+ */
+export function readStorageLayout(artifactsDir: string, contract: string): StorageLayout {
+  const [sourceName, contractName] = contract.split(":");
+  if (sourceName === undefined || contractName === undefined) {
+    throw new Error(`Expected a fully qualified name like contracts/File.sol:Name, got "${contract}"`);
+  }
+
+  const artifact = JSON.parse(readFileSync(join(artifactsDir, sourceName, `${contractName}.json`), "utf8"));
+  const output = JSON.parse(
+    readFileSync(join(artifactsDir, "build-info", `${artifact.buildInfoId}.output.json`), "utf8")
+  );
+
+  const layout = output.output.contracts[artifact.inputSourceName]?.[contractName]?.storageLayout;
+  if (layout === undefined) {
+    throw new Error(`No storage layout for ${contract}; is "storageLayout" in the compiler outputSelection?`);
+  }
+  return layout;
+}
+
+/** Reads a snapshot written by `writeStorageLayoutSnapshot` */
+export function readStorageLayoutSnapshot(file: string): StorageLayoutSnapshot {
+  const snapshot = JSON.parse(readFileSync(file, "utf8"));
+  if (!Array.isArray(snapshot.storage) || typeof snapshot.contract !== "string") {
+    throw new Error(`${file} is not a storage layout snapshot`);
+  }
+  return snapshot;
+}
+
+/** Records the layout of a released implementation, to be committed next to the Ignition modules */
+export function writeStorageLayoutSnapshot(file: string, contract: string, layout: StorageLayout): StorageLayoutSnapshot {
+  const snapshot: StorageLayoutSnapshot = { contract, storage: layout.storage, types: layout.types };
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(file, `${JSON.stringify(snapshot, null, 2)}\n`);
+  return snapshot;
+}
+
+/** Reads a layout from a snapshot when `ref` is a .json path, otherwise from the build of `ref` ("path/File.sol:Name") */
+export function resolveStorageLayout(artifactsDir: string, ref: string): StorageLayout {
+  return ref.endsWith(".json") ? readStorageLayoutSnapshot(ref) : readStorageLayout(artifactsDir, ref);
+}
+
+function typeSize(types: StorageLayout["types"], type: string): bigint {
+  return BigInt(types?.[type]?.numberOfBytes ?? "32");
+}
+
+/** Number of slots a variable spans, rounding partial slots up */
+function slotCount(types: StorageLayout["types"], entry: StorageEntry): bigint {
+  const bytes = BigInt(entry.offset) + typeSize(types, entry.type);
+  return (bytes + 31n) / 32n;
+}
+
+function isGap(entry: StorageEntry): boolean {
+  return entry.label.startsWith("__gap");
+}
+
+/** Compares two types structurally, ignoring the AST ids embedded in type identifiers */
+function sameType(
+  oldTypes: StorageLayout["types"],
+  oldType: string,
+  newTypes: StorageLayout["types"],
+  newType: string
+): boolean {
+  const a = oldTypes?.[oldType];
+  const b = newTypes?.[newType];
+  if (a === undefined || b === undefined) {
+    return oldType === newType;
+  }
+  if (a.label !== b.label || a.encoding !== b.encoding || a.numberOfBytes !== b.numberOfBytes) {
+    return false;
+  }
+
+  const related = (x?: string, y?: string) =>
+    x === undefined || y === undefined ? x === y : sameType(oldTypes, x, newTypes, y);
+  if (!related(a.base, b.base) || !related(a.key, b.key) || !related(a.value, b.value)) {
+    return false;
+  }
+
+  if (a.members !== undefined || b.members !== undefined) {
+    const oldMembers = a.members ?? [];
+    const newMembers = b.members ?? [];
+    return (
+      oldMembers.length === newMembers.length &&
+      oldMembers.every(
+        (member, i) =>
+          member.label === newMembers[i].label &&
+          member.slot === newMembers[i].slot &&
+          member.offset === newMembers[i].offset &&
+          sameType(oldTypes, member.type, newTypes, newMembers[i].type)
+      )
+    );
+  }
+  return true;
+}
+
+/** Compares the layout of a deployed implementation with the one replacing it */
+export function compareStorageLayouts(oldLayout: StorageLayout, newLayout: StorageLayout): StorageLayoutReport {
+  const changes: StorageChange[] = [];
+  const matched = new Set<StorageEntry>();
+  const typeLabel = (layout: StorageLayout, entry: StorageEntry) => layout.types?.[entry.type]?.label ?? entry.type;
+
+  let oldEnd = 0n;
+  for (const entry of oldLayout.storage) {
+    const end = BigInt(entry.slot) + slotCount(oldLayout.types, entry);
+    if (end > oldEnd) oldEnd = end;
+  }
+
+  for (const oldEntry of oldLayout.storage) {
+    const slot = BigInt(oldEntry.slot);
+    const current = newLayout.storage.find(
+      (entry) => BigInt(entry.slot) === slot && entry.offset === oldEntry.offset
+    );
+
+    if (isGap(oldEntry)) {
+      // A gap may shrink from the front as long as it still ends where it used to
+      const gapEnd = slot + slotCount(oldLayout.types, oldEntry);
+      const shrunk = newLayout.storage.find(
+        (entry) =>
+          isGap(entry) &&
+          BigInt(entry.slot) >= slot &&
+          BigInt(entry.slot) + slotCount(newLayout.types, entry) === gapEnd
+      );
+      const carved = newLayout.storage.filter(
+        (entry) => !isGap(entry) && BigInt(entry.slot) >= slot && BigInt(entry.slot) < gapEnd
+      );
+
+      if (shrunk !== undefined && carved.every((entry) => BigInt(entry.slot) < BigInt(shrunk.slot))) {
+        matched.add(shrunk);
+        for (const entry of carved) {
+          matched.add(entry);
+          changes.push({
+            kind: "gap",
+            slot: BigInt(entry.slot),
+            offset: entry.offset,
+            label: entry.label,
+            detail: `${typeLabel(newLayout, entry)} takes space from ${oldEntry.label}`,
+          });
+        }
+        continue;
+      }
+    }
+
+    if (current === undefined) {
+      changes.push({
+        kind: "removed",
+        slot,
+        offset: oldEntry.offset,
+        label: oldEntry.label,
+        detail: `${typeLabel(oldLayout, oldEntry)} no longer has a variable at this position`,
+      });
+      continue;
+    }
+
+    matched.add(current);
+    const typeMatches = sameType(oldLayout.types, oldEntry.type, newLayout.types, current.type);
+
+    if (typeMatches && current.label === oldEntry.label) {
+      continue;
+    }
+    if (typeMatches) {
+      changes.push({
+        kind: "renamed",
+        slot,
+        offset: oldEntry.offset,
+        label: current.label,
+        detail: `was ${oldEntry.label}`,
+      });
+    } else if (current.label === oldEntry.label) {
+      changes.push({
+        kind: "retyped",
+        slot,
+        offset: oldEntry.offset,
+        label: current.label,
+        detail: `${typeLabel(oldLayout, oldEntry)} → ${typeLabel(newLayout, current)}`,
+      });
+    } else {
+      changes.push({
+        kind: "reordered",
+        slot,
+        offset: oldEntry.offset,
+        label: current.label,
+        detail: `replaces ${oldEntry.label} (${typeLabel(oldLayout, oldEntry)})`,
+      });
+    }
+  }
+
+  for (const entry of newLayout.storage) {
+    if (matched.has(entry)) continue;
+    const slot = BigInt(entry.slot);
+    changes.push({
+      kind: slot >= oldEnd ? "appended" : "reordered",
+      slot,
+      offset: entry.offset,
+      label: entry.label,
+      detail: slot >= oldEnd ? typeLabel(newLayout, entry) : `${typeLabel(newLayout, entry)} inserted inside the old layout`,
+    });
+  }
+
+  changes.sort((a, b) => (a.slot === b.slot ? a.offset - b.offset : a.slot < b.slot ? -1 : 1));
+
+  return {
+    compatible: changes.every((change) => !UNSAFE.has(change.kind)),
+    changes,
+  };
+}
+
+/** Human-readable report, one line per change */
+export function formatStorageLayoutReport(report: StorageLayoutReport): string {
+  const lines = report.changes.map(
+    (change) =>
+      `  ${UNSAFE.has(change.kind) ? "✗" : "✓"} ${change.kind.padEnd(9)} slot ${change.slot}` +
+      `${change.offset > 0 ? `+${change.offset}` : ""}  ${change.label}  ${change.detail}`
+  );
+  if (lines.length === 0) {
+    lines.push("  ✓ layouts are identical");
+  }
+  lines.push(report.compatible ? "Storage layout is upgrade-compatible" : "Storage layout is NOT upgrade-compatible");
+  return lines.join("\n");
+}
+
+/**
+ * Throws with the full report when `next` cannot safely replace `current` behind a proxy.
+ * `current` is a snapshot path or a fully qualified name, as in `resolveStorageLayout`.
+ */
+export function assertStorageUpgradeSafe(artifactsDir: string, current: string, next: string): StorageLayoutReport {
+  const report = compareStorageLayouts(resolveStorageLayout(artifactsDir, current), readStorageLayout(artifactsDir, next));
+  if (!report.compatible) {
+    throw new Error(`Unsafe upgrade ${current} → ${next}\n${formatStorageLayoutReport(report)}`);
+  }
+  return report;
+}
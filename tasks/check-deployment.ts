@@ -0,0 +1,66 @@
+import { readFile } from "node:fs/promises";
+import { join } from "node:path";
+
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+import { getAddress, type Address } from "viem";
+
+import {
+  addressesFromIgnition,
+  checkDeployment,
+  formatDeploymentReport,
+  parseDeploymentAddresses,
+} from "../sdk/deployment-check.js";
+
+interface CheckDeploymentTaskArguments {
+  deploymentId: string;
+  addresses: string;
+  owner: string;
+  admins: string;
+  crystalsName: string;
+}
+
+// Asserts the post-deploy configuration of a deployment and fails on any drift
+export default async function checkDeploymentTask(
+  { deploymentId, addresses, owner, admins, crystalsName }: CheckDeploymentTaskArguments,
+  hre: HardhatRuntimeEnvironment
+) {
+  if ((deploymentId === "") === (addresses === "")) {
+    throw new Error("Pass either --deployment-id or --addresses");
+  }
+
+  const deployment =
+    deploymentId !== ""
+      ? addressesFromIgnition(
+          JSON.parse(
+            await readFile(join(hre.config.paths.ignition, "deployments", deploymentId, "deployed_addresses.json"), "utf8")
+          )
+        )
+      : parseDeploymentAddresses(JSON.parse(await readFile(addresses, "utf8")));
+
+  const { viem, networkName } = await hre.network.connect();
+  const publicClient = await viem.getPublicClient();
+
+  let expectedOwner: Address;
+  if (owner !== "") {
+    expectedOwner = getAddress(owner);
+  } else {
+    const [deployer] = await viem.getWalletClients();
+    if (deployer === undefined) {
+      throw new Error("No accounts configured; pass --owner");
+    }
+    expectedOwner = deployer.account.address;
+  }
+
+  const report = await checkDeployment(publicClient, deployment, {
+    owner: expectedOwner,
+    admins: admins === "" ? [] : admins.split(",").map((admin) => getAddress(admin.trim())),
+    crystalsName: crystalsName !== "" ? crystalsName : undefined,
+  });
+
+  console.log(`Deployment ${deploymentId !== "" ? deploymentId : addresses} on ${networkName}`);
+  console.log(formatDeploymentReport(report));
+
+  if (!report.passed) {
+    throw new Error("Deployment drift detected");
+  }
+}
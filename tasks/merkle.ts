@@ -0,0 +1,27 @@
+import { readFile, writeFile } from "node:fs/promises";
+
+import {
+  buildRewardDistribution,
+  parseRewardCsv,
+  serializeRewardDistribution,
+} from "../sdk/merkle.js";
+
+interface MerkleTaskArguments {
+  csv: string;
+  out: string;
+}
+
+// Builds a TokenVault reward distribution from an `address,amount` CSV
+export default async function merkleTask({ csv, out }: MerkleTaskArguments) {
+  const entries = parseRewardCsv(await readFile(csv, "utf8"));
+  const distribution = buildRewardDistribution(entries);
+  const json = JSON.stringify(serializeRewardDistribution(distribution), null, 2);
+
+  const outPath = out !== "" ? out : csv.replace(/\.csv$/i, "") + ".merkle.json";
+  await writeFile(outPath, json + "\n");
+
+  console.log(`Root:    ${distribution.root}`);
+  console.log(`Total:   ${distribution.total}`);
+  console.log(`Entries: ${distribution.claims.length}`);
+  console.log(`Proofs written to ${outPath}`);
+}
@@ -0,0 +1,28 @@
+import { writeFile } from "node:fs/promises";
+
+import { computeProvenance } from "../sdk/provenance.js";
+
+interface ProvenanceTaskArguments {
+  dir: string;
+  supply: string;
+  out: string;
+}
+
+// Computes the GenesisNFT provenance hash of a metadata folder
+export default async function provenanceTask({ dir, supply, out }: ProvenanceTaskArguments) {
+  const count = Number(supply);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new Error(`Invalid supply "${supply}"`);
+  }
+
+  const { provenanceHash, files } = await computeProvenance(dir, count);
+
+  console.log(`Provenance: ${provenanceHash}`);
+  console.log(`Files:      ${files.length}`);
+
+  if (out !== "") {
+    const record = { provenanceHash, files: files.map(({ metadataId, hash }) => ({ metadataId, hash })) };
+    await writeFile(out, JSON.stringify(record, null, 2) + "\n");
+    console.log(`File hashes written to ${out}`);
+  }
+}
@@ -0,0 +1,50 @@
+import type { HardhatRuntimeEnvironment } from "hardhat/types/hre";
+
+import {
+  compareStorageLayouts,
+  formatStorageLayoutReport,
+  readStorageLayout,
+  readStorageLayoutSnapshot,
+  writeStorageLayoutSnapshot,
+} from "../sdk/storage-layout.js";
+
+interface StorageLayoutTaskArguments {
+  current: string;
+  next: string;
+  record: string;
+}
+
+// Compares the storage layout of a deployed implementation (or its recorded snapshot) with the one replacing it
+export default async function storageLayoutTask(
+  { current, next, record }: StorageLayoutTaskArguments,
+  hre: HardhatRuntimeEnvironment
+) {
+  await hre.tasks.getTask("build").run({ quiet: true });
+
+  const fullyQualifiedName = async (name: string) => {
+    const artifact = await hre.artifacts.readArtifact(name);
+    return `${artifact.sourceName}:${artifact.contractName}`;
+  };
+
+  const currentSnapshot = current.endsWith(".json") ? readStorageLayoutSnapshot(current) : undefined;
+  const currentName = currentSnapshot === undefined ? await fullyQualifiedName(current) : `${current} (${currentSnapshot.contract})`;
+  const nextName = await fullyQualifiedName(next);
+
+  const nextLayout = readStorageLayout(hre.config.paths.artifacts, nextName);
+  const report = compareStorageLayouts(
+    currentSnapshot ?? readStorageLayout(hre.config.paths.artifacts, currentName),
+    nextLayout
+  );
+
+  console.log(`${currentName} → ${nextName}`);
+  console.log(formatStorageLayoutReport(report));
+
+  if (!report.compatible) {
+    throw new Error("Incompatible storage layout");
+  }
+
+  if (record !== "") {
+    writeStorageLayoutSnapshot(record, nextName, nextLayout);
+    console.log(`Recorded the layout of ${nextName} in ${record}`);
+  }
+}
@@ -0,0 +1,138 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import { encodeFunctionData } from "viem";
+
+const { viem } = await network.connect();
+
+describe("ArtifactForge", () => {
+  async function deployFixture() {
+    const [owner, user, other] = await viem.getWalletClients();
+
+    const artifacts = await viem.deployContract("ArtifactsERC1155", []);
+
+    // Crystals behind a UUPS proxy, as on mainnet
+    const crystalsImpl = await viem.deployContract("CrystalsV2", []);
+    const initData = encodeFunctionData({
+      abi: crystalsImpl.abi,
+      functionName: "initialize",
+      args: ["Crystals", "CRYS"],
+    });
+    const proxy = await viem.deployContract("ProxyExample", [crystalsImpl.address, initData]);
+    const crystals = await viem.getContractAt("CrystalsV2", proxy.address);
+
+    const forge = await viem.deployContract("ArtifactForge", [artifacts.address, crystals.address]);
+
+    // Forge needs to mint outputs and burn Crystals
+    await artifacts.write.grantRole([await artifacts.read.MINTER_ROLE(), forge.address], { account: owner.account });
+    await crystals.write.grantRole([await crystals.read.BURNER_ROLE(), forge.address], { account: owner.account });
+
+    // 1 = Iron Shard, 2 = Fire Essence, 10 = Flame Sword
+    for (const id of [1n, 2n, 10n]) {
+      await artifacts.write.setArtifactType([id, 0n, 0n, 0n, true], { account: owner.account });
+    }
+
+    // Player inventory
+    await artifacts.write.mintBatch([user.account.address, [1n, 2n], [5n, 2n]], { account: owner.account });
+    await crystals.write.mint([user.account.address, 1000n], { account: owner.account });
+    await artifacts.write.setApprovalForAll([forge.address, true], { account: user.account });
+
+    return { artifacts, crystals, forge, owner, user, other };
+  }
+
+  async function expectRevert(tx: Promise<any>, reason?: string) {
+    let reverted = false;
+    try {
+      await tx;
+    } catch (err: any) {
+      reverted = true;
+      if (reason) expect(err.message).to.include(reason);
+    }
+    expect(reverted).to.be.true;
+  }
+
+  it("✅ owner can add a recipe", async () => {
+    const { forge, owner } = await deployFixture();
+
+    await forge.write.addRecipe([[1n, 2n], [3n, 1n], 100n, 10n, 1n], { account: owner.account });
+
+    expect(await forge.read.recipeCount()).to.equal(1n);
+
+    const recipe = (await forge.read.getRecipe([1n])) as unknown as {
+      inputIds: bigint[];
+      inputAmounts: bigint[];
+      crystalsCost: bigint;
+      outputId: bigint;
+      outputAmount: bigint;
+      enabled: boolean;
+    };
+    expect(recipe.inputIds).to.deep.equal([1n, 2n]);
+    expect(recipe.inputAmounts).to.deep.equal([3n, 1n]);
+    expect(recipe.crystalsCost).to.equal(100n);
+    expect(recipe.outputId).to.equal(10n);
+    expect(recipe.outputAmount).to.equal(1n);
+    expect(recipe.enabled).to.equal(true);
+  });
+
+  it("✅ craft burns artifacts and Crystals and mints the output", async () => {
+    const { artifacts, crystals, forge, owner, user } = await deployFixture();
+
+    await forge.write.addRecipe([[1n, 2n], [3n, 1n], 100n, 10n, 1n], { account: owner.account });
+    await forge.write.craft([1n], { account: user.account });
+
+    expect(await artifacts.read.balanceOf([user.account.address, 1n])).to.equal(2n);
+    expect(await artifacts.read.balanceOf([user.account.address, 2n])).to.equal(1n);
+    expect(await artifacts.read.balanceOf([user.account.address, 10n])).to.equal(1n);
+    expect(await crystals.read.balanceOf([user.account.address])).to.equal(900n);
+  });
+
+  it("❌ craft reverts atomically when inputs are missing", async () => {
+    const { artifacts, crystals, forge, owner, user } = await deployFixture();
+
+    // Needs 3 Fire Essence, player has 2
+    await forge.write.addRecipe([[1n, 2n], [1n, 3n], 100n, 10n, 1n], { account: owner.account });
+    await expectRevert(forge.write.craft([1n], { account: user.account }));
+
+    // Nothing was burned
+    expect(await artifacts.read.balanceOf([user.account.address, 1n])).to.equal(5n);
+    expect(await crystals.read.balanceOf([user.account.address])).to.equal(1000n);
+
+    // Not enough Crystals
+    await forge.write.addRecipe([[1n], [1n], 5000n, 10n, 1n], { account: owner.account });
+    await expectRevert(forge.write.craft([2n], { account: user.account }));
+    expect(await artifacts.read.balanceOf([user.account.address, 1n])).to.equal(5n);
+  });
+
+  it("❌ craft reverts without approval or for disabled recipes", async () => {
+    const { artifacts, forge, owner, user } = await deployFixture();
+
+    await forge.write.addRecipe([[1n], [1n], 0n, 10n, 1n], { account: owner.account });
+
+    await forge.write.setRecipeEnabled([1n, false], { account: owner.account });
+    await expectRevert(forge.write.craft([1n], { account: user.account }), "Recipe not enabled");
+    await expectRevert(forge.write.craft([2n], { account: user.account }), "Recipe not enabled");
+
+    await forge.write.setRecipeEnabled([1n, true], { account: owner.account });
+    await artifacts.write.setApprovalForAll([forge.address, false], { account: user.account });
+    await expectRevert(forge.write.craft([1n], { account: user.account }), "Caller is not owner nor approved");
+  });
+
+  it("❌ non-owner cannot manage recipes", async () => {
+    const { forge, owner, other } = await deployFixture();
+
+    await expectRevert(
+      forge.write.addRecipe([[1n], [1n], 0n, 10n, 1n], { account: other.account }),
+      "OwnableUnauthorizedAccount"
+    );
+
+    await forge.write.addRecipe([[1n], [1n], 0n, 10n, 1n], { account: owner.account });
+
+    await expectRevert(
+      forge.write.updateRecipe([1n, [2n], [1n], 0n, 10n, 1n], { account: other.account }),
+      "OwnableUnauthorizedAccount"
+    );
+    await expectRevert(
+      forge.write.setRecipeEnabled([1n, false], { account: other.account }),
+      "OwnableUnauthorizedAccount"
+    );
+  });
+});
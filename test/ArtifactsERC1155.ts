@@ -1,5 +1,9 @@
 import { expect } from "chai";
 import { network } from "hardhat";
+import { parseEventLogs } from "viem";
+
+import { attributeValue, decodeSvgImage, decodeTokenMetadata } from "../sdk/metadata.js";
+import { signPermit } from "../sdk/permits.js";
 
 const { viem } = await network.connect();
 
@@ -10,55 +14,19 @@ describe("ArtifactsERC1155", () => {
     // Deploy
     const artifacts = await viem.deployContract("ArtifactsERC1155", []);
 
+    // Register the artifact types used below (unlimited supply, always open)
+    for (const id of [1n, 2n, 3n, 7n, 8n]) {
+      await artifacts.write.setArtifactType([id, 0n, 0n, 0n, true], {
+        account: owner.account,
+      });
+    }
+
     const publicClient = await viem.getPublicClient();
     const chainId = await publicClient.getChainId();
 
     return { artifacts, owner, admin, user, other, chainId };
   }
 
-  async function buildMintSignature({
-    signer,
-    chainId,
-    contractAddress,
-    to,
-    id,
-    amount,
-    nonce,
-  }: {
-    signer: any;
-    chainId: number;
-    contractAddress: string;
-    to: string;
-    id: bigint;
-    amount: bigint;
-    nonce: bigint;
-  }) {
-    const domain = {
-      name: "AdminMintableERC1155",
-      version: "1",
-      chainId,
-      verifyingContract: contractAddress,
-    };
-
-    const types = {
-      MintRequest: [
-        { name: "to", type: "address" },
-        { name: "id", type: "uint256" },
-        { name: "amount", type: "uint256" },
-        { name: "nonce", type: "uint256" },
-      ],
-    };
-
-    const message = { to, id, amount, nonce };
-
-    return signer.signTypedData({
-      domain,
-      types,
-      primaryType: "MintRequest",
-      message,
-    });
-  }
-
   it("✅ deploy with correct name and symbol", async () => {
     const { artifacts } = await deployFixture();
 
@@ -105,18 +73,15 @@ describe("ArtifactsERC1155", () => {
     const id = 1n;
     const amount = 10n;
 
-    const signature = await buildMintSignature({
-      signer: owner,
-      chainId,
-      contractAddress: artifacts.address,
-      to: user.account.address,
-      id,
-      amount,
-      nonce,
-    });
+    const signature = await signPermit(
+      "artifactsMint",
+      owner,
+      { chainId, verifyingContract: artifacts.address },
+      { to: user.account.address, id, amount, nonce, deadline: 0n }
+    );
 
     await artifacts.write.mintWithPermit(
-      [user.account.address, id, amount, nonce, signature],
+      [user.account.address, id, amount, nonce, 0n, signature],
       { account: user.account }
     );
 
@@ -134,18 +99,15 @@ describe("ArtifactsERC1155", () => {
     const id = 1n;
     const amount = 5n;
 
-    const signature = await buildMintSignature({
-      signer: owner,
-      chainId,
-      contractAddress: artifacts.address,
-      to: user.account.address,
-      id,
-      amount,
-      nonce,
-    });
+    const signature = await signPermit(
+      "artifactsMint",
+      owner,
+      { chainId, verifyingContract: artifacts.address },
+      { to: user.account.address, id, amount, nonce, deadline: 0n }
+    );
 
     await artifacts.write.mintWithPermit(
-      [user.account.address, id, amount, nonce, signature],
+      [user.account.address, id, amount, nonce, 0n, signature],
       { account: user.account }
     );
 
@@ -169,21 +131,18 @@ describe("ArtifactsERC1155", () => {
     const amount = 10n;
 
     // Signs not the owner nor admin
-    const signature = await buildMintSignature({
-      signer: other,
-      chainId,
-      contractAddress: artifacts.address,
-      to: user.account.address,
-      id,
-      amount,
-      nonce,
-    });
+    const signature = await signPermit(
+      "artifactsMint",
+      other,
+      { chainId, verifyingContract: artifacts.address },
+      { to: user.account.address, id, amount, nonce, deadline: 0n }
+    );
 
     // The attempt to mint should fail with a revert.
     let reverted = false;
     try {
       await artifacts.write.mintWithPermit(
-        [user.account.address, id, amount, nonce, signature],
+        [user.account.address, id, amount, nonce, 0n, signature],
         { account: user.account }
       );
     } catch {
@@ -192,4 +151,625 @@ describe("ArtifactsERC1155", () => {
 
     expect(reverted).to.be.true;
   });
-});
\ No newline at end of file
+
+  it("✅ mintBatchWithPermit mints several ids under one nonce", async () => {
+    const { artifacts, owner, user, chainId } = await deployFixture();
+
+    const nonce = (await artifacts.read.nonces([user.account.address])) as unknown as bigint;
+    const ids = [1n, 2n, 3n];
+    const amounts = [5n, 1n, 2n];
+    const deadline = 0n;
+
+    const signature = await signPermit(
+      "artifactsMintBatch",
+      owner,
+      { chainId, verifyingContract: artifacts.address },
+      { to: user.account.address, ids, amounts, nonce, deadline }
+    );
+
+    await artifacts.write.mintBatchWithPermit(
+      [user.account.address, ids, amounts, nonce, deadline, signature],
+      { account: user.account }
+    );
+
+    const balances = await artifacts.read.balanceOfBatch([
+      [user.account.address, user.account.address, user.account.address],
+      ids,
+    ]);
+    expect(balances).to.deep.equal(amounts);
+    expect(await artifacts.read.nonces([user.account.address])).to.equal(nonce + 1n);
+  });
+
+  it("❌ mintBatchWithPermit reverts on expired deadline, length mismatch or replay", async () => {
+    const { artifacts, owner, user, chainId } = await deployFixture();
+
+    async function expectRevert(tx: Promise<any>) {
+      let reverted = false;
+      try {
+        await tx;
+      } catch {
+        reverted = true;
+      }
+      expect(reverted).to.be.true;
+    }
+
+    const domain = { chainId, verifyingContract: artifacts.address };
+    const to = user.account.address;
+
+    // Deadline already in the past
+    const expired = await signPermit("artifactsMintBatch", owner, domain, {
+      to, ids: [1n], amounts: [1n], nonce: 0n, deadline: 1n,
+    });
+    await expectRevert(
+      artifacts.write.mintBatchWithPermit([to, [1n], [1n], 0n, 1n, expired], { account: user.account })
+    );
+
+    // ids and amounts of different length
+    const mismatched = await signPermit("artifactsMintBatch", owner, domain, {
+      to, ids: [1n, 2n], amounts: [1n], nonce: 0n, deadline: 0n,
+    });
+    await expectRevert(
+      artifacts.write.mintBatchWithPermit([to, [1n, 2n], [1n], 0n, 0n, mismatched], { account: user.account })
+    );
+
+    // Same signature cannot be used twice
+    const valid = await signPermit("artifactsMintBatch", owner, domain, {
+      to, ids: [1n, 2n], amounts: [1n, 1n], nonce: 0n, deadline: 0n,
+    });
+    await artifacts.write.mintBatchWithPermit([to, [1n, 2n], [1n, 1n], 0n, 0n, valid], { account: user.account });
+    await expectRevert(
+      artifacts.write.mintBatchWithPermit([to, [1n, 2n], [1n, 1n], 0n, 0n, valid], { account: user.account })
+    );
+  });
+
+  it("✅ admin can airdrop with mintBatch, others cannot", async () => {
+    const { artifacts, owner, admin, user, other } = await deployFixture();
+
+    await artifacts.write.setAdmin([admin.account.address, true], {
+      account: owner.account,
+    });
+
+    await artifacts.write.mintBatch([user.account.address, [7n, 8n], [3n, 4n]], {
+      account: admin.account,
+    });
+
+    expect(await artifacts.read.balanceOf([user.account.address, 7n])).to.equal(3n);
+    expect(await artifacts.read.balanceOf([user.account.address, 8n])).to.equal(4n);
+
+    let reverted = false;
+    try {
+      await artifacts.write.mintBatch([other.account.address, [7n], [1n]], {
+        account: other.account,
+      });
+    } catch {
+      reverted = true;
+    }
+    expect(reverted).to.be.true;
+  });
+
+  it("✅ owner can register an artifact type with a capped supply", async () => {
+    const { artifacts, owner, user } = await deployFixture();
+
+    await artifacts.write.setArtifactType([42n, 10n, 0n, 0n, true], {
+      account: owner.account,
+    });
+
+    expect(await artifacts.read.remaining([42n])).to.equal(10n);
+
+    await artifacts.write.mintBatch([user.account.address, [42n], [4n]], {
+      account: owner.account,
+    });
+
+    expect(await artifacts.read.totalSupply([42n])).to.equal(4n);
+    expect(await artifacts.read.remaining([42n])).to.equal(6n);
+
+    // Burning reduces the circulating supply but does not free up mintable supply
+    await artifacts.write.burn([user.account.address, 42n, 1n], {
+      account: user.account,
+    });
+    expect(await artifacts.read.totalSupply([42n])).to.equal(3n);
+    expect(await artifacts.read.remaining([42n])).to.equal(6n);
+  });
+
+  it("❌ mints revert for unregistered, disabled, closed or sold-out artifacts", async () => {
+    const { artifacts, owner, user, chainId } = await deployFixture();
+
+    async function expectRevert(tx: Promise<any>, reason: string) {
+      let reverted = false;
+      try {
+        await tx;
+      } catch (err: any) {
+        reverted = true;
+        expect(err.message).to.include(reason);
+      }
+      expect(reverted).to.be.true;
+    }
+
+    const mintWithPermit = async (id: bigint, amount: bigint) => {
+      const nonce = (await artifacts.read.nonces([user.account.address])) as unknown as bigint;
+      const signature = await signPermit(
+        "artifactsMint",
+        owner,
+        { chainId, verifyingContract: artifacts.address },
+        { to: user.account.address, id, amount, nonce, deadline: 0n }
+      );
+      return artifacts.write.mintWithPermit(
+        [user.account.address, id, amount, nonce, 0n, signature],
+        { account: user.account }
+      );
+    };
+
+    await expectRevert(mintWithPermit(100n, 1n), "Artifact not registered");
+
+    await artifacts.write.setArtifactType([100n, 0n, 0n, 0n, false], { account: owner.account });
+    await expectRevert(mintWithPermit(100n, 1n), "Artifact disabled");
+
+    const publicClient = await viem.getPublicClient();
+    const { timestamp } = await publicClient.getBlock();
+
+    await artifacts.write.setArtifactType([100n, 0n, timestamp + 3600n, 0n, true], { account: owner.account });
+    await expectRevert(mintWithPermit(100n, 1n), "Mint not started");
+
+    await artifacts.write.setArtifactType([100n, 0n, 0n, timestamp - 1n, true], { account: owner.account });
+    await expectRevert(mintWithPermit(100n, 1n), "Mint ended");
+
+    await artifacts.write.setArtifactType([100n, 3n, 0n, 0n, true], { account: owner.account });
+    await mintWithPermit(100n, 2n);
+    await expectRevert(mintWithPermit(100n, 2n), "Max supply exceeded");
+    await expectRevert(
+      artifacts.write.mintBatch([user.account.address, [1n, 100n], [1n, 2n]], { account: owner.account }),
+      "Max supply exceeded"
+    );
+
+    expect(await artifacts.read.remaining([100n])).to.equal(1n);
+  });
+
+  it("✅ minting opens once the window starts", async () => {
+    const { artifacts, owner, user } = await deployFixture();
+
+    const publicClient = await viem.getPublicClient();
+    const testClient = await viem.getTestClient();
+    const { timestamp } = await publicClient.getBlock();
+
+    await artifacts.write.setArtifactType([50n, 0n, timestamp + 3600n, timestamp + 7200n, true], {
+      account: owner.account,
+    });
+
+    await testClient.increaseTime({ seconds: 3600 });
+    await testClient.mine({ blocks: 1 });
+
+    await artifacts.write.mintBatch([user.account.address, [50n], [1n]], {
+      account: owner.account,
+    });
+    expect(await artifacts.read.balanceOf([user.account.address, 50n])).to.equal(1n);
+  });
+
+  it("❌ non-owner cannot register artifact types", async () => {
+    const { artifacts, admin } = await deployFixture();
+
+    let reverted = false;
+    try {
+      await artifacts.write.setArtifactType([9n, 0n, 0n, 0n, true], {
+        account: admin.account,
+      });
+    } catch {
+      reverted = true;
+    }
+    expect(reverted).to.be.true;
+  });
+
+  it("❌ mintWithPermit reverts once the deadline has passed", async () => {
+    const { artifacts, owner, user, chainId } = await deployFixture();
+
+    const publicClient = await viem.getPublicClient();
+    const { timestamp } = await publicClient.getBlock();
+    const deadline = timestamp - 1n;
+
+    const signature = await signPermit(
+      "artifactsMint",
+      owner,
+      { chainId, verifyingContract: artifacts.address },
+      { to: user.account.address, id: 1n, amount: 1n, nonce: 0n, deadline }
+    );
+
+    let reverted = false;
+    try {
+      await artifacts.write.mintWithPermit(
+        [user.account.address, 1n, 1n, 0n, deadline, signature],
+        { account: user.account }
+      );
+    } catch (err: any) {
+      reverted = true;
+      expect(err.message).to.include("Signature expired");
+    }
+    expect(reverted).to.be.true;
+  });
+
+  it("✅ admin or recipient can cancel an outstanding nonce", async () => {
+    const { artifacts, owner, admin, user, other, chainId } = await deployFixture();
+
+    await artifacts.write.setAdmin([admin.account.address, true], {
+      account: owner.account,
+    });
+
+    const leaked = await signPermit(
+      "artifactsMint",
+      owner,
+      { chainId, verifyingContract: artifacts.address },
+      { to: user.account.address, id: 1n, amount: 100n, nonce: 0n, deadline: 0n }
+    );
+
+    // Strangers cannot burn someone else's nonce
+    let reverted = false;
+    try {
+      await artifacts.write.cancelNonce([user.account.address, 0n], { account: other.account });
+    } catch {
+      reverted = true;
+    }
+    expect(reverted).to.be.true;
+
+    await artifacts.write.cancelNonce([user.account.address, 0n], { account: admin.account });
+    expect(await artifacts.read.nonces([user.account.address])).to.equal(1n);
+
+    // The leaked signature is now useless
+    reverted = false;
+    try {
+      await artifacts.write.mintWithPermit(
+        [user.account.address, 1n, 100n, 0n, 0n, leaked],
+        { account: user.account }
+      );
+    } catch {
+      reverted = true;
+    }
+    expect(reverted).to.be.true;
+
+    // The recipient can cancel their own nonce as well
+    await artifacts.write.cancelNonce([user.account.address, 1n], { account: user.account });
+    expect(await artifacts.read.nonces([user.account.address])).to.equal(2n);
+  });
+
+  it("❌ mints, transfers and burns revert while their action is paused", async () => {
+    const { artifacts, owner, admin, user, other } = await deployFixture();
+
+    await artifacts.write.setGuardian([admin.account.address], { account: owner.account });
+    await artifacts.write.mintBatch([user.account.address, [1n], [10n]], { account: owner.account });
+
+    const [mint, transfer, burn, all] = await Promise.all([
+      artifacts.read.MINT_ACTION(),
+      artifacts.read.TRANSFER_ACTION(),
+      artifacts.read.BURN_ACTION(),
+      artifacts.read.PAUSE_ALL(),
+    ]);
+
+    async function expectPaused(tx: Promise<any>) {
+      let reverted = false;
+      try {
+        await tx;
+      } catch (err: any) {
+        reverted = true;
+        expect(err.message).to.include("Action paused");
+      }
+      expect(reverted).to.be.true;
+    }
+
+    const transferOne = () =>
+      artifacts.write.safeTransferFrom([user.account.address, other.account.address, 1n, 1n, "0x"], {
+        account: user.account,
+      });
+
+    await artifacts.write.pause([mint], { account: admin.account });
+    await expectPaused(artifacts.write.mintBatch([user.account.address, [1n], [1n]], { account: owner.account }));
+    await transferOne();
+
+    await artifacts.write.unpause([mint], { account: owner.account });
+    await artifacts.write.pause([transfer], { account: admin.account });
+    await expectPaused(transferOne());
+    await expectPaused(
+      artifacts.write.safeBatchTransferFrom([user.account.address, other.account.address, [1n], [1n], "0x"], {
+        account: user.account,
+      })
+    );
+    await artifacts.write.burn([user.account.address, 1n, 1n], { account: user.account });
+
+    await artifacts.write.unpause([transfer], { account: owner.account });
+    await artifacts.write.pause([burn], { account: admin.account });
+    await expectPaused(artifacts.write.burn([user.account.address, 1n, 1n], { account: user.account }));
+
+    // The guardian cannot lift a pause
+    let reverted = false;
+    try {
+      await artifacts.write.unpause([burn], { account: admin.account });
+    } catch (err: any) {
+      reverted = true;
+      expect(err.message).to.include("Not owner");
+    }
+    expect(reverted).to.be.true;
+
+    await artifacts.write.unpause([burn], { account: owner.account });
+    await artifacts.write.pause([all], { account: admin.account });
+    await expectPaused(artifacts.write.mintBatch([user.account.address, [1n], [1n]], { account: owner.account }));
+    await expectPaused(transferOne());
+    await expectPaused(artifacts.write.burn([user.account.address, 1n, 1n], { account: user.account }));
+  });
+
+  describe("roles", () => {
+    async function expectRevert(tx: Promise<any>, reason: string) {
+      let reverted = false;
+      try {
+        await tx;
+      } catch (err: any) {
+        reverted = true;
+        expect(err.message).to.include(reason);
+      }
+      expect(reverted).to.be.true;
+    }
+
+    it("✅ owner grants and revokes roles, membership is enumerable", async () => {
+      const { artifacts, owner, admin, user, other } = await deployFixture();
+      const minter = await artifacts.read.MINTER_ROLE();
+
+      await expectRevert(
+        artifacts.write.grantRole([minter, other.account.address], { account: admin.account }),
+        "Not owner"
+      );
+
+      await artifacts.write.grantRole([minter, admin.account.address], { account: owner.account });
+      await artifacts.write.grantRole([minter, user.account.address], { account: owner.account });
+
+      expect(await artifacts.read.getRoleMemberCount([minter])).to.equal(2n);
+      const members = ((await artifacts.read.getRoleMembers([minter])) as unknown as string[]).map((a) => a.toLowerCase());
+      expect(members).to.have.members([admin.account.address, user.account.address]);
+
+      await artifacts.write.revokeRole([minter, admin.account.address], { account: owner.account });
+      await artifacts.write.renounceRole([minter], { account: user.account });
+      expect(await artifacts.read.getRoleMemberCount([minter])).to.equal(0n);
+    });
+
+    it("✅ minters mint and sign, but cannot manage metadata", async () => {
+      const { artifacts, owner, admin, user, chainId } = await deployFixture();
+
+      await artifacts.write.grantRole([await artifacts.read.MINTER_ROLE(), admin.account.address], {
+        account: owner.account,
+      });
+
+      await artifacts.write.mintBatch([user.account.address, [1n], [1n]], { account: admin.account });
+
+      const signature = await signPermit(
+        "artifactsMint",
+        admin,
+        { chainId, verifyingContract: artifacts.address },
+        { to: user.account.address, id: 2n, amount: 1n, nonce: 0n, deadline: 0n }
+      );
+      await artifacts.write.mintWithPermit([user.account.address, 2n, 1n, 0n, 0n, signature], {
+        account: user.account,
+      });
+
+      await expectRevert(
+        artifacts.write.setTokenMetadata([1n, "Sword", "ipfs://sword.json"], { account: admin.account }),
+        "Missing role"
+      );
+    });
+
+    it("✅ metadata managers set metadata, but cannot mint or sign", async () => {
+      const { artifacts, owner, admin, user, chainId } = await deployFixture();
+
+      await artifacts.write.grantRole([await artifacts.read.METADATA_MANAGER_ROLE(), admin.account.address], {
+        account: owner.account,
+      });
+
+      await artifacts.write.setTokenMetadata([1n, "Sword", "ipfs://sword.json"], { account: admin.account });
+      expect(await artifacts.read.uri([1n])).to.equal("ipfs://sword.json");
+
+      await artifacts.write.setTokenMetadataBatch(
+        [[2n, 3n], ["Shield", "Helm"], ["ipfs://shield.json", "ipfs://helm.json"]],
+        { account: admin.account }
+      );
+      expect(await artifacts.read.token_name([3n])).to.equal("Helm");
+      expect(await artifacts.read.uri([2n])).to.equal("ipfs://shield.json");
+      await expectRevert(
+        artifacts.write.setTokenMetadataBatch([[2n], ["Shield", "Helm"], ["ipfs://shield.json"]], { account: admin.account }),
+        "Length mismatch"
+      );
+
+      await expectRevert(
+        artifacts.write.mintBatch([user.account.address, [1n], [1n]], { account: admin.account }),
+        "Missing role"
+      );
+
+      const signature = await signPermit(
+        "artifactsMint",
+        admin,
+        { chainId, verifyingContract: artifacts.address },
+        { to: user.account.address, id: 1n, amount: 1n, nonce: 0n, deadline: 0n }
+      );
+      await expectRevert(
+        artifacts.write.mintWithPermit([user.account.address, 1n, 1n, 0n, 0n, signature], { account: user.account }),
+        "Invalid signature"
+      );
+    });
+
+    it("✅ pausers can pause but not unpause", async () => {
+      const { artifacts, owner, admin } = await deployFixture();
+      const mint = await artifacts.read.MINT_ACTION();
+
+      await expectRevert(artifacts.write.pause([mint], { account: admin.account }), "Not guardian");
+
+      await artifacts.write.grantRole([await artifacts.read.PAUSER_ROLE(), admin.account.address], {
+        account: owner.account,
+      });
+      await artifacts.write.pause([mint], { account: admin.account });
+      expect(await artifacts.read.isPaused([mint])).to.equal(true);
+
+      await expectRevert(artifacts.write.unpause([mint], { account: admin.account }), "Not owner");
+    });
+
+    it("✅ setAdmin grants and revokes the minter role", async () => {
+      const { artifacts, owner, admin } = await deployFixture();
+      const minter = await artifacts.read.MINTER_ROLE();
+
+      await artifacts.write.setAdmin([admin.account.address, true], { account: owner.account });
+      expect(await artifacts.read.hasRole([minter, admin.account.address])).to.equal(true);
+      expect(await artifacts.read.hasRole([await artifacts.read.METADATA_MANAGER_ROLE(), admin.account.address]))
+        .to.equal(false);
+
+      await artifacts.write.setAdmin([admin.account.address, false], { account: owner.account });
+      expect(await artifacts.read.hasRole([minter, admin.account.address])).to.equal(false);
+    });
+  });
+
+  describe("on-chain metadata", () => {
+    const sword = {
+      description: 'A blade forged in the "First Flame"',
+      image: "ipfs://sword.png",
+      svg: "",
+      rarity: 2,
+      element: 0,
+      power: 150,
+    };
+
+    async function expectRevert(tx: Promise<any>, reason: string) {
+      let reverted = false;
+      try {
+        await tx;
+      } catch (err: any) {
+        reverted = true;
+        expect(err.message).to.include(reason);
+      }
+      expect(reverted).to.be.true;
+    }
+
+    it("✅ uri switches per id between the stored URI and a rendered JSON document", async () => {
+      const { artifacts, owner } = await deployFixture();
+
+      await artifacts.write.setTokenMetadata([1n, "Sword", "ipfs://sword.json"], { account: owner.account });
+      await artifacts.write.setTokenMetadata([2n, "Shield", "ipfs://shield.json"], { account: owner.account });
+      await artifacts.write.setOnChainMetadata([1n, sword], { account: owner.account });
+      expect(await artifacts.read.uri([1n])).to.equal("ipfs://sword.json");
+
+      await artifacts.write.setMetadataMode([1n, true], { account: owner.account });
+      expect(await artifacts.read.onChainMetadataEnabled([1n])).to.equal(true);
+
+      const metadata = decodeTokenMetadata((await artifacts.read.uri([1n])) as unknown as string);
+      expect(metadata).to.deep.equal({
+        name: "Sword",
+        description: sword.description,
+        image: "ipfs://sword.png",
+        attributes: [
+          { trait_type: "Rarity", value: "Epic" },
+          { trait_type: "Element", value: "Fire" },
+          { trait_type: "Power", display_type: "number", value: 150 },
+        ],
+      });
+      expect(attributeValue(metadata, "Power")).to.equal(150);
+
+      // Other ids keep their stored URI
+      expect(await artifacts.read.uri([2n])).to.equal("ipfs://shield.json");
+
+      await artifacts.write.setMetadataMode([1n, false], { account: owner.account });
+      expect(await artifacts.read.uri([1n])).to.equal("ipfs://sword.json");
+    });
+
+    it("✅ a stored SVG is embedded as the image", async () => {
+      const { artifacts, owner } = await deployFixture();
+      const svg = '<svg xmlns="http://www.w3.org/2000/svg"><circle r="5" fill="gold"/></svg>';
+
+      await artifacts.write.setTokenMetadata([3n, "Relic", ""], { account: owner.account });
+      await artifacts.write.setOnChainMetadata([3n, { ...sword, svg, rarity: 3, element: 3 }], { account: owner.account });
+      await artifacts.write.setMetadataMode([3n, true], { account: owner.account });
+
+      const metadata = decodeTokenMetadata((await artifacts.read.uri([3n])) as unknown as string);
+      expect(decodeSvgImage(metadata.image)).to.equal(svg);
+      expect(attributeValue(metadata, "Rarity")).to.equal("Legendary");
+      expect(attributeValue(metadata, "Element")).to.equal("Air");
+    });
+
+    it("❌ only metadata managers store metadata, with valid attributes", async () => {
+      const { artifacts, owner, admin } = await deployFixture();
+
+      await expectRevert(artifacts.write.setOnChainMetadata([1n, sword], { account: admin.account }), "Missing role");
+      await expectRevert(artifacts.write.setMetadataMode([1n, true], { account: admin.account }), "Missing role");
+      await expectRevert(
+        artifacts.write.setOnChainMetadata([1n, { ...sword, rarity: 4 }], { account: owner.account }),
+        "Invalid rarity"
+      );
+      await expectRevert(
+        artifacts.write.setOnChainMetadata([1n, { ...sword, element: 4 }], { account: owner.account }),
+        "Invalid element"
+      );
+
+      await artifacts.write.grantRole([await artifacts.read.METADATA_MANAGER_ROLE(), admin.account.address], {
+        account: owner.account,
+      });
+      await artifacts.write.setOnChainMetadata([1n, sword], { account: admin.account });
+      expect(await artifacts.read.onChainMetadata([1n])).to.deep.equal(sword);
+    });
+
+    it("❌ the decoder rejects malformed documents", () => {
+      const encode = (json: unknown) =>
+        "data:application/json;base64," + Buffer.from(JSON.stringify(json)).toString("base64");
+      const valid = { name: "Sword", description: "", image: "", attributes: [] };
+
+      expect(() => decodeTokenMetadata("ipfs://sword.json")).to.throw("Expected a data:application/json");
+      expect(() => decodeTokenMetadata(encode({ ...valid, name: 1 }))).to.throw('"name" must be a string');
+      expect(() =>
+        decodeTokenMetadata(encode({ ...valid, attributes: [{ trait_type: "Rarity", value: "Mythic" }] }))
+      ).to.throw("Invalid attribute");
+    });
+  });
+
+  describe("ERC-4906 and royalties", () => {
+    // Returns the token ids of the MetadataUpdate events emitted by a transaction
+    async function metadataUpdates(artifacts: any, tx: Promise<`0x${string}`>) {
+      const publicClient = await viem.getPublicClient();
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: await tx });
+      return (parseEventLogs({ abi: artifacts.abi, logs: receipt.logs, eventName: "MetadataUpdate" }) as any[]).map(
+        (log) => log.args._tokenId
+      );
+    }
+
+    it("✅ every metadata setter emits MetadataUpdate", async () => {
+      const { artifacts } = await deployFixture();
+      const metadata = { description: "", image: "", svg: "", rarity: 0, element: 0, power: 1 };
+
+      expect(await metadataUpdates(artifacts, artifacts.write.setTokenMetadata([1n, "Sword", "ipfs://1.json"]))).to.deep.equal([1n]);
+      expect(
+        await metadataUpdates(artifacts, artifacts.write.setTokenMetadataBatch([[2n, 3n], ["A", "B"], ["ipfs://2", "ipfs://3"]]))
+      ).to.deep.equal([2n, 3n]);
+      expect(await metadataUpdates(artifacts, artifacts.write.setOnChainMetadata([1n, metadata]))).to.deep.equal([1n]);
+      expect(await metadataUpdates(artifacts, artifacts.write.setMetadataMode([1n, true]))).to.deep.equal([1n]);
+    });
+
+    it("✅ supports ERC1155, EIP-2981 and ERC165, but not the ERC-721-only ERC-4906 ID", async () => {
+      const { artifacts } = await deployFixture();
+
+      for (const interfaceId of ["0x01ffc9a7", "0xd9b67a26", "0x0e89341c", "0x2a55205a"] as const) {
+        expect(await artifacts.read.supportsInterface([interfaceId])).to.equal(true);
+      }
+      for (const interfaceId of ["0x80ac58cd", "0x49064906"] as const) {
+        expect(await artifacts.read.supportsInterface([interfaceId])).to.equal(false);
+      }
+    });
+
+    it("✅ owner sets default and per-token royalties", async () => {
+      const { artifacts, owner, admin, other } = await deployFixture();
+      const royalty = async (tokenId: bigint) =>
+        ((await artifacts.read.royaltyInfo([tokenId, 1_000n])) as unknown as [string, bigint]).map((v) =>
+          typeof v === "string" ? v.toLowerCase() : v
+        );
+
+      await artifacts.write.setDefaultRoyalty([admin.account.address, 250n], { account: owner.account });
+      await artifacts.write.setTokenRoyalty([3n, other.account.address, 750n], { account: owner.account });
+      expect(await royalty(1n)).to.deep.equal([admin.account.address, 25n]);
+      expect(await royalty(3n)).to.deep.equal([other.account.address, 75n]);
+
+      let reverted = false;
+      try {
+        await artifacts.write.setTokenRoyalty([3n, other.account.address, 100n], { account: admin.account });
+      } catch (err: any) {
+        reverted = true;
+        expect(err.message).to.include("Not owner");
+      }
+      expect(reverted).to.be.true;
+    });
+  });
+});
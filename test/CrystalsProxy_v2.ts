@@ -1,6 +1,8 @@
 import { expect } from "chai";
 import { network } from "hardhat";
-import { encodeFunctionData } from "viem";
+import { encodeAbiParameters, encodeFunctionData, getContractAddress, keccak256, pad, zeroAddress } from "viem";
+
+import { signPermit } from "../sdk/permits.js";
 
 const { viem } = await network.connect();
 
@@ -33,47 +35,15 @@ describe("CrystalsV3 via Proxy", () => {
   return { crystals, owner, admin, user, other, chainId };
 }
 
-  async function buildMintSignature({
-    signer,
-    chainId,
-    contractAddress,
-    to,
-    amount,
-    nonce,
-    deadline = 0n,
-  }: {
-    signer: any;
-    chainId: number;
-    contractAddress: string;
-    to: string;
-    amount: bigint;
-    nonce: bigint;
-    deadline?: bigint;
-  }) {
-    const domain = {
-      name: "Crystals",
-      version: "1",
-      chainId,
-      verifyingContract: contractAddress,
-    };
-
-    const types = {
-      Mint: [
-        { name: "to", type: "address" },
-        { name: "amount", type: "uint256" },
-        { name: "nonce", type: "uint256" },
-        { name: "deadline", type: "uint256" },
-      ],
-    };
-
-    const message = { to, amount, nonce, deadline };
-
-    return signer.signTypedData({
-      domain,
-      types,
-      primaryType: "Mint",
-      message,
-    });
+  async function expectRevert(tx: Promise<any>, reason: string) {
+    let reverted = false;
+    try {
+      await tx;
+    } catch (err: any) {
+      reverted = true;
+      expect(err.message).to.include(reason);
+    }
+    expect(reverted).to.be.true;
   }
 
   it("✅ deploy and initialize via proxy", async () => {
@@ -111,14 +81,12 @@ describe("CrystalsV3 via Proxy", () => {
       account: owner.account,
     });
 
-    const signature = await buildMintSignature({
-      signer: owner,
-      chainId,
-      contractAddress: await crystals.address,
-      to,
-      amount,
-      nonce,
-    });
+    const signature = await signPermit(
+      "crystalsMint",
+      owner,
+      { chainId, verifyingContract: crystals.address },
+      { to, amount, nonce, deadline: 0n }
+    );
 
     await crystals.write.mintWithSignature([amount, nonce, 0n, signature], {
       account: user.account,
@@ -139,14 +107,12 @@ describe("CrystalsV3 via Proxy", () => {
       account: owner.account,
     });
 
-    const signature = await buildMintSignature({
-      signer: owner,
-      chainId,
-      contractAddress: await crystals.address,
-      to,
-      amount,
-      nonce,
-    });
+    const signature = await signPermit(
+      "crystalsMint",
+      owner,
+      { chainId, verifyingContract: crystals.address },
+      { to, amount, nonce, deadline: 0n }
+    );
 
     await crystals.write.mintWithSignature([amount, nonce, 0n, signature], {
       account: user.account,
@@ -169,14 +135,12 @@ describe("CrystalsV3 via Proxy", () => {
     const nonce = await crystals.read.nonces([to]) as unknown as bigint;
     const amount = 10n;
 
-    const signature = await buildMintSignature({
-      signer: other,
-      chainId,
-      contractAddress: await crystals.address,
-      to,
-      amount,
-      nonce,
-    });
+    const signature = await signPermit(
+      "crystalsMint",
+      other,
+      { chainId, verifyingContract: crystals.address },
+      { to, amount, nonce, deadline: 0n }
+    );
 
     let reverted = false;
     try {
@@ -188,4 +152,441 @@ describe("CrystalsV3 via Proxy", () => {
     }
     expect(reverted).to.be.true;
   });
+
+  describe("pausing", () => {
+    async function pauseFixture() {
+      const [owner, guardian, user, other] = await viem.getWalletClients();
+
+      const impl = await viem.deployContract("CrystalsV2", []);
+      const initData = encodeFunctionData({
+        abi: impl.abi,
+        functionName: "initialize",
+        args: ["Crystals", "CRYS"],
+      });
+      const proxy = await viem.deployContract("ProxyExample", [impl.address, initData]);
+      const crystals = await viem.getContractAt("CrystalsV2", proxy.address);
+
+      await crystals.write.setAdmin([owner.account.address, true], { account: owner.account });
+      await crystals.write.setGuardian([guardian.account.address], { account: owner.account });
+      await crystals.write.mint([user.account.address, 100n], { account: owner.account });
+
+      const [mint, transfer, burn, all] = await Promise.all([
+        crystals.read.MINT_ACTION(),
+        crystals.read.TRANSFER_ACTION(),
+        crystals.read.BURN_ACTION(),
+        crystals.read.PAUSE_ALL(),
+      ]);
+
+      const publicClient = await viem.getPublicClient();
+      const chainId = await publicClient.getChainId();
+
+      return { crystals, owner, guardian, user, other, chainId, actions: { mint, transfer, burn, all } };
+    }
+
+    async function expectPaused(tx: Promise<any>) {
+      let reverted = false;
+      try {
+        await tx;
+      } catch (err: any) {
+        reverted = true;
+        expect(err.message).to.include("Action paused");
+      }
+      expect(reverted).to.be.true;
+    }
+
+    it("❌ mint and mintWithSignature revert while MINT is paused", async () => {
+      const { crystals, owner, guardian, user, chainId, actions } = await pauseFixture();
+
+      await crystals.write.pause([actions.mint], { account: guardian.account });
+
+      const to = user.account.address;
+      const signature = await signPermit(
+        "crystalsMint",
+        owner,
+        { chainId, verifyingContract: crystals.address },
+        { to, amount: 10n, nonce: 0n, deadline: 0n }
+      );
+
+      await expectPaused(crystals.write.mint([to, 10n], { account: owner.account }));
+      await expectPaused(crystals.write.mintWithSignature([10n, 0n, 0n, signature], { account: user.account }));
+
+      await crystals.write.unpause([actions.mint], { account: owner.account });
+      await crystals.write.mintWithSignature([10n, 0n, 0n, signature], { account: user.account });
+      expect(await crystals.read.balanceOf([to])).to.equal(110n);
+    });
+
+    it("❌ transfers revert while TRANSFER is paused", async () => {
+      const { crystals, guardian, user, other, actions } = await pauseFixture();
+
+      await crystals.write.approve([other.account.address, 10n], { account: user.account });
+      await crystals.write.pause([actions.transfer], { account: guardian.account });
+
+      await expectPaused(crystals.write.transfer([other.account.address, 1n], { account: user.account }));
+      await expectPaused(
+        crystals.write.transferFrom([user.account.address, other.account.address, 1n], { account: other.account })
+      );
+
+      // Burning is a separate action
+      await crystals.write.burn([1n], { account: user.account });
+    });
+
+    it("❌ burn and adminBurnFrom revert while BURN is paused", async () => {
+      const { crystals, owner, guardian, user, actions } = await pauseFixture();
+
+      await crystals.write.pause([actions.burn], { account: guardian.account });
+
+      await expectPaused(crystals.write.burn([1n], { account: user.account }));
+      await expectPaused(crystals.write.adminBurnFrom([user.account.address, 1n], { account: owner.account }));
+    });
+
+    it("✅ only the guardian or owner can pause, only the owner can unpause", async () => {
+      const { crystals, owner, guardian, user, other, actions } = await pauseFixture();
+
+      let reverted = false;
+      try {
+        await crystals.write.pause([actions.all], { account: other.account });
+      } catch (err: any) {
+        reverted = true;
+        expect(err.message).to.include("Not guardian");
+      }
+      expect(reverted).to.be.true;
+
+      await crystals.write.pause([actions.all], { account: guardian.account });
+      await expectPaused(crystals.write.transfer([other.account.address, 1n], { account: user.account }));
+      await expectPaused(crystals.write.mint([user.account.address, 1n], { account: owner.account }));
+
+      reverted = false;
+      try {
+        await crystals.write.unpause([actions.all], { account: guardian.account });
+      } catch (err: any) {
+        reverted = true;
+        expect(err.message).to.include("Not owner");
+      }
+      expect(reverted).to.be.true;
+
+      await crystals.write.unpause([actions.all], { account: owner.account });
+      await crystals.write.transfer([other.account.address, 1n], { account: user.account });
+    });
+  });
+
+  describe("roles", () => {
+    async function rolesFixture() {
+      const [owner, admin, user, other] = await viem.getWalletClients();
+
+      const impl = await viem.deployContract("CrystalsV2", []);
+      const initData = encodeFunctionData({
+        abi: impl.abi,
+        functionName: "initialize",
+        args: ["Crystals", "CRYS"],
+      });
+      const proxy = await viem.deployContract("ProxyExample", [impl.address, initData]);
+      const crystals = await viem.getContractAt("CrystalsV2", proxy.address);
+
+      const [minter, burner, whitelistManager] = await Promise.all([
+        crystals.read.MINTER_ROLE(),
+        crystals.read.BURNER_ROLE(),
+        crystals.read.WHITELIST_MANAGER_ROLE(),
+      ]);
+
+      return { crystals, owner, admin, user, other, roles: { minter, burner, whitelistManager } };
+    }
+
+    it("✅ each role unlocks only its own entry point", async () => {
+      const { crystals, owner, admin, user, other, roles } = await rolesFixture();
+      const to = user.account.address;
+
+      await crystals.write.grantRole([roles.minter, admin.account.address], { account: owner.account });
+      await crystals.write.mint([to, 100n], { account: admin.account });
+      await expectRevert(crystals.write.adminBurnFrom([to, 1n], { account: admin.account }), "Missing role");
+      await expectRevert(
+        crystals.write.setContractWhitelist([other.account.address, true], { account: admin.account }),
+        "Missing role"
+      );
+
+      await crystals.write.grantRole([roles.burner, other.account.address], { account: owner.account });
+      await crystals.write.adminBurnFrom([to, 10n], { account: other.account });
+      await expectRevert(crystals.write.mint([to, 1n], { account: other.account }), "Missing role");
+
+      await crystals.write.grantRole([roles.whitelistManager, user.account.address], { account: owner.account });
+      await crystals.write.setContractWhitelist([crystals.address, true], { account: user.account });
+      await expectRevert(crystals.write.mint([to, 1n], { account: user.account }), "Missing role");
+
+      expect(await crystals.read.balanceOf([to])).to.equal(90n);
+    });
+
+    it("✅ setAdmin grants every admin role and the deployer starts as admin", async () => {
+      const { crystals, owner, admin, roles } = await rolesFixture();
+
+      expect(await crystals.read.admins([owner.account.address])).to.equal(true);
+
+      await crystals.write.setAdmin([admin.account.address, true], { account: owner.account });
+      for (const role of Object.values(roles)) {
+        expect(await crystals.read.hasRole([role, admin.account.address])).to.equal(true);
+      }
+      expect(await crystals.read.getRoleMemberCount([roles.minter])).to.equal(2n);
+    });
+
+    it("✅ migrateAdmins moves pre-roles admins into roles without touching other storage", async () => {
+      const { crystals, owner, admin, user, other, roles } = await rolesFixture();
+      const testClient = await viem.getTestClient();
+
+      await crystals.write.mint([user.account.address, 50n], { account: owner.account });
+      await crystals.write.setContractWhitelist([other.account.address, true], { account: owner.account });
+
+      // Simulate a proxy upgraded from the pre-roles implementation:
+      // `admins` (now `_legacyAdmins`) sits in storage slot 304 of CrystalsV2
+      const legacySlot = keccak256(
+        encodeAbiParameters([{ type: "address" }, { type: "uint256" }], [admin.account.address, 304n])
+      );
+      await testClient.setStorageAt({ address: crystals.address, index: legacySlot, value: pad("0x01") });
+
+      await expectRevert(crystals.write.mint([user.account.address, 1n], { account: admin.account }), "Missing role");
+      await expectRevert(
+        crystals.write.migrateAdmins([[admin.account.address]], { account: admin.account }),
+        "Ownable: caller is not the owner"
+      );
+      await expectRevert(
+        crystals.write.migrateAdmins([[other.account.address]], { account: owner.account }),
+        "Not a legacy admin"
+      );
+
+      await crystals.write.migrateAdmins([[admin.account.address]], { account: owner.account });
+      expect(await crystals.read.hasRole([roles.minter, admin.account.address])).to.equal(true);
+      await crystals.write.mint([user.account.address, 1n], { account: admin.account });
+
+      // Running it twice is rejected, and the neighbouring mappings are untouched
+      await expectRevert(
+        crystals.write.migrateAdmins([[admin.account.address]], { account: owner.account }),
+        "Not a legacy admin"
+      );
+      expect(await crystals.read.balanceOf([user.account.address])).to.equal(51n);
+      expect(await crystals.read.contractWhitelist([other.account.address])).to.equal(true);
+      expect(await crystals.read.nonces([user.account.address])).to.equal(0n);
+    });
+  });
+
+  describe("transfer policy", () => {
+    const POLICY = { contractWhitelist: 0, open: 1, soulbound: 2 } as const;
+
+    async function policyFixture() {
+      const base = await deployFixture();
+      await base.crystals.write.mint([base.user.account.address, 100n], { account: base.owner.account });
+
+      // A deployed contract with no balance or approvals, ready to receive tokens
+      const holder = await viem.deployContract("MaliciousCrystalsHolder", [
+        base.crystals.address,
+        zeroAddress,
+        0n,
+        zeroAddress,
+        0n,
+      ]);
+      return { ...base, holder };
+    }
+
+    it("❌ constructor-time approve and transferFrom no longer bypass the whitelist", async () => {
+      const { crystals, user, other } = await policyFixture();
+      const publicClient = await viem.getPublicClient();
+      expect(await crystals.read.transferPolicy()).to.equal(POLICY.contractWhitelist);
+
+      await expectRevert(
+        viem.deployContract("MaliciousCrystalsHolder", [crystals.address, other.account.address, 10n, zeroAddress, 0n]),
+        "Contract not whitelisted"
+      );
+
+      // The user approves an address with no code yet; the contract deployed there pulls from its constructor
+      const [deployer] = await viem.getWalletClients();
+      const nonce = await publicClient.getTransactionCount({ address: deployer.account.address });
+      const predicted = getContractAddress({ from: deployer.account.address, nonce: BigInt(nonce) });
+      await crystals.write.approve([predicted, 10n], { account: user.account });
+
+      await expectRevert(
+        viem.deployContract("MaliciousCrystalsHolder", [crystals.address, zeroAddress, 0n, user.account.address, 10n]),
+        "Contract not whitelisted"
+      );
+      expect(await crystals.read.balanceOf([user.account.address])).to.equal(100n);
+    });
+
+    it("✅ tokens sent to a contract before it was deployed stay put until it is whitelisted or burned", async () => {
+      const { crystals, owner, user, other } = await policyFixture();
+      const publicClient = await viem.getPublicClient();
+
+      const [deployer] = await viem.getWalletClients();
+      const nonce = await publicClient.getTransactionCount({ address: deployer.account.address });
+      const predicted = getContractAddress({ from: deployer.account.address, nonce: BigInt(nonce) });
+      await crystals.write.transfer([predicted, 20n], { account: user.account });
+
+      const holder = await viem.deployContract("MaliciousCrystalsHolder", [crystals.address, zeroAddress, 0n, zeroAddress, 0n]);
+      expect(holder.address.toLowerCase()).to.equal(predicted.toLowerCase());
+
+      await expectRevert(holder.write.transfer([other.account.address, 5n]), "Contract not whitelisted");
+      await expectRevert(holder.write.approve([other.account.address, 5n]), "Contract not whitelisted");
+
+      // Burns are exempt, and whitelisting releases the rest
+      await crystals.write.adminBurnFrom([holder.address, 5n], { account: owner.account });
+      await crystals.write.setContractWhitelist([holder.address, true], { account: owner.account });
+      await holder.write.transfer([other.account.address, 5n]);
+      expect(await crystals.read.balanceOf([holder.address])).to.equal(10n);
+    });
+
+    it("❌ non-whitelisted contracts cannot receive, send or be approved", async () => {
+      const { crystals, owner, user, holder } = await policyFixture();
+
+      await expectRevert(crystals.write.transfer([holder.address, 1n], { account: user.account }), "Contract not whitelisted");
+      await expectRevert(crystals.write.mint([holder.address, 1n], { account: owner.account }), "Contract not whitelisted");
+      await expectRevert(crystals.write.approve([holder.address, 1n], { account: user.account }), "Contract not whitelisted");
+      // Revoking an allowance is always possible
+      await crystals.write.approve([holder.address, 0n], { account: user.account });
+
+      // Whitelisted, the contract can hold and move tokens again
+      await crystals.write.setContractWhitelist([holder.address, true], { account: owner.account });
+      await crystals.write.approve([holder.address, 20n], { account: user.account });
+      await holder.write.transferFrom([user.account.address, holder.address, 20n]);
+      await holder.write.transfer([user.account.address, 5n]);
+      expect(await crystals.read.balanceOf([holder.address])).to.equal(15n);
+
+      // Removed from the whitelist, its balance is frozen
+      await crystals.write.setContractWhitelist([holder.address, false], { account: owner.account });
+      await expectRevert(crystals.write.transfer([holder.address, 1n], { account: user.account }), "Contract not whitelisted");
+      await expectRevert(holder.write.transfer([user.account.address, 1n]), "Contract not whitelisted");
+    });
+
+    it("✅ open policy lifts every restriction", async () => {
+      const { crystals, owner, user, other, holder } = await policyFixture();
+
+      await expectRevert(
+        crystals.write.setTransferPolicy([POLICY.open], { account: user.account }),
+        "Ownable: caller is not the owner"
+      );
+      await crystals.write.setTransferPolicy([POLICY.open], { account: owner.account });
+
+      await viem.deployContract("MaliciousCrystalsHolder", [crystals.address, other.account.address, 10n, zeroAddress, 0n]);
+      await crystals.write.transfer([holder.address, 10n], { account: user.account });
+      await holder.write.transfer([other.account.address, 10n]);
+      expect(await crystals.read.balanceOf([other.account.address])).to.equal(10n);
+    });
+
+    it("✅ soulbound policy only allows moves to and from whitelisted game contracts", async () => {
+      const { crystals, owner, user, other, holder } = await policyFixture();
+      await crystals.write.setTransferPolicy([POLICY.soulbound], { account: owner.account });
+      expect(await crystals.read.transferPolicy()).to.equal(POLICY.soulbound);
+
+      await expectRevert(
+        crystals.write.transfer([other.account.address, 1n], { account: user.account }),
+        "Soulbound: transfer not allowed"
+      );
+      await expectRevert(crystals.write.transfer([holder.address, 1n], { account: user.account }), "Contract not whitelisted");
+
+      await crystals.write.setContractWhitelist([holder.address, true], { account: owner.account });
+      await crystals.write.transfer([holder.address, 30n], { account: user.account });
+      await holder.write.transfer([other.account.address, 10n]);
+
+      // A holder's approval lets a game contract pull, but not forward to another player
+      await crystals.write.approve([holder.address, 20n], { account: user.account });
+      await expectRevert(
+        holder.write.transferFrom([user.account.address, other.account.address, 5n]),
+        "Soulbound: transfer not allowed"
+      );
+      await holder.write.transferFrom([user.account.address, holder.address, 5n]);
+
+      // Mints and burns are unaffected
+      await crystals.write.mint([other.account.address, 1n], { account: owner.account });
+      await crystals.write.burn([1n], { account: other.account });
+      expect(await crystals.read.balanceOf([user.account.address])).to.equal(65n);
+      expect(await crystals.read.balanceOf([other.account.address])).to.equal(10n);
+    });
+  });
+
+  describe("mint caps", () => {
+    async function capsFixture() {
+      const base = await deployFixture();
+      const { crystals, owner, admin, chainId } = base;
+      await crystals.write.setAdmin([admin.account.address, true], { account: owner.account });
+
+      // Signature mint for `player`, signed by `signer`
+      const signedMint = async (signer: typeof admin, player: typeof admin, amount: bigint) => {
+        const nonce = (await crystals.read.nonces([player.account.address])) as unknown as bigint;
+        const signature = await signPermit(
+          "crystalsMint",
+          signer,
+          { chainId, verifyingContract: crystals.address },
+          { to: player.account.address, amount, nonce, deadline: 0n }
+        );
+        return crystals.write.mintWithSignature([amount, nonce, 0n, signature], { account: player.account });
+      };
+
+      return { ...base, signedMint };
+    }
+
+    it("✅ caps are unlimited by default", async () => {
+      const { crystals, admin } = await capsFixture();
+      const max = 2n ** 256n - 1n;
+
+      expect(await crystals.read.maxSupply()).to.equal(0n);
+      expect(await crystals.read.epochDuration()).to.equal(24n * 60n * 60n);
+      expect(await crystals.read.remainingSupply()).to.equal(max);
+      expect(await crystals.read.remainingEpochEmission()).to.equal(max);
+      expect(await crystals.read.remainingMinterAllowance([admin.account.address])).to.equal(max);
+    });
+
+    it("❌ minting past the max supply reverts", async () => {
+      const { crystals, owner, admin, user, signedMint } = await capsFixture();
+
+      await crystals.write.setMaxSupply([150n], { account: owner.account });
+      await crystals.write.mint([user.account.address, 100n], { account: admin.account });
+      expect(await crystals.read.remainingSupply()).to.equal(50n);
+
+      await expectRevert(signedMint(admin, user, 51n), "Max supply exceeded");
+      await signedMint(admin, user, 50n);
+      await expectRevert(crystals.write.mint([user.account.address, 1n], { account: owner.account }), "Max supply exceeded");
+
+      // Burning frees room again; the ceiling cannot drop below the current supply
+      await crystals.write.burn([10n], { account: user.account });
+      expect(await crystals.read.remainingSupply()).to.equal(10n);
+      await expectRevert(crystals.write.setMaxSupply([139n], { account: owner.account }), "Below total supply");
+    });
+
+    it("❌ direct and signature mints share the epoch budget, which resets next epoch", async () => {
+      const { crystals, owner, admin, user, other, signedMint } = await capsFixture();
+      const testClient = await viem.getTestClient();
+
+      await crystals.write.setEmissionBudget([100n], { account: owner.account });
+      await crystals.write.mint([other.account.address, 60n], { account: admin.account });
+      await expectRevert(signedMint(admin, user, 41n), "Epoch budget exceeded");
+      await signedMint(owner, user, 40n);
+      expect(await crystals.read.remainingEpochEmission()).to.equal(0n);
+
+      await testClient.increaseTime({ seconds: 24 * 60 * 60 });
+      await testClient.mine({ blocks: 1 });
+
+      expect(await crystals.read.remainingEpochEmission()).to.equal(100n);
+      await crystals.write.mint([other.account.address, 100n], { account: admin.account });
+      expect(await crystals.read.totalSupply()).to.equal(200n);
+    });
+
+    it("❌ a minter's allowance bounds both its direct mints and the mints it signs", async () => {
+      const { crystals, owner, admin, user, signedMint } = await capsFixture();
+
+      await crystals.write.setMinterAllowance([admin.account.address, 30n], { account: owner.account });
+      await crystals.write.mint([user.account.address, 20n], { account: admin.account });
+      expect(await crystals.read.remainingMinterAllowance([admin.account.address])).to.equal(10n);
+
+      await expectRevert(signedMint(admin, user, 11n), "Minter allowance exceeded");
+      await signedMint(admin, user, 10n);
+      await expectRevert(crystals.write.mint([user.account.address, 1n], { account: admin.account }), "Minter allowance exceeded");
+
+      // Other minters are not affected
+      await crystals.write.mint([user.account.address, 100n], { account: owner.account });
+      expect(await crystals.read.mintedByMinter([await crystals.read.currentEpoch(), admin.account.address])).to.equal(30n);
+    });
+
+    it("❌ only the owner configures caps", async () => {
+      const { crystals, admin } = await capsFixture();
+      const reason = "Ownable: caller is not the owner";
+
+      await expectRevert(crystals.write.setMaxSupply([1n], { account: admin.account }), reason);
+      await expectRevert(crystals.write.setEmissionBudget([1n], { account: admin.account }), reason);
+      await expectRevert(crystals.write.setMinterAllowance([admin.account.address, 1n], { account: admin.account }), reason);
+      await expectRevert(crystals.write.setEpochDuration([60n], { account: admin.account }), reason);
+    });
+  });
 });
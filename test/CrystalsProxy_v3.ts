@@ -0,0 +1,249 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import { domainSeparator, encodeAbiParameters, encodeFunctionData, keccak256, pad } from "viem";
+
+import CrystalsV3Module from "../ignition/modules/CrystalsV3.js";
+import { signErc20Permit, signPermit } from "../sdk/permits.js";
+import { ROLES } from "../sdk/roles.js";
+
+const { viem, ignition } = await network.connect();
+
+describe("CrystalsV3 upgrade", () => {
+  // A V2 proxy with balances, a used nonce, an extra admin and a whitelisted contract
+  async function liveV2Fixture() {
+    const [owner, admin, user, other] = await viem.getWalletClients();
+
+    const v2Impl = await viem.deployContract("CrystalsV2", []);
+    const initData = encodeFunctionData({
+      abi: v2Impl.abi,
+      functionName: "initialize",
+      args: ["Crystals", "CRYS"],
+    });
+    const proxy = await viem.deployContract("ProxyExample", [v2Impl.address, initData]);
+    const crystals = await viem.getContractAt("CrystalsV2", proxy.address);
+
+    const publicClient = await viem.getPublicClient();
+    const chainId = await publicClient.getChainId();
+
+    await crystals.write.setAdmin([admin.account.address, true], { account: owner.account });
+    await crystals.write.setContractWhitelist([v2Impl.address, true], { account: owner.account });
+    await crystals.write.mint([other.account.address, 40n], { account: admin.account });
+
+    const signature = await signPermit(
+      "crystalsMint",
+      admin,
+      { chainId, verifyingContract: crystals.address },
+      { to: user.account.address, amount: 100n, nonce: 0n, deadline: 0n }
+    );
+    await crystals.write.mintWithSignature([100n, 0n, 0n, signature], { account: user.account });
+
+    return { crystals, proxy, owner, admin, user, other, chainId, whitelisted: v2Impl.address };
+  }
+
+  async function upgrade(proxy: `0x${string}`, contractURI: string, legacyAdmins: `0x${string}`[]) {
+    const [owner] = await viem.getWalletClients();
+    const v3Impl = await viem.deployContract("CrystalsV3", []);
+    const v2 = await viem.getContractAt("CrystalsV2", proxy);
+
+    const initData = encodeFunctionData({
+      abi: v3Impl.abi,
+      functionName: "initializeV3",
+      args: [contractURI, legacyAdmins],
+    });
+    await v2.write.upgradeToAndCall([v3Impl.address, initData], { account: owner.account });
+
+    return viem.getContractAt("CrystalsV3", proxy);
+  }
+
+  async function expectRevert(tx: Promise<any>, reason: string) {
+    let reverted = false;
+    try {
+      await tx;
+    } catch (err: any) {
+      reverted = true;
+      expect(err.message).to.include(reason);
+    }
+    expect(reverted).to.be.true;
+  }
+
+  it("✅ balances, nonces, admins and whitelist survive the upgrade", async () => {
+    const { crystals, proxy, owner, admin, user, other, chainId, whitelisted } = await liveV2Fixture();
+    expect(await crystals.read.version()).to.equal("2.0.0");
+
+    const v3 = await upgrade(proxy.address, "ipfs://crystals.json", []);
+
+    expect(await v3.read.version()).to.equal("3.0.0");
+    expect(await v3.read.contractURI()).to.equal("ipfs://crystals.json");
+    expect(await v3.read.name()).to.equal("Crystals");
+    expect(((await v3.read.owner()) as unknown as string).toLowerCase()).to.equal(owner.account.address);
+    expect(await v3.read.balanceOf([user.account.address])).to.equal(100n);
+    expect(await v3.read.balanceOf([other.account.address])).to.equal(40n);
+    expect(await v3.read.totalSupply()).to.equal(140n);
+    expect(await v3.read.nonces([user.account.address])).to.equal(1n);
+    expect(await v3.read.admins([admin.account.address])).to.equal(true);
+    expect(await v3.read.contractWhitelist([whitelisted])).to.equal(true);
+
+    // The admin's signatures keep working under the same EIP-712 domain
+    const signature = await signPermit(
+      "crystalsMint",
+      admin,
+      { chainId, verifyingContract: v3.address },
+      { to: user.account.address, amount: 5n, nonce: 1n, deadline: 0n }
+    );
+    await v3.write.mintWithSignature([5n, 1n, 0n, signature], { account: user.account });
+    expect(await v3.read.balanceOf([user.account.address])).to.equal(105n);
+  });
+
+  it("✅ initializeV3 migrates legacy admins from the pre-roles mapping", async () => {
+    const { proxy, admin, other } = await liveV2Fixture();
+    const testClient = await viem.getTestClient();
+
+    // `admins` of the pre-roles implementation lives in slot 304
+    const legacySlot = keccak256(
+      encodeAbiParameters([{ type: "address" }, { type: "uint256" }], [other.account.address, 304n])
+    );
+    await testClient.setStorageAt({ address: proxy.address, index: legacySlot, value: pad("0x01") });
+
+    const v3 = await upgrade(proxy.address, "", [other.account.address]);
+
+    expect(await v3.read.hasRole([ROLES.minter, other.account.address])).to.equal(true);
+    expect(await v3.read.hasRole([ROLES.minter, admin.account.address])).to.equal(true);
+  });
+
+  it("❌ initializeV3 runs only once, only for the owner, and never on the implementation", async () => {
+    const { proxy, owner, other } = await liveV2Fixture();
+    const v3 = await upgrade(proxy.address, "", []);
+
+    await expectRevert(
+      v3.write.initializeV3(["ipfs://again.json", []], { account: owner.account }),
+      "Initializable: contract is already initialized"
+    );
+
+    const v3Impl = await viem.deployContract("CrystalsV3", []);
+    await expectRevert(
+      v3Impl.write.initializeV3(["", []], { account: owner.account }),
+      "Initializable: contract is already initialized"
+    );
+    await expectRevert(
+      v3Impl.write.initialize(["Crystals", "CRYS"], { account: other.account }),
+      "Initializable: contract is already initialized"
+    );
+
+    // A fresh V2 proxy refuses a non-owner upgrade call
+    const fresh = await liveV2Fixture();
+    const initData = encodeFunctionData({
+      abi: v3Impl.abi,
+      functionName: "initializeV3",
+      args: ["", []],
+    });
+    await expectRevert(
+      fresh.crystals.write.upgradeToAndCall([v3Impl.address, initData], { account: other.account }),
+      "Ownable: caller is not the owner"
+    );
+  });
+
+  it("✅ metadata managers update the contract URI", async () => {
+    const { proxy, owner, admin } = await liveV2Fixture();
+    const v3 = await upgrade(proxy.address, "", []);
+
+    await expectRevert(v3.write.setContractURI(["ipfs://x.json"], { account: admin.account }), "Missing role");
+
+    await v3.write.grantRole([ROLES.metadataManager, admin.account.address], { account: owner.account });
+    await v3.write.setContractURI(["ipfs://x.json"], { account: admin.account });
+    expect(await v3.read.contractURI()).to.equal("ipfs://x.json");
+  });
+
+  it("✅ permit sets an allowance from the holder's signature", async () => {
+    const { proxy, user, other, chainId } = await liveV2Fixture();
+    const v3 = await upgrade(proxy.address, "", []);
+    const publicClient = await viem.getPublicClient();
+    const deadline = (await publicClient.getBlock()).timestamp + 3600n;
+
+    expect(await v3.read.DOMAIN_SEPARATOR()).to.equal(
+      domainSeparator({ domain: { name: "Crystals", version: "1", chainId, verifyingContract: v3.address } })
+    );
+
+    // The user already used mint nonce 0; permits count their own nonces
+    expect(await v3.read.permitNonces([user.account.address])).to.equal(0n);
+    const message = { owner: user.account.address, spender: other.account.address, value: 30n, nonce: 0n, deadline };
+    const { v, r, s } = await signErc20Permit(user, { chainId, verifyingContract: v3.address }, message);
+
+    // Anyone may submit it, the holder pays no gas
+    await v3.write.permit([user.account.address, other.account.address, 30n, deadline, v, r, s], {
+      account: other.account,
+    });
+    expect(await v3.read.allowance([user.account.address, other.account.address])).to.equal(30n);
+    expect(await v3.read.permitNonces([user.account.address])).to.equal(1n);
+    expect(await v3.read.nonces([user.account.address])).to.equal(1n);
+
+    await v3.write.transferFrom([user.account.address, other.account.address, 30n], { account: other.account });
+    expect(await v3.read.balanceOf([other.account.address])).to.equal(70n);
+  });
+
+  it("✅ permits and mint signatures do not invalidate each other", async () => {
+    const { proxy, admin, user, other, chainId } = await liveV2Fixture();
+    const v3 = await upgrade(proxy.address, "", []);
+    const publicClient = await viem.getPublicClient();
+    const deadline = (await publicClient.getBlock()).timestamp + 3600n;
+    const domain = { chainId, verifyingContract: v3.address };
+
+    // Both signed for nonce 1: the next mint nonce and, after one permit, the next permit nonce
+    const approval = { owner: user.account.address, spender: other.account.address, deadline };
+    const mint = await signPermit("crystalsMint", admin, domain, {
+      to: user.account.address,
+      amount: 5n,
+      nonce: 1n,
+      deadline: 0n,
+    });
+    const first = await signErc20Permit(user, domain, { ...approval, value: 1n, nonce: 0n });
+    const second = await signErc20Permit(user, domain, { ...approval, value: 2n, nonce: 1n });
+
+    await v3.write.permit([user.account.address, other.account.address, 1n, deadline, first.v, first.r, first.s]);
+    await v3.write.mintWithSignature([5n, 1n, 0n, mint], { account: user.account });
+    await v3.write.permit([user.account.address, other.account.address, 2n, deadline, second.v, second.r, second.s]);
+
+    expect(await v3.read.balanceOf([user.account.address])).to.equal(105n);
+    expect(await v3.read.allowance([user.account.address, other.account.address])).to.equal(2n);
+    expect(await v3.read.nonces([user.account.address])).to.equal(2n);
+    expect(await v3.read.permitNonces([user.account.address])).to.equal(2n);
+  });
+
+  it("❌ permit rejects replays, expired deadlines and foreign signers", async () => {
+    const { proxy, user, other, chainId } = await liveV2Fixture();
+    const v3 = await upgrade(proxy.address, "", []);
+    const publicClient = await viem.getPublicClient();
+    const now = (await publicClient.getBlock()).timestamp;
+    const domain = { chainId, verifyingContract: v3.address };
+
+    const message = { owner: user.account.address, spender: other.account.address, value: 1n, nonce: 0n, deadline: now + 3600n };
+    const valid = await signErc20Permit(user, domain, message);
+    await v3.write.permit([user.account.address, other.account.address, 1n, message.deadline, valid.v, valid.r, valid.s]);
+    await expectRevert(
+      v3.write.permit([user.account.address, other.account.address, 1n, message.deadline, valid.v, valid.r, valid.s]),
+      "Invalid signature"
+    );
+
+    const expired = await signErc20Permit(user, domain, { ...message, nonce: 1n, deadline: now - 1n });
+    await expectRevert(
+      v3.write.permit([user.account.address, other.account.address, 1n, now - 1n, expired.v, expired.r, expired.s]),
+      "Permit expired"
+    );
+
+    const forged = await signErc20Permit(other, domain, { ...message, nonce: 1n });
+    await expectRevert(
+      v3.write.permit([user.account.address, other.account.address, 1n, message.deadline, forged.v, forged.r, forged.s]),
+      "Invalid signature"
+    );
+  });
+
+  it("✅ Ignition module deploys V2 and upgrades the proxy to V3", async () => {
+    const { proxy } = await ignition.deploy(CrystalsV3Module, {
+      parameters: { CrystalsV3Module: { contractURI: "ipfs://crystals.json" } },
+    });
+
+    const crystals = await viem.getContractAt("CrystalsV3", (await proxy.getAddress()) as `0x${string}`);
+    expect(await crystals.read.version()).to.equal("3.0.0");
+    expect(await crystals.read.contractURI()).to.equal("ipfs://crystals.json");
+    expect(await crystals.read.symbol()).to.equal("CRYS");
+  });
+});
@@ -0,0 +1,137 @@
+import { expect } from "chai";
+import { network, tasks } from "hardhat";
+import { readDeploymentParameters } from "@nomicfoundation/hardhat-ignition/helpers";
+import { mkdtemp, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { getAddress } from "viem";
+
+import MibboverseModule from "../ignition/modules/Mibboverse.js";
+import { addressesFromIgnition, checkDeployment, type DeploymentAddresses } from "../sdk/deployment-check.js";
+
+const { viem, ignition } = await network.connect();
+
+describe("Deployment check", () => {
+  async function deployFixture() {
+    const [owner, backend] = await viem.getWalletClients();
+    const deployed = await ignition.deploy(MibboverseModule, {
+      parameters: await readDeploymentParameters("ignition/parameters/hardhatOp.json"),
+    });
+    const address = async (contract: { getAddress(): Promise<string> }) => getAddress(await contract.getAddress());
+
+    const addresses: DeploymentAddresses = {
+      crystals: await address(deployed.proxy),
+      crystalsImplementation: await address(deployed.crystalsImpl),
+      artifacts: await address(deployed.artifacts),
+      genesis: await address(deployed.genesis),
+      vault: await address(deployed.vault),
+    };
+    const expected = { owner: owner.account.address, admins: [backend.account.address] };
+
+    return { addresses, expected, owner, backend, publicClient: await viem.getPublicClient() };
+  }
+
+  async function expectRevert(tx: Promise<any>, reason: string) {
+    let reverted = false;
+    try {
+      await tx;
+    } catch (err: any) {
+      reverted = true;
+      expect(err.message).to.include(reason);
+    }
+    expect(reverted).to.be.true;
+  }
+
+  it("✅ a freshly wired deployment passes every check", async () => {
+    const { addresses, expected, publicClient } = await deployFixture();
+
+    const report = await checkDeployment(publicClient, addresses, expected);
+
+    expect(report.checks.filter((check) => !check.passed)).to.deep.equal([]);
+    expect(report.passed).to.equal(true);
+    // code, owner, one admin and the domain for four contracts, plus vault wiring and the implementation slot
+    expect(report.checks.length).to.equal(4 * 4 + 3);
+  });
+
+  it("❌ configuration drift fails the matching checks", async () => {
+    const { addresses, expected, owner, backend, publicClient } = await deployFixture();
+
+    const vault = await viem.getContractAt("TokenVault", addresses.vault);
+    const crystals = await viem.getContractAt("CrystalsV2", addresses.crystals);
+    await vault.write.setAdmin([backend.account.address, false], { account: owner.account });
+    await crystals.write.setContractWhitelist([addresses.vault, false], { account: owner.account });
+
+    const report = await checkDeployment(
+      publicClient,
+      { ...addresses, crystalsImplementation: addresses.artifacts },
+      { ...expected, owner: backend.account.address }
+    );
+
+    expect(report.passed).to.equal(false);
+    expect(report.checks.filter((check) => !check.passed).map((check) => check.name)).to.deep.equal([
+      "CrystalsV2 owner",
+      "ArtifactsERC1155 owner",
+      "GenesisNFT owner",
+      "TokenVault owner",
+      `TokenVault admin ${backend.account.address}`,
+      "CrystalsV2 whitelists TokenVault",
+      "CrystalsV2 ERC-1967 implementation",
+    ]);
+  });
+
+  it("❌ a mismatched EIP-712 name or a missing contract is reported", async () => {
+    const { addresses, expected, publicClient } = await deployFixture();
+
+    const renamed = await checkDeployment(publicClient, addresses, { ...expected, crystalsName: "Gems" });
+    expect(renamed.checks.find((check) => check.name === "CrystalsV2 EIP-712 domain")?.passed).to.equal(false);
+
+    const missing = await checkDeployment(
+      publicClient,
+      { ...addresses, genesis: getAddress(`0x${"12".repeat(20)}`) },
+      expected
+    );
+    expect(missing.checks.find((check) => check.name === "GenesisNFT code")?.passed).to.equal(false);
+    expect(missing.passed).to.equal(false);
+  });
+
+  it("✅ addresses are read from Ignition futures, preferring the V3 implementation", () => {
+    const a = (byte: string) => `0x${byte.repeat(20)}`;
+
+    const addresses = addressesFromIgnition({
+      "CrystalsV2Module#CrystalsV2": a("01"),
+      "CrystalsV2Module#ProxyExample": a("02"),
+      "CrystalsV3Module#CrystalsV3": a("03"),
+      "ArtifactsERC1155Module#ArtifactsERC1155": a("04"),
+      "GenesisNFTModule#GenesisNFT": a("05"),
+      "TokenVaultModule#TokenVault": a("06"),
+    });
+
+    expect(addresses.crystals).to.equal(getAddress(a("02")));
+    expect(addresses.crystalsImplementation).to.equal(getAddress(a("03")));
+    expect(addresses.vault).to.equal(getAddress(a("06")));
+    expect(() => addressesFromIgnition({ "CrystalsV2Module#CrystalsV2": a("01") })).to.throw('missing the "crystals"');
+  });
+
+  it("❌ check-deployment task exits with an error on drift", async () => {
+    const { addresses, expected } = await deployFixture();
+    const file = join(await mkdtemp(join(tmpdir(), "mibboverse-")), "addresses.json");
+    await writeFile(file, JSON.stringify(addresses));
+
+    // The task connects to a fresh edr-simulated chain, where none of these contracts exist
+    await expectRevert(
+      tasks.getTask("check-deployment").run({
+        deploymentId: "",
+        addresses: file,
+        owner: expected.owner,
+        admins: expected.admins.join(","),
+        crystalsName: "",
+      }),
+      "Deployment drift detected"
+    );
+
+    await expectRevert(
+      tasks.getTask("check-deployment").run({ deploymentId: "", addresses: "", owner: "", admins: "", crystalsName: "" }),
+      "Pass either --deployment-id or --addresses"
+    );
+  });
+});
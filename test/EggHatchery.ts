@@ -0,0 +1,232 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import { encodeFunctionData, keccak256, toHex } from "viem";
+
+import EggHatcheryModule from "../ignition/modules/EggHatchery.js";
+import { signPermit } from "../sdk/permits.js";
+
+const { viem, ignition } = await network.connect();
+
+describe("EggHatchery", () => {
+  async function deployFixture() {
+    const [owner, user, other] = await viem.getWalletClients();
+    const publicClient = await viem.getPublicClient();
+    const chainId = await publicClient.getChainId();
+
+    const provider = await viem.deployContract("MockRandomnessProvider", []);
+    const genesis = await viem.deployContract("GenesisNFT", [
+      "Genesis NFT",
+      "OG",
+      "Genesis of the Mibboverse",
+      "ipfs://hidden.json",
+      provider.address,
+    ]);
+    await genesis.write.setProvenanceHash([keccak256(toHex("genesis metadata"))], { account: owner.account });
+    const artifacts = await viem.deployContract("ArtifactsERC1155", []);
+
+    // Crystals behind a UUPS proxy, as on mainnet
+    const crystalsImpl = await viem.deployContract("CrystalsV2", []);
+    const initData = encodeFunctionData({
+      abi: crystalsImpl.abi,
+      functionName: "initialize",
+      args: ["Crystals", "CRYS"],
+    });
+    const proxy = await viem.deployContract("ProxyExample", [crystalsImpl.address, initData]);
+    const crystals = await viem.getContractAt("CrystalsV2", proxy.address);
+
+    const creatures = await viem.deployContract("CreatureNFT", ["Mibboverse Creatures", "MBC", "ipfs://creatures/"]);
+    const hatchery = await viem.deployContract("EggHatchery", [
+      genesis.address,
+      creatures.address,
+      crystals.address,
+      artifacts.address,
+      provider.address,
+    ]);
+
+    await creatures.write.grantRole([await creatures.read.MINTER_ROLE(), hatchery.address], { account: owner.account });
+    await crystals.write.setContractWhitelist([hatchery.address, true], { account: owner.account });
+
+    // The user owns egg #1, 500 Crystals and 3 Incubation Shards (artifact #7)
+    const nonce = (await genesis.read.nonces([user.account.address])) as unknown as bigint;
+    const signature = await signPermit(
+      "genesisMint",
+      owner,
+      { chainId, verifyingContract: genesis.address },
+      { to: user.account.address, nonce, deadline: 0n }
+    );
+    await genesis.write.mintWithPermit([user.account.address, nonce, 0n, signature], { account: user.account });
+    await crystals.write.mint([user.account.address, 500n], { account: owner.account });
+    await artifacts.write.setArtifactType([7n, 0n, 0n, 0n, true], { account: owner.account });
+    await artifacts.write.mintBatch([user.account.address, [7n], [3n]], { account: owner.account });
+
+    await genesis.write.setApprovalForAll([hatchery.address, true], { account: user.account });
+    await artifacts.write.setApprovalForAll([hatchery.address, true], { account: user.account });
+    await crystals.write.approve([hatchery.address, 500n], { account: user.account });
+
+    return { genesis, artifacts, crystals, creatures, provider, hatchery, owner, user, other };
+  }
+
+  // Random word with each trait slice set explicitly
+  function word(species: bigint, element: bigint, rarityRoll: bigint, powerRoll: bigint) {
+    return species | (element << 64n) | (rarityRoll << 128n) | (powerRoll << 192n);
+  }
+
+  async function expectRevert(tx: Promise<any>, reason: string) {
+    let reverted = false;
+    try {
+      await tx;
+    } catch (err: any) {
+      reverted = true;
+      expect(err.message).to.include(reason);
+    }
+    expect(reverted).to.be.true;
+  }
+
+  it("✅ hatch escrows the egg and the provider's answer burns it and mints the creature", async () => {
+    const { genesis, creatures, provider, hatchery, user } = await deployFixture();
+
+    await hatchery.write.hatch([1n], { account: user.account });
+    expect(((await genesis.read.ownerOf([1n])) as unknown as string).toLowerCase()).to.equal(hatchery.address.toLowerCase());
+    expect(await creatures.read.totalSupply()).to.equal(0n);
+
+    const [player, eggId] = (await hatchery.read.pendingHatches([provider.address, 1n])) as unknown as [string, bigint];
+    expect(player.toLowerCase()).to.equal(user.account.address);
+    expect(eggId).to.equal(1n);
+
+    // species 3, element 2, roll 700 of 1000 (rare), power roll 50
+    await provider.write.fulfill([1n, word(3n, 2n, 700n, 50n)]);
+    expect(await genesis.read.balanceOf([hatchery.address])).to.equal(0n);
+
+    expect(((await creatures.read.ownerOf([1n])) as unknown as string).toLowerCase()).to.equal(user.account.address);
+    expect(await creatures.read.traitsOf([1n])).to.deep.equal({ species: 3, element: 2, rarity: 1, power: 10 + 50 + 25 });
+    expect(await creatures.read.tokenURI([1n])).to.equal("ipfs://creatures/1.json");
+  });
+
+  it("✅ hatching charges the configured Crystals and artifacts", async () => {
+    const { artifacts, crystals, provider, hatchery, creatures, owner, user } = await deployFixture();
+
+    await hatchery.write.setHatchCost([200n, 7n, 2n], { account: owner.account });
+    await hatchery.write.hatch([1n], { account: user.account });
+    expect(await crystals.read.balanceOf([hatchery.address])).to.equal(200n);
+    expect(await artifacts.read.balanceOf([hatchery.address, 7n])).to.equal(2n);
+
+    await provider.write.fulfill([1n, 0n]);
+
+    expect(await crystals.read.balanceOf([user.account.address])).to.equal(300n);
+    expect(await crystals.read.balanceOf([hatchery.address])).to.equal(0n);
+    expect(await crystals.read.totalSupply()).to.equal(300n);
+    expect(await artifacts.read.balanceOf([user.account.address, 7n])).to.equal(1n);
+    expect(await artifacts.read.balanceOf([hatchery.address, 7n])).to.equal(0n);
+    expect(await creatures.read.totalSupply()).to.equal(1n);
+  });
+
+  it("✅ unfulfilled hatches are cancelled after a provider switch or the timeout, returning the escrow", async () => {
+    const { genesis, artifacts, crystals, provider, hatchery, owner, user, other } = await deployFixture();
+    const testClient = await viem.getTestClient();
+    const eggOwner = async () => ((await genesis.read.ownerOf([1n])) as unknown as string).toLowerCase();
+
+    await hatchery.write.setHatchCost([200n, 7n, 2n], { account: owner.account });
+    await hatchery.write.hatch([1n], { account: user.account });
+    await expectRevert(hatchery.write.cancelHatch([provider.address, 1n], { account: other.account }), "Not hatch owner");
+    await expectRevert(hatchery.write.cancelHatch([provider.address, 1n], { account: user.account }), "Hatch still pending");
+
+    // The old provider can no longer answer, but the hatch stays escrowed and can be cancelled at once
+    const replacement = await viem.deployContract("MockRandomnessProvider", []);
+    await hatchery.write.setRandomnessProvider([replacement.address], { account: owner.account });
+    await expectRevert(provider.write.fulfill([1n, 0n]), "Not randomness provider");
+
+    await hatchery.write.cancelHatch([provider.address, 1n], { account: user.account });
+    expect(await eggOwner()).to.equal(user.account.address);
+    expect(await crystals.read.balanceOf([user.account.address])).to.equal(500n);
+    expect(await artifacts.read.balanceOf([user.account.address, 7n])).to.equal(3n);
+    await expectRevert(hatchery.write.cancelHatch([provider.address, 1n], { account: user.account }), "Not hatch owner");
+
+    // A request the current provider never answers can be cancelled after HATCH_TIMEOUT
+    await crystals.write.approve([hatchery.address, 200n], { account: user.account });
+    await hatchery.write.hatch([1n], { account: user.account });
+    await testClient.increaseTime({ seconds: 24 * 60 * 60 });
+    await testClient.mine({ blocks: 1 });
+    await hatchery.write.cancelHatch([replacement.address, 1n], { account: user.account });
+    expect(await eggOwner()).to.equal(user.account.address);
+    await expectRevert(replacement.write.fulfill([1n, 0n]), "Unknown request");
+  });
+
+  it("✅ rarity follows the owner-set weights", async () => {
+    const { hatchery, owner } = await deployFixture();
+    const traits = async (randomness: bigint) =>
+      (await hatchery.read.deriveTraits([randomness])) as unknown as { rarity: number };
+
+    expect((await traits(word(0n, 0n, 599n, 0n))).rarity).to.equal(0);
+    expect((await traits(word(0n, 0n, 999n, 90n))).rarity).to.equal(3);
+    expect(await traits(word(9n, 5n, 999n, 90n))).to.deep.equal({
+      species: 1,
+      element: 1,
+      rarity: 3,
+      power: 100 + 75,
+    });
+
+    await hatchery.write.setRarityWeights([[0, 0, 0, 1]], { account: owner.account });
+    expect((await traits(word(0n, 0n, 0n, 0n))).rarity).to.equal(3);
+    await expectRevert(hatchery.write.setRarityWeights([[0, 0, 0, 0]], { account: owner.account }), "Weights sum to zero");
+  });
+
+  it("✅ pending hatches keep the rarity weights they were requested with", async () => {
+    const { creatures, provider, hatchery, owner, user } = await deployFixture();
+
+    await hatchery.write.hatch([1n], { account: user.account });
+    await hatchery.write.setRarityWeights([[0, 0, 0, 1]], { account: owner.account });
+    expect(((await hatchery.read.deriveTraits([word(0n, 0n, 0n, 0n)])) as unknown as { rarity: number }).rarity).to.equal(3);
+
+    // Roll 0 of the original 1000 is common, whatever the weights are now
+    await provider.write.fulfill([1n, word(0n, 0n, 0n, 0n)]);
+    expect(((await creatures.read.traitsOf([1n])) as unknown as { rarity: number }).rarity).to.equal(0);
+  });
+
+  it("❌ only the egg owner hatches, and only the provider fulfills, once", async () => {
+    const { provider, hatchery, user, other } = await deployFixture();
+
+    await expectRevert(hatchery.write.hatch([1n], { account: other.account }), "Not egg owner");
+
+    await hatchery.write.hatch([1n], { account: user.account });
+    await expectRevert(
+      hatchery.write.fulfillRandomness([1n, 42n], { account: user.account }),
+      "Not randomness provider"
+    );
+
+    await provider.write.fulfill([1n, 42n]);
+    await expectRevert(provider.write.fulfill([1n, 42n]), "Unknown request");
+  });
+
+  it("❌ creatures are minted only by minters and burned only by their owner", async () => {
+    const { creatures, provider, hatchery, user, other } = await deployFixture();
+    const traits = { species: 0, element: 0, rarity: 0, power: 10 };
+
+    await expectRevert(creatures.write.mint([other.account.address, traits], { account: other.account }), "Missing role");
+
+    await hatchery.write.hatch([1n], { account: user.account });
+    await provider.write.fulfill([1n, 0n]);
+    await expectRevert(creatures.write.burn([1n], { account: other.account }), "ERC721InsufficientApproval");
+
+    await creatures.write.burn([1n], { account: user.account });
+    expect(await creatures.read.balanceOf([user.account.address])).to.equal(0n);
+    await expectRevert(creatures.read.traitsOf([1n]), "ERC721NonexistentToken");
+  });
+
+  it("✅ Ignition module deploys creatures and grants the hatchery MINTER_ROLE", async () => {
+    const { genesis, crystals, artifacts, provider } = await deployFixture();
+
+    const { creatures, hatchery } = await ignition.deploy(EggHatcheryModule, {
+      parameters: {
+        EggHatcheryModule: {
+          genesis: genesis.address,
+          crystals: crystals.address,
+          artifacts: artifacts.address,
+          randomnessProvider: provider.address,
+        },
+      },
+    });
+
+    const nft = await viem.getContractAt("CreatureNFT", (await creatures.getAddress()) as `0x${string}`);
+    expect(await nft.read.hasRole([await nft.read.MINTER_ROLE(), (await hatchery.getAddress()) as `0x${string}`])).to.equal(true);
+  });
+});
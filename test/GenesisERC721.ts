@@ -1,61 +1,36 @@
 import { expect } from "chai";
-import { network } from "hardhat";
+import { mkdtemp, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { network, tasks } from "hardhat";
+import { concat, keccak256, parseEventLogs, toBytes, toHex } from "viem";
 import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts'
 
+import { signPermit } from "../sdk/permits.js";
+import { computeProvenance, metadataIdOf } from "../sdk/provenance.js";
+
 const { viem } = await network.connect();
 
+const PROVENANCE = keccak256(toHex("genesis metadata"));
+
 describe("GenesisNFT", () => {
   async function deployFixture() {
     const [owner, admin, user, other] = await viem.getWalletClients();
 
+    const randomness = await viem.deployContract("MockRandomnessProvider", []);
     const nft = await viem.deployContract("GenesisNFT", [
       "Genesis NFT",
       "OG",
       "Genesis of the Mibboverse",
-      "ipfs://hidden.json"
+      "ipfs://hidden.json",
+      randomness.address
     ]);
+    await nft.write.setProvenanceHash([PROVENANCE], { account: owner.account });
 
     const publicClient = await viem.getPublicClient();
     const chainId = await publicClient.getChainId();
 
-    return { nft, owner, admin, user, other, chainId };
-  }
-
-  async function buildMintSignature({
-    signer,
-    chainId,
-    contractAddress,
-    to,
-    nonce,
-  }: {
-    signer: any;
-    chainId: number;
-    contractAddress: string;
-    to: string;
-    nonce: bigint;
-  }) {
-    const domain = {
-      name: "AdminMintableERC721",
-      version: "1",
-      chainId,
-      verifyingContract: contractAddress,
-    };
-
-    const types = {
-      MintRequest: [
-        { name: "to", type: "address" },
-        { name: "nonce", type: "uint256" },
-      ],
-    };
-
-    const message = { to, nonce };
-
-    return signer.signTypedData({
-      domain,
-      types,
-      primaryType: "MintRequest",
-      message,
-    });
+    return { nft, randomness, owner, admin, user, other, chainId };
   }
 
   it("✅ deploys correctly", async () => {
@@ -75,15 +50,14 @@ describe("GenesisNFT", () => {
 
     const nonce = (await nft.read.nonces([user.account.address])) as unknown as bigint;
 
-    const signature = await buildMintSignature({
-      signer: owner,
-      chainId,
-      contractAddress: nft.address,
-      to: user.account.address,
-      nonce,
-    });
+    const signature = await signPermit(
+      "genesisMint",
+      owner,
+      { chainId, verifyingContract: nft.address },
+      { to: user.account.address, nonce, deadline: 0n }
+    );
 
-    await nft.write.mintWithPermit([user.account.address, nonce, signature], {
+    await nft.write.mintWithPermit([user.account.address, nonce, 0n, signature], {
       account: user.account,
     });
 
@@ -101,15 +75,14 @@ describe("GenesisNFT", () => {
 
     const nonce = (await nft.read.nonces([user.account.address])) as unknown as bigint;
 
-    const signature = await buildMintSignature({
-      signer: admin,
-      chainId,
-      contractAddress: nft.address,
-      to: user.account.address,
-      nonce,
-    });
+    const signature = await signPermit(
+      "genesisMint",
+      admin,
+      { chainId, verifyingContract: nft.address },
+      { to: user.account.address, nonce, deadline: 0n }
+    );
 
-    await nft.write.mintWithPermit([user.account.address, nonce, signature], {
+    await nft.write.mintWithPermit([user.account.address, nonce, 0n, signature], {
       account: user.account,
     });
 
@@ -120,19 +93,18 @@ describe("GenesisNFT", () => {
   });
 
   it("✅ reveals metadata correctly and each token has unique URI after reveal", async () => {
-    const { nft, owner, user, chainId } = await deployFixture();
+    const { nft, randomness, owner, user, chainId } = await deployFixture();
 
     // Mint 2 tokens to verify the ID difference
-    const mintFor = async (signer: any, to: any) => {
+    const mintFor = async (signer: typeof owner, to: typeof user) => {
       const nonce = (await nft.read.nonces([to.account.address])) as unknown as bigint;
-      const sig = await buildMintSignature({
+      const sig = await signPermit(
+        "genesisMint",
         signer,
-        chainId,
-        contractAddress: nft.address,
-        to: to.account.address,
-        nonce,
-      });
-      await nft.write.mintWithPermit([to.account.address, nonce, sig], { account: to.account });
+        { chainId, verifyingContract: nft.address },
+        { to: to.account.address, nonce, deadline: 0n }
+      );
+      await nft.write.mintWithPermit([to.account.address, nonce, 0n, sig], { account: to.account });
     };
 
     await mintFor(owner, user);
@@ -140,15 +112,14 @@ describe("GenesisNFT", () => {
     const privateKey2 = generatePrivateKey();
     const account2 = privateKeyToAccount(privateKey2);
 
-    const sig2 = await buildMintSignature({
-      signer: owner,
-      chainId,
-      contractAddress: nft.address,
-      to: account2.address,
-      nonce: 0n,
-    });
+    const sig2 = await signPermit(
+      "genesisMint",
+      owner,
+      { chainId, verifyingContract: nft.address },
+      { to: account2.address, nonce: 0n, deadline: 0n }
+    );
 
-    await nft.write.mintWithPermit([account2.address, 0n, sig2]);
+    await nft.write.mintWithPermit([account2.address, 0n, 0n, sig2]);
 
     // 2️⃣ Проверяем скрытую метадату
     const uriBeforeReveal1 = await nft.read.tokenURI([1n]);
@@ -159,7 +130,8 @@ describe("GenesisNFT", () => {
     // 3️⃣ Включаем reveal с baseURI
     await nft.write.setSingleMetadataMode([false], { account: owner.account });
     await nft.write.setBaseURI(["ipfs://bafybeig3g4zlxjzsvohmcljsgjwz422tzjpqft5pmq3kzq3a6a4sgkxkwm/"], { account: owner.account });
-    await nft.write.setRevealed([true], { account: owner.account });
+    await nft.write.reveal([], { account: owner.account });
+    await randomness.write.fulfill([1n, 0n]);
 
     // 4️⃣ Проверяем, что после ревила tokenURI уникален и формируется корректно
     const uriAfterReveal1 = await nft.read.tokenURI([1n]);
@@ -173,20 +145,20 @@ describe("GenesisNFT", () => {
   });
 
   it("✅ singleMetadataMode returns same URI for all tokens after reveal", async () => {
-    const { nft, owner, user, chainId } = await deployFixture();
+    const { nft, randomness, owner, user, chainId } = await deployFixture();
 
     const nonce = (await nft.read.nonces([user.account.address])) as unknown as bigint;
-    const sig = await buildMintSignature({
-      signer: owner,
-      chainId,
-      contractAddress: nft.address,
-      to: user.account.address,
-      nonce,
-    });
-    await nft.write.mintWithPermit([user.account.address, nonce, sig], { account: user.account });
+    const sig = await signPermit(
+      "genesisMint",
+      owner,
+      { chainId, verifyingContract: nft.address },
+      { to: user.account.address, nonce, deadline: 0n }
+    );
+    await nft.write.mintWithPermit([user.account.address, nonce, 0n, sig], { account: user.account });
 
     await nft.write.setRevealedURI(["ipfs://revealed.json"], { account: owner.account });
-    await nft.write.setRevealed([true], { account: owner.account });
+    await nft.write.reveal([], { account: owner.account });
+    await randomness.write.fulfill([1n, 42n]);
 
     const uri = await nft.read.tokenURI([1n]);
     expect(uri).to.equal("ipfs://revealed.json");
@@ -197,17 +169,16 @@ describe("GenesisNFT", () => {
 
     const nonce = (await nft.read.nonces([user.account.address])) as unknown as bigint;
 
-    const signature = await buildMintSignature({
-      signer: other, // neither the owner nor the admin
-      chainId,
-      contractAddress: nft.address,
-      to: user.account.address,
-      nonce,
-    });
+    const signature = await signPermit(
+      "genesisMint",
+      other, // neither the owner nor the admin
+      { chainId, verifyingContract: nft.address },
+      { to: user.account.address, nonce, deadline: 0n }
+    );
 
     let reverted = false;
     try {
-      await nft.write.mintWithPermit([user.account.address, nonce, signature], {
+      await nft.write.mintWithPermit([user.account.address, nonce, 0n, signature], {
         account: user.account,
       });
     } catch {
@@ -222,23 +193,22 @@ describe("GenesisNFT", () => {
 
     const nonce = (await nft.read.nonces([user.account.address])) as unknown as bigint;
 
-    const signature = await buildMintSignature({
-      signer: owner,
-      chainId,
-      contractAddress: nft.address,
-      to: user.account.address,
-      nonce,
-    });
+    const signature = await signPermit(
+      "genesisMint",
+      owner,
+      { chainId, verifyingContract: nft.address },
+      { to: user.account.address, nonce, deadline: 0n }
+    );
 
     // First successful mint
-    await nft.write.mintWithPermit([user.account.address, nonce, signature], {
+    await nft.write.mintWithPermit([user.account.address, nonce, 0n, signature], {
       account: user.account,
     });
 
     // Second time - fall
     let reverted = false;
     try {
-      await nft.write.mintWithPermit([user.account.address, nonce + 1n, signature], {
+      await nft.write.mintWithPermit([user.account.address, nonce + 1n, 0n, signature], {
         account: user.account,
       });
     } catch {
@@ -256,30 +226,28 @@ describe("GenesisNFT", () => {
       const privateKey = generatePrivateKey()
       const account = privateKeyToAccount(privateKey)
 
-      const sig = await buildMintSignature({
-        signer: owner,
-        chainId,
-        contractAddress: nft.address,
-        to: account.address,
-        nonce: 0n,
-      });  
-      await nft.write.mintWithPermit([account.address, 0n, sig]);
+      const sig = await signPermit(
+        "genesisMint",
+        owner,
+        { chainId, verifyingContract: nft.address },
+        { to: account.address, nonce: 0n, deadline: 0n }
+      );  
+      await nft.write.mintWithPermit([account.address, 0n, 0n, sig]);
     }
 
     const nextPrivateKey = generatePrivateKey()
     const nextAccount = privateKeyToAccount(nextPrivateKey)
 
-    const nextSig = await buildMintSignature({
-      signer: owner,
-      chainId,
-      contractAddress: nft.address,
-      to: nextAccount.address,
-      nonce: 0n,
-    });
+    const nextSig = await signPermit(
+      "genesisMint",
+      owner,
+      { chainId, verifyingContract: nft.address },
+      { to: nextAccount.address, nonce: 0n, deadline: 0n }
+    );
 
     let reverted = false;
     try {
-      await nft.write.mintWithPermit([nextAccount.address, 0n, nextSig]);
+      await nft.write.mintWithPermit([nextAccount.address, 0n, 0n, nextSig]);
     } catch {
       reverted = true;
     }
@@ -308,7 +276,456 @@ describe("GenesisNFT", () => {
     );
 
     await expectRevert(
-        nft.write.setRevealed([true], { account: user.account })
+        nft.write.reveal([], { account: user.account })
     );
   });
-});
\ No newline at end of file
+
+  it("❌ mintWithPermit reverts once the deadline has passed", async () => {
+    const { nft, owner, user, chainId } = await deployFixture();
+
+    const publicClient = await viem.getPublicClient();
+    const { timestamp } = await publicClient.getBlock();
+    const deadline = timestamp - 1n;
+
+    const signature = await signPermit(
+      "genesisMint",
+      owner,
+      { chainId, verifyingContract: nft.address },
+      { to: user.account.address, nonce: 0n, deadline }
+    );
+
+    let reverted = false;
+    try {
+      await nft.write.mintWithPermit([user.account.address, 0n, deadline, signature], {
+        account: user.account,
+      });
+    } catch (err: any) {
+      reverted = true;
+      expect(err.message).to.include("Signature expired");
+    }
+    expect(reverted).to.be.true;
+  });
+
+  it("✅ cancelled nonce revokes a signature and a fresh one still mints", async () => {
+    const { nft, owner, admin, user, chainId } = await deployFixture();
+
+    await nft.write.setAdmin([admin.account.address, true], { account: owner.account });
+
+    const leaked = await signPermit(
+      "genesisMint",
+      admin,
+      { chainId, verifyingContract: nft.address },
+      { to: user.account.address, nonce: 0n, deadline: 0n }
+    );
+
+    await nft.write.cancelNonce([user.account.address, 0n], { account: admin.account });
+
+    let reverted = false;
+    try {
+      await nft.write.mintWithPermit([user.account.address, 0n, 0n, leaked], {
+        account: user.account,
+      });
+    } catch {
+      reverted = true;
+    }
+    expect(reverted).to.be.true;
+
+    const fresh = await signPermit(
+      "genesisMint",
+      admin,
+      { chainId, verifyingContract: nft.address },
+      { to: user.account.address, nonce: 1n, deadline: 0n }
+    );
+    await nft.write.mintWithPermit([user.account.address, 1n, 0n, fresh], {
+      account: user.account,
+    });
+
+    expect(await nft.read.hasMinted([user.account.address])).to.equal(true);
+  });
+
+  it("❌ mints, transfers and burns revert while their action is paused", async () => {
+    const { nft, owner, admin, user, other, chainId } = await deployFixture();
+
+    await nft.write.setGuardian([admin.account.address], { account: owner.account });
+
+    const [mint, transfer, burn, all] = await Promise.all([
+      nft.read.MINT_ACTION(),
+      nft.read.TRANSFER_ACTION(),
+      nft.read.BURN_ACTION(),
+      nft.read.PAUSE_ALL(),
+    ]);
+
+    async function expectPaused(tx: Promise<any>) {
+      let reverted = false;
+      try {
+        await tx;
+      } catch (err: any) {
+        reverted = true;
+        expect(err.message).to.include("Action paused");
+      }
+      expect(reverted).to.be.true;
+    }
+
+    const signature = await signPermit(
+      "genesisMint",
+      owner,
+      { chainId, verifyingContract: nft.address },
+      { to: user.account.address, nonce: 0n, deadline: 0n }
+    );
+    const mintWithPermit = () =>
+      nft.write.mintWithPermit([user.account.address, 0n, 0n, signature], { account: user.account });
+
+    await nft.write.pause([mint], { account: admin.account });
+    await expectPaused(mintWithPermit());
+
+    await nft.write.unpause([mint], { account: owner.account });
+    await mintWithPermit();
+    const tokenId = 1n;
+    expect(((await nft.read.ownerOf([tokenId])) as unknown as string).toLowerCase()).to.equal(user.account.address.toLowerCase());
+
+    await nft.write.pause([transfer], { account: admin.account });
+    await expectPaused(
+      nft.write.transferFrom([user.account.address, other.account.address, tokenId], { account: user.account })
+    );
+    await expectPaused(
+      nft.write.safeTransferFrom([user.account.address, other.account.address, tokenId], { account: user.account })
+    );
+
+    await nft.write.unpause([transfer], { account: owner.account });
+    await nft.write.pause([burn], { account: admin.account });
+    await expectPaused(nft.write.burn([tokenId], { account: user.account }));
+
+    await nft.write.unpause([burn], { account: owner.account });
+    await nft.write.pause([all], { account: admin.account });
+    await expectPaused(
+      nft.write.transferFrom([user.account.address, other.account.address, tokenId], { account: user.account })
+    );
+    await expectPaused(nft.write.burn([tokenId], { account: user.account }));
+  });
+
+  describe("roles", () => {
+    async function expectRevert(tx: Promise<any>, reason: string) {
+      let reverted = false;
+      try {
+        await tx;
+      } catch (err: any) {
+        reverted = true;
+        expect(err.message).to.include(reason);
+      }
+      expect(reverted).to.be.true;
+    }
+
+    it("✅ metadata managers update URIs and reveal, but cannot sign mints", async () => {
+      const { nft, randomness, owner, admin, user, chainId } = await deployFixture();
+
+      await nft.write.grantRole([await nft.read.METADATA_MANAGER_ROLE(), admin.account.address], {
+        account: owner.account,
+      });
+
+      const signature = await signPermit(
+        "genesisMint",
+        admin,
+        { chainId, verifyingContract: nft.address },
+        { to: user.account.address, nonce: 0n, deadline: 0n }
+      );
+      await expectRevert(
+        nft.write.mintWithPermit([user.account.address, 0n, 0n, signature], { account: user.account }),
+        "Invalid signature"
+      );
+
+      await nft.write.setRevealedURI(["ipfs://revealed.json"], { account: admin.account });
+      await nft.write.setSingleMetadataMode([true], { account: admin.account });
+      await nft.write.reveal([], { account: admin.account });
+      await randomness.write.fulfill([1n, 7n]);
+      expect(await nft.read.revealed()).to.equal(true);
+    });
+
+    it("✅ minters sign mints and cancel nonces, but cannot touch metadata", async () => {
+      const { nft, owner, admin, user, chainId } = await deployFixture();
+      const minter = await nft.read.MINTER_ROLE();
+
+      await nft.write.grantRole([minter, admin.account.address], { account: owner.account });
+      expect(((await nft.read.getRoleMember([minter, 0n])) as unknown as string).toLowerCase()).to.equal(admin.account.address);
+
+      await expectRevert(
+        nft.write.setBaseURI(["ipfs://base/"], { account: admin.account }),
+        "Missing role"
+      );
+
+      await nft.write.cancelNonce([user.account.address, 0n], { account: admin.account });
+
+      const signature = await signPermit(
+        "genesisMint",
+        admin,
+        { chainId, verifyingContract: nft.address },
+        { to: user.account.address, nonce: 1n, deadline: 0n }
+      );
+      await nft.write.mintWithPermit([user.account.address, 1n, 0n, signature], { account: user.account });
+      expect(await nft.read.hasMinted([user.account.address])).to.equal(true);
+
+      // Revoked minters lose signing rights immediately
+      await nft.write.revokeRole([minter, admin.account.address], { account: owner.account });
+      await expectRevert(
+        nft.write.cancelNonce([user.account.address, 2n], { account: admin.account }),
+        "Not allowed"
+      );
+    });
+  });
+
+  describe("ERC-4906 and royalties", () => {
+    async function expectRevert(tx: Promise<any>, reason: string) {
+      let reverted = false;
+      try {
+        await tx;
+      } catch (err: any) {
+        reverted = true;
+        expect(err.message).to.include(reason);
+      }
+      expect(reverted).to.be.true;
+    }
+
+    // Returns the ERC-4906 events emitted by a transaction
+    async function metadataEvents(nft: any, tx: Promise<`0x${string}`>) {
+      const publicClient = await viem.getPublicClient();
+      const receipt = await publicClient.waitForTransactionReceipt({ hash: await tx });
+      return (parseEventLogs({ abi: nft.abi, logs: receipt.logs }) as any[])
+        .filter((log) => log.eventName === "MetadataUpdate" || log.eventName === "BatchMetadataUpdate")
+        .map((log) => [log.eventName, log.args]);
+    }
+
+    it("✅ every metadata setter tells marketplaces to refresh", async () => {
+      const { nft, randomness, owner, user, chainId } = await deployFixture();
+      const signature = await signPermit(
+        "genesisMint",
+        owner,
+        { chainId, verifyingContract: nft.address },
+        { to: user.account.address, nonce: 0n, deadline: 0n }
+      );
+      await nft.write.mintWithPermit([user.account.address, 0n, 0n, signature], { account: user.account });
+
+      const all = [["BatchMetadataUpdate", { _fromTokenId: 1n, _toTokenId: 333n }]];
+      expect(await metadataEvents(nft, nft.write.setBaseURI(["ipfs://base/"]))).to.deep.equal(all);
+      expect(await metadataEvents(nft, nft.write.setCustomTokenURI([1n, "ipfs://custom.json"]))).to.deep.equal([
+        ["MetadataUpdate", { _tokenId: 1n }],
+      ]);
+      await nft.write.reveal();
+      expect(await metadataEvents(nft, randomness.write.fulfill([1n, 5n]))).to.deep.equal(all);
+      expect(await metadataEvents(nft, nft.write.setHiddenURI(["ipfs://hidden2.json"]))).to.deep.equal(all);
+      expect(await metadataEvents(nft, nft.write.setRevealedURI(["ipfs://revealed.json"]))).to.deep.equal(all);
+      expect(await metadataEvents(nft, nft.write.setSingleMetadataMode([false]))).to.deep.equal(all);
+      expect(await metadataEvents(nft, nft.write.setCollectionName(["Genesis"]))).to.deep.equal(all);
+    });
+
+    it("✅ supports ERC721, ERC-4906, EIP-2981 and ERC165", async () => {
+      const { nft } = await deployFixture();
+
+      for (const interfaceId of ["0x01ffc9a7", "0x80ac58cd", "0x5b5e139f", "0x49064906", "0x2a55205a"] as const) {
+        expect(await nft.read.supportsInterface([interfaceId])).to.equal(true);
+      }
+      expect(await nft.read.supportsInterface(["0xd9b67a26"])).to.equal(false);
+      expect(await nft.read.supportsInterface(["0xffffffff"])).to.equal(false);
+    });
+
+    it("✅ owner sets default and per-token royalties", async () => {
+      const { nft, owner, admin, other } = await deployFixture();
+      const royalty = async (tokenId: bigint, price: bigint) =>
+        ((await nft.read.royaltyInfo([tokenId, price])) as unknown as [string, bigint]).map((v) =>
+          typeof v === "string" ? v.toLowerCase() : v
+        );
+
+      expect(await royalty(1n, 10_000n)).to.deep.equal(["0x0000000000000000000000000000000000000000", 0n]);
+
+      // 5% to the treasury, 10% to an artist for token #7
+      await nft.write.setDefaultRoyalty([admin.account.address, 500n], { account: owner.account });
+      await nft.write.setTokenRoyalty([7n, other.account.address, 1000n], { account: owner.account });
+      expect(await royalty(1n, 10_000n)).to.deep.equal([admin.account.address, 500n]);
+      expect(await royalty(7n, 10_000n)).to.deep.equal([other.account.address, 1000n]);
+
+      await nft.write.resetTokenRoyalty([7n], { account: owner.account });
+      expect(await royalty(7n, 10_000n)).to.deep.equal([admin.account.address, 500n]);
+
+      await nft.write.deleteDefaultRoyalty([], { account: owner.account });
+      expect(await royalty(7n, 10_000n)).to.deep.equal(["0x0000000000000000000000000000000000000000", 0n]);
+    });
+
+    it("❌ only the owner sets royalties, capped at 100%", async () => {
+      const { nft, owner, admin } = await deployFixture();
+
+      await expectRevert(nft.write.setDefaultRoyalty([admin.account.address, 500n], { account: admin.account }), "Not owner");
+      await expectRevert(nft.write.setTokenRoyalty([1n, admin.account.address, 500n], { account: admin.account }), "Not owner");
+      await expectRevert(
+        nft.write.setDefaultRoyalty([admin.account.address, 10_001n], { account: owner.account }),
+        "ERC2981InvalidDefaultRoyalty"
+      );
+    });
+  });
+
+  describe("provenance and reveal", () => {
+    async function expectRevert(tx: Promise<any>, reason: string) {
+      let reverted = false;
+      try {
+        await tx;
+      } catch (err: any) {
+        reverted = true;
+        expect(err.message).to.include(reason);
+      }
+      expect(reverted).to.be.true;
+    }
+
+    async function mint(nft: any, signer: any, to: any, chainId: number) {
+      const signature = await signPermit(
+        "genesisMint",
+        signer,
+        { chainId, verifyingContract: nft.address },
+        { to: to.account.address, nonce: 0n, deadline: 0n }
+      );
+      await nft.write.mintWithPermit([to.account.address, 0n, 0n, signature], { account: to.account });
+    }
+
+    it("✅ provenance is committed once, before the first mint", async () => {
+      const { randomness, owner, user, chainId } = await deployFixture();
+      const nft = await viem.deployContract("GenesisNFT", [
+        "Genesis NFT",
+        "OG",
+        "Genesis of the Mibboverse",
+        "ipfs://hidden.json",
+        randomness.address,
+      ]);
+
+      await expectRevert(mint(nft, owner, user, chainId), "Provenance not set");
+      await expectRevert(nft.write.reveal([], { account: owner.account }), "Provenance not set");
+      await expectRevert(nft.write.setProvenanceHash([PROVENANCE], { account: user.account }), "Missing role");
+      await expectRevert(nft.write.setProvenanceHash([`0x${"00".repeat(32)}`], { account: owner.account }), "Empty provenance");
+
+      await nft.write.setProvenanceHash([PROVENANCE], { account: owner.account });
+      expect(await nft.read.provenanceHash()).to.equal(PROVENANCE);
+      await expectRevert(
+        nft.write.setProvenanceHash([keccak256(toHex("reshuffled"))], { account: owner.account }),
+        "Provenance already set"
+      );
+
+      await mint(nft, owner, user, chainId);
+      expect(((await nft.read.ownerOf([1n])) as unknown as string).toLowerCase()).to.equal(user.account.address);
+    });
+
+    it("✅ reveal maps token ids through the random starting index", async () => {
+      const { nft, randomness, owner, user, other, chainId } = await deployFixture();
+      await mint(nft, owner, user, chainId);
+      await mint(nft, owner, other, chainId);
+      await nft.write.setSingleMetadataMode([false], { account: owner.account });
+      await nft.write.setBaseURI(["ipfs://genesis/"], { account: owner.account });
+
+      await nft.write.reveal([], { account: owner.account });
+      expect(await nft.read.revealRequestId()).to.equal(1n);
+      expect(await nft.read.revealed()).to.equal(false);
+      expect(await nft.read.tokenURI([1n])).to.equal("ipfs://hidden.json");
+
+      // 5 * 333 + 10 → token #1 shows file 11
+      await randomness.write.fulfill([1n, 5n * 333n + 10n]);
+
+      expect(await nft.read.revealed()).to.equal(true);
+      expect(await nft.read.startingIndex()).to.equal(10n);
+      expect(await nft.read.tokenURI([1n])).to.equal("ipfs://genesis/11.json");
+      expect(await nft.read.tokenURI([2n])).to.equal("ipfs://genesis/12.json");
+      expect(await nft.read.metadataIdOf([333n])).to.equal(10n);
+      expect(await nft.read.metadataIdOf([324n])).to.equal(1n);
+      for (const tokenId of [1, 2, 324, 333]) {
+        expect(await nft.read.metadataIdOf([BigInt(tokenId)])).to.equal(BigInt(metadataIdOf(tokenId, 10)));
+      }
+      await expectRevert(nft.read.metadataIdOf([334n]), "Invalid token id");
+    });
+
+    it("❌ reveal happens once, and cannot be re-rolled by switching providers", async () => {
+      const { nft, randomness, owner, user } = await deployFixture();
+
+      // The provider can change until the reveal is requested
+      const replacement = await viem.deployContract("MockRandomnessProvider", []);
+      await expectRevert(
+        nft.write.setRandomnessProvider([replacement.address], { account: user.account }),
+        "OwnableUnauthorizedAccount"
+      );
+      await nft.write.setRandomnessProvider([replacement.address], { account: owner.account });
+      await nft.write.setRandomnessProvider([randomness.address], { account: owner.account });
+
+      await nft.write.reveal([], { account: owner.account });
+      await expectRevert(nft.write.reveal([], { account: owner.account }), "Reveal pending");
+      await expectRevert(nft.write.fulfillRandomness([1n, 3n], { account: user.account }), "Not randomness provider");
+      await expectRevert(
+        nft.write.setRandomnessProvider([replacement.address], { account: owner.account }),
+        "Reveal already requested"
+      );
+
+      await randomness.write.fulfill([1n, 3n]);
+      expect(await nft.read.revealed()).to.equal(true);
+      expect(await nft.read.startingIndex()).to.equal(3n);
+
+      await expectRevert(nft.write.reveal([], { account: owner.account }), "Already revealed");
+      await expectRevert(
+        nft.write.setRandomnessProvider([replacement.address], { account: owner.account }),
+        "Reveal already requested"
+      );
+    });
+
+    it("❌ minting closes once the reveal is requested", async () => {
+      const { nft, randomness, owner, user, other, chainId } = await deployFixture();
+      await mint(nft, owner, user, chainId);
+      await nft.write.reveal([], { account: owner.account });
+
+      await expectRevert(mint(nft, owner, other, chainId), "Reveal already requested");
+
+      // The answer would tell the next minter which metadata file their token gets
+      await randomness.write.fulfill([1n, 7n]);
+      await expectRevert(mint(nft, owner, other, chainId), "Reveal already requested");
+      expect(await nft.read.totalSupply()).to.equal(1n);
+    });
+
+    it("❌ per-token metadata is frozen once the reveal is requested", async () => {
+      const { nft, randomness, owner, user, chainId } = await deployFixture();
+      await mint(nft, owner, user, chainId);
+      await nft.write.setSingleMetadataMode([false], { account: owner.account });
+      await nft.write.setBaseURI(["ipfs://genesis/"], { account: owner.account });
+
+      // A custom URI set before the reveal only replaces the hidden placeholder
+      await nft.write.setCustomTokenURI([1n, "ipfs://custom.json"], { account: owner.account });
+      expect(await nft.read.tokenURI([1n])).to.equal("ipfs://custom.json");
+
+      await nft.write.reveal([], { account: owner.account });
+      await expectRevert(nft.write.setBaseURI(["ipfs://other/"], { account: owner.account }), "Reveal already requested");
+
+      await randomness.write.fulfill([1n, 0n]);
+      await expectRevert(nft.write.setBaseURI(["ipfs://other/"], { account: owner.account }), "Reveal already requested");
+      await expectRevert(
+        nft.write.setCustomTokenURI([1n, "ipfs://custom.json"], { account: owner.account }),
+        "Reveal already requested"
+      );
+      expect(await nft.read.tokenURI([1n])).to.equal("ipfs://genesis/1.json");
+    });
+
+    it("✅ provenance task hashes a metadata folder in token order", async () => {
+      const dir = await mkdtemp(join(tmpdir(), "genesis-metadata-"));
+      const contents = [1, 2, 3].map((id) => JSON.stringify({ name: `Genesis Egg #${id}` }));
+      for (const [i, content] of contents.entries()) {
+        await writeFile(join(dir, `${i + 1}.json`), content);
+      }
+      await writeFile(join(dir, "README.md"), "ignored");
+
+      const expected = keccak256(concat(contents.map((content) => keccak256(toBytes(content)))));
+      const provenance = await computeProvenance(dir, 3);
+      expect(provenance.provenanceHash).to.equal(expected);
+      expect(provenance.files.map((file) => file.metadataId)).to.deep.equal([1, 2, 3]);
+
+      const out = join(dir, "provenance.json");
+      await tasks.getTask("provenance").run({ dir, supply: "3", out });
+      expect(JSON.parse(await readFile(out, "utf8")).provenanceHash).to.equal(expected);
+
+      let failed = false;
+      try {
+        await computeProvenance(dir);
+      } catch (err: any) {
+        failed = true;
+        expect(err.message).to.include("Missing metadata files");
+      }
+      expect(failed).to.be.true;
+    });
+  });
+});
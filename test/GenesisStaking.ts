@@ -0,0 +1,217 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import { encodeFunctionData, keccak256, toHex } from "viem";
+
+import { signPermit } from "../sdk/permits.js";
+
+const { viem } = await network.connect();
+
+describe("GenesisStaking", () => {
+  async function deployFixture() {
+    const [owner, user, other, friend] = await viem.getWalletClients();
+    const publicClient = await viem.getPublicClient();
+    const testClient = await viem.getTestClient();
+    const chainId = await publicClient.getChainId();
+
+    const randomness = await viem.deployContract("MockRandomnessProvider", []);
+    const genesis = await viem.deployContract("GenesisNFT", [
+      "Genesis NFT",
+      "OG",
+      "Genesis of the Mibboverse",
+      "ipfs://hidden.json",
+      randomness.address,
+    ]);
+    await genesis.write.setProvenanceHash([keccak256(toHex("genesis metadata"))], { account: owner.account });
+
+    // Crystals behind a UUPS proxy, as on mainnet
+    const crystalsImpl = await viem.deployContract("CrystalsV2", []);
+    const initData = encodeFunctionData({
+      abi: crystalsImpl.abi,
+      functionName: "initialize",
+      args: ["Crystals", "CRYS"],
+    });
+    const proxy = await viem.deployContract("ProxyExample", [crystalsImpl.address, initData]);
+    const crystals = await viem.getContractAt("CrystalsV2", proxy.address);
+
+    const staking = await viem.deployContract("GenesisStaking", [genesis.address, crystals.address]);
+    await crystals.write.grantRole([await crystals.read.MINTER_ROLE(), staking.address], { account: owner.account });
+
+    // Every address mints one egg; user ends up with #1 and #2, other with #3
+    for (const wallet of [user, friend, other]) {
+      const nonce = (await genesis.read.nonces([wallet.account.address])) as unknown as bigint;
+      const signature = await signPermit(
+        "genesisMint",
+        owner,
+        { chainId, verifyingContract: genesis.address },
+        { to: wallet.account.address, nonce, deadline: 0n }
+      );
+      await genesis.write.mintWithPermit([wallet.account.address, nonce, 0n, signature], { account: wallet.account });
+    }
+    await genesis.write.transferFrom([friend.account.address, user.account.address, 2n], { account: friend.account });
+
+    for (const wallet of [user, other]) {
+      await genesis.write.setApprovalForAll([staking.address, true], { account: wallet.account });
+    }
+
+    // Runs the next transaction at an exact timestamp, so accruals are deterministic
+    const start = (await publicClient.getBlock()).timestamp + 100n;
+    const at = async (offset: bigint) => testClient.setNextBlockTimestamp({ timestamp: start + offset });
+    const mineAt = async (offset: bigint) => {
+      await at(offset);
+      await testClient.mine({ blocks: 1 });
+    };
+
+    return { genesis, crystals, staking, owner, user, other, at, mineAt };
+  }
+
+  async function expectRevert(tx: Promise<any>, reason: string) {
+    let reverted = false;
+    try {
+      await tx;
+    } catch (err: any) {
+      reverted = true;
+      expect(err.message).to.include(reason);
+    }
+    expect(reverted).to.be.true;
+  }
+
+  it("✅ multiple staked tokens accrue independently", async () => {
+    const { genesis, staking, owner, user, other, at, mineAt } = await deployFixture();
+
+    await at(0n);
+    await staking.write.setRewardRate([10n], { account: owner.account });
+    await at(10n);
+    await staking.write.stake([[1n, 2n]], { account: user.account });
+    await at(40n);
+    await staking.write.stake([[3n]], { account: other.account });
+    await mineAt(100n);
+
+    expect(((await genesis.read.ownerOf([1n])) as unknown as string).toLowerCase()).to.equal(staking.address);
+    expect(await staking.read.stakedTokens([user.account.address])).to.deep.equal([1n, 2n]);
+    expect(await staking.read.pendingReward([1n])).to.equal(900n);
+    expect(await staking.read.pendingReward([3n])).to.equal(600n);
+    expect(await staking.read.pendingRewards([user.account.address])).to.equal(1800n);
+    expect(await staking.read.pendingRewards([other.account.address])).to.equal(600n);
+    expect(await staking.read.pendingReward([4n])).to.equal(0n);
+  });
+
+  it("✅ rate changes mid-stake settle earlier rewards at the old rate", async () => {
+    const { crystals, staking, owner, user, at, mineAt } = await deployFixture();
+
+    await at(0n);
+    await staking.write.setRewardRate([10n], { account: owner.account });
+    await at(1n);
+    await staking.write.stake([[1n, 2n]], { account: user.account });
+    await at(101n);
+    await staking.write.setRewardRate([25n], { account: owner.account });
+    await mineAt(141n);
+
+    // 100s at 10 plus 40s at 25, for each of the two tokens
+    expect(await staking.read.pendingRewards([user.account.address])).to.equal(2n * (1000n + 1000n));
+
+    await at(151n);
+    await staking.write.setRewardRate([0n], { account: owner.account });
+    await at(500n);
+    await staking.write.claim([], { account: user.account });
+
+    expect(await crystals.read.balanceOf([user.account.address])).to.equal(2n * (1000n + 1250n));
+    expect(await staking.read.pendingRewards([user.account.address])).to.equal(0n);
+  });
+
+  it("✅ claim mints Crystals, unstake pays the rest and returns the token", async () => {
+    const { genesis, crystals, staking, owner, user, other, at } = await deployFixture();
+
+    await at(0n);
+    await staking.write.setRewardRate([3n], { account: owner.account });
+    await at(1n);
+    await staking.write.stake([[1n, 2n]], { account: user.account });
+    await at(11n);
+    await staking.write.claim([], { account: user.account });
+    expect(await crystals.read.balanceOf([user.account.address])).to.equal(60n);
+
+    await expectRevert(staking.write.unstake([[1n]], { account: other.account }), "Not staker");
+
+    await at(21n);
+    await staking.write.unstake([[1n]], { account: user.account });
+    expect(await crystals.read.balanceOf([user.account.address])).to.equal(90n);
+    expect(((await genesis.read.ownerOf([1n])) as unknown as string).toLowerCase()).to.equal(user.account.address);
+    expect(await staking.read.stakedTokens([user.account.address])).to.deep.equal([2n]);
+
+    // Token #2 kept earning since the last claim, and keeps earning after #1 left
+    await at(31n);
+    await staking.write.claim([], { account: user.account });
+    expect(await crystals.read.balanceOf([user.account.address])).to.equal(150n);
+  });
+
+  it("✅ rewards can be paid from TokenVault reserves instead of minted", async () => {
+    const { crystals, staking, owner, user, at } = await deployFixture();
+
+    const vault = await viem.deployContract("TokenVault", []);
+    await vault.write.setAllowedToken([crystals.address, true], { account: owner.account });
+    await vault.write.grantRole([await vault.read.PAYOUT_ROLE(), staking.address], { account: owner.account });
+    await crystals.write.setContractWhitelist([vault.address, true], { account: owner.account });
+    await crystals.write.mint([vault.address, 1000n], { account: owner.account });
+
+    await staking.write.setRewardSource([1, vault.address], { account: owner.account });
+    await at(0n);
+    await staking.write.setRewardRate([5n], { account: owner.account });
+    await at(1n);
+    await staking.write.stake([[1n]], { account: user.account });
+
+    await at(21n);
+    await staking.write.claim([], { account: user.account });
+    expect(await crystals.read.balanceOf([user.account.address])).to.equal(100n);
+    expect(await crystals.read.balanceOf([vault.address])).to.equal(900n);
+    expect(await crystals.read.totalSupply()).to.equal(1000n);
+
+    // The vault's per-signer cap bounds what the staking contract can pay out
+    await vault.write.setClaimLimits([crystals.address, 0n, 0n, 150n], { account: owner.account });
+    await at(41n);
+    await expectRevert(staking.write.claim([], { account: user.account }), "Signer epoch cap exceeded");
+  });
+
+  it("✅ emergencyUnstake returns eggs when payouts fail, and claim pays the owed rewards later", async () => {
+    const { genesis, crystals, staking, owner, user, at } = await deployFixture();
+
+    // The vault has no reserves yet, so every payout reverts
+    const vault = await viem.deployContract("TokenVault", []);
+    await vault.write.setAllowedToken([crystals.address, true], { account: owner.account });
+    await vault.write.grantRole([await vault.read.PAYOUT_ROLE(), staking.address], { account: owner.account });
+    await crystals.write.setContractWhitelist([vault.address, true], { account: owner.account });
+
+    await staking.write.setRewardSource([1, vault.address], { account: owner.account });
+    await at(0n);
+    await staking.write.setRewardRate([5n], { account: owner.account });
+    await at(1n);
+    await staking.write.stake([[1n, 2n]], { account: user.account });
+
+    await at(11n);
+    await expectRevert(staking.write.unstake([[1n]], { account: user.account }), "Insufficient vault reserves");
+    await at(21n);
+    await staking.write.emergencyUnstake([[1n]], { account: user.account });
+
+    expect(((await genesis.read.ownerOf([1n])) as unknown as string).toLowerCase()).to.equal(user.account.address);
+    expect(await staking.read.owedRewards([user.account.address])).to.equal(100n);
+    expect(await staking.read.pendingRewards([user.account.address])).to.equal(200n);
+
+    // Token #2 keeps earning; the owed rewards are paid with it once the vault is funded
+    await crystals.write.mint([vault.address, 1000n], { account: owner.account });
+    await at(31n);
+    await staking.write.claim([], { account: user.account });
+
+    expect(await crystals.read.balanceOf([user.account.address])).to.equal(250n);
+    expect(await staking.read.owedRewards([user.account.address])).to.equal(0n);
+  });
+
+  it("❌ only the owner configures rewards, and only staked tokens can be unstaked", async () => {
+    const { staking, user } = await deployFixture();
+
+    await expectRevert(staking.write.setRewardRate([1n], { account: user.account }), "OwnableUnauthorizedAccount");
+    await expectRevert(
+      staking.write.setRewardSource([1, user.account.address], { account: user.account }),
+      "OwnableUnauthorizedAccount"
+    );
+    await expectRevert(staking.write.unstake([[1n]], { account: user.account }), "Not staker");
+    await expectRevert(staking.write.stake([[]], { account: user.account }), "No tokens");
+  });
+});
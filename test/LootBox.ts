@@ -0,0 +1,213 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import { encodeFunctionData } from "viem";
+
+import LootBoxModule from "../ignition/modules/LootBox.js";
+
+const { viem, ignition } = await network.connect();
+
+describe("LootBox", () => {
+  async function deployFixture() {
+    const [owner, user, other] = await viem.getWalletClients();
+
+    const artifacts = await viem.deployContract("ArtifactsERC1155", []);
+
+    // Crystals behind a UUPS proxy, as on mainnet
+    const crystalsImpl = await viem.deployContract("CrystalsV2", []);
+    const initData = encodeFunctionData({
+      abi: crystalsImpl.abi,
+      functionName: "initialize",
+      args: ["Crystals", "CRYS"],
+    });
+    const proxy = await viem.deployContract("ProxyExample", [crystalsImpl.address, initData]);
+    const crystals = await viem.getContractAt("CrystalsV2", proxy.address);
+
+    const provider = await viem.deployContract("MockRandomnessProvider", []);
+    const lootBox = await viem.deployContract("LootBox", [crystals.address, artifacts.address, provider.address, 50n]);
+
+    await artifacts.write.grantRole([await artifacts.read.MINTER_ROLE(), lootBox.address], { account: owner.account });
+    await crystals.write.setContractWhitelist([lootBox.address, true], { account: owner.account });
+
+    // Common shard #1 (x3), rare gem #2, legendary relic #3
+    for (const id of [1n, 2n, 3n]) {
+      await artifacts.write.setArtifactType([id, 0n, 0n, 0n, true], { account: owner.account });
+    }
+    await lootBox.write.setDropTable([[1n, 2n, 3n], [70, 25, 5], [3n, 1n, 1n], [0, 1, 3]], { account: owner.account });
+
+    await crystals.write.mint([user.account.address, 1000n], { account: owner.account });
+    await crystals.write.approve([lootBox.address, 1000n], { account: user.account });
+
+    return { artifacts, crystals, provider, lootBox, owner, user, other };
+  }
+
+  async function expectRevert(tx: Promise<any>, reason: string) {
+    let reverted = false;
+    try {
+      await tx;
+    } catch (err: any) {
+      reverted = true;
+      expect(err.message).to.include(reason);
+    }
+    expect(reverted).to.be.true;
+  }
+
+  it("✅ opening escrows the price and the provider's answer burns it and mints the weighted drop", async () => {
+    const { artifacts, crystals, provider, lootBox, user } = await deployFixture();
+
+    await lootBox.write.open([], { account: user.account });
+    expect(await crystals.read.balanceOf([user.account.address])).to.equal(950n);
+    expect(await crystals.read.balanceOf([lootBox.address])).to.equal(50n);
+    const [player, version, paid] = (await lootBox.read.pendingOpens([provider.address, 1n])) as unknown as [
+      string,
+      bigint,
+      bigint,
+    ];
+    expect(player.toLowerCase()).to.equal(user.account.address);
+    expect([version, paid]).to.deep.equal([1n, 50n]);
+
+    // 0-69 → shard, 70-94 → gem, 95-99 → relic
+    await provider.write.fulfill([1n, 169n]);
+    expect(await artifacts.read.balanceOf([user.account.address, 1n])).to.equal(3n);
+    expect(await crystals.read.balanceOf([lootBox.address])).to.equal(0n);
+    expect(await crystals.read.totalSupply()).to.equal(950n);
+
+    await lootBox.write.open([], { account: user.account });
+    await provider.write.fulfill([2n, 94n]);
+    expect(await artifacts.read.balanceOf([user.account.address, 2n])).to.equal(1n);
+
+    await lootBox.write.open([], { account: user.account });
+    await provider.write.fulfill([3n, 95n]);
+    expect(await artifacts.read.balanceOf([user.account.address, 3n])).to.equal(1n);
+  });
+
+  it("✅ drop table and odds are readable on-chain", async () => {
+    const { lootBox } = await deployFixture();
+
+    expect(await lootBox.read.getDropTable()).to.deep.equal([
+      [1n, 2n, 3n],
+      [70, 25, 5],
+      [3n, 1n, 1n],
+      [0, 1, 3],
+    ]);
+    expect(await lootBox.read.totalWeight()).to.equal(100n);
+    expect(await lootBox.read.dropCount()).to.equal(3n);
+    expect(await lootBox.read.dropAt([2n])).to.deep.equal({ artifactId: 3n, amount: 1n, weight: 5, rarity: 3 });
+    expect(await lootBox.read.price()).to.equal(50n);
+  });
+
+  it("✅ pity guarantees the configured rarity after a losing streak", async () => {
+    const { artifacts, provider, lootBox, owner, user } = await deployFixture();
+
+    // Legendary guaranteed on the 3rd box without one
+    await lootBox.write.setPity([3, 3], { account: owner.account });
+    expect(await lootBox.read.pityWeight()).to.equal(5n);
+    expect(await lootBox.read.opensUntilPity([user.account.address])).to.equal(3n);
+
+    for (const id of [1n, 2n]) {
+      await lootBox.write.open([], { account: user.account });
+      await provider.write.fulfill([id, 0n]);
+    }
+    expect(await lootBox.read.pityCounter([user.account.address])).to.equal(2n);
+    expect(await lootBox.read.opensUntilPity([user.account.address])).to.equal(1n);
+
+    // A roll that would normally be a shard
+    await lootBox.write.open([], { account: user.account });
+    await provider.write.fulfill([3n, 0n]);
+    expect(await artifacts.read.balanceOf([user.account.address, 3n])).to.equal(1n);
+    expect(await lootBox.read.pityCounter([user.account.address])).to.equal(0n);
+
+    // A lucky legendary also resets the counter
+    await lootBox.write.open([], { account: user.account });
+    await provider.write.fulfill([4n, 0n]);
+    await lootBox.write.open([], { account: user.account });
+    await provider.write.fulfill([5n, 99n]);
+    expect(await lootBox.read.pityCounter([user.account.address])).to.equal(0n);
+  });
+
+  it("✅ pending boxes keep the odds they were opened with, and unfulfilled boxes are refunded", async () => {
+    const { artifacts, crystals, provider, lootBox, owner, user, other } = await deployFixture();
+    const testClient = await viem.getTestClient();
+
+    // The owner swaps in a legendary-only table and a pity rule after the player paid
+    await lootBox.write.open([], { account: user.account });
+    await lootBox.write.setDropTable([[3n], [1], [1n], [3]], { account: owner.account });
+    await lootBox.write.setPity([3, 1], { account: owner.account });
+    expect(await lootBox.read.tableVersion()).to.equal(3n);
+    expect(await lootBox.read.dropCount()).to.equal(1n);
+
+    await provider.write.fulfill([1n, 0n]);
+    expect(await artifacts.read.balanceOf([user.account.address, 1n])).to.equal(3n);
+    expect(await artifacts.read.balanceOf([user.account.address, 3n])).to.equal(0n);
+    expect(await lootBox.read.pityCounter([user.account.address])).to.equal(0n);
+
+    // A box the current provider never answers is refunded after OPEN_TIMEOUT
+    await lootBox.write.open([], { account: user.account });
+    await expectRevert(lootBox.write.cancelOpen([provider.address, 2n], { account: other.account }), "Not box owner");
+    await expectRevert(lootBox.write.cancelOpen([provider.address, 2n], { account: user.account }), "Box still pending");
+    await testClient.increaseTime({ seconds: 24 * 60 * 60 });
+    await testClient.mine({ blocks: 1 });
+    await lootBox.write.cancelOpen([provider.address, 2n], { account: user.account });
+    expect(await crystals.read.balanceOf([user.account.address])).to.equal(950n);
+    await expectRevert(provider.write.fulfill([2n, 0n]), "Unknown request");
+
+    // Boxes pending at a replaced provider are refunded at once
+    await lootBox.write.open([], { account: user.account });
+    const replacement = await viem.deployContract("MockRandomnessProvider", []);
+    await lootBox.write.setRandomnessProvider([replacement.address], { account: owner.account });
+    await lootBox.write.cancelOpen([provider.address, 3n], { account: user.account });
+    expect(await crystals.read.balanceOf([user.account.address])).to.equal(950n);
+    expect(await crystals.read.balanceOf([lootBox.address])).to.equal(0n);
+  });
+
+  it("❌ configuration is owner-only and validated", async () => {
+    const { lootBox, owner, other } = await deployFixture();
+
+    await expectRevert(lootBox.write.setPrice([1n], { account: other.account }), "OwnableUnauthorizedAccount");
+    await expectRevert(
+      lootBox.write.setDropTable([[1n], [1], [1n], [0]], { account: other.account }),
+      "OwnableUnauthorizedAccount"
+    );
+    await expectRevert(lootBox.write.setDropTable([[], [], [], []], { account: owner.account }), "Empty drop table");
+    await expectRevert(lootBox.write.setDropTable([[1n], [1, 2], [1n], [0]], { account: owner.account }), "Length mismatch");
+    await expectRevert(lootBox.write.setDropTable([[1n], [0], [1n], [0]], { account: owner.account }), "Weight must be > 0");
+    await expectRevert(lootBox.write.setDropTable([[1n], [1], [1n], [4]], { account: owner.account }), "Invalid rarity");
+
+    // Pity needs at least one drop it can award
+    await lootBox.write.setPity([3, 10], { account: owner.account });
+    await expectRevert(
+      lootBox.write.setDropTable([[1n], [1], [1n], [0]], { account: owner.account }),
+      "No drops at pity rarity"
+    );
+  });
+
+  it("❌ opening needs Crystals and only the provider fulfills, once", async () => {
+    const { provider, lootBox, user, other } = await deployFixture();
+
+    await expectRevert(lootBox.write.open([], { account: other.account }), "ERC20: insufficient allowance");
+
+    await lootBox.write.open([], { account: user.account });
+    await expectRevert(lootBox.write.fulfillRandomness([1n, 0n], { account: user.account }), "Not randomness provider");
+
+    await provider.write.fulfill([1n, 0n]);
+    await expectRevert(provider.write.fulfill([1n, 0n]), "Unknown request");
+  });
+
+  it("✅ Ignition module deploys the loot box with its price", async () => {
+    const { crystals, artifacts, provider } = await deployFixture();
+
+    const { lootBox } = await ignition.deploy(LootBoxModule, {
+      parameters: {
+        LootBoxModule: {
+          crystals: crystals.address,
+          artifacts: artifacts.address,
+          randomnessProvider: provider.address,
+          price: 25n,
+        },
+      },
+    });
+
+    const deployed = await viem.getContractAt("LootBox", (await lootBox.getAddress()) as `0x${string}`);
+    expect(await deployed.read.price()).to.equal(25n);
+    expect(((await deployed.read.randomnessProvider()) as unknown as string).toLowerCase()).to.equal(provider.address);
+  });
+});
@@ -0,0 +1,63 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import { readDeploymentParameters } from "@nomicfoundation/hardhat-ignition/helpers";
+
+import MibboverseModule from "../ignition/modules/Mibboverse.js";
+
+const { viem, ignition } = await network.connect();
+
+describe("MibboverseModule", () => {
+  async function deploy(parameters: Record<string, any>) {
+    const deployed = await ignition.deploy(MibboverseModule, { parameters });
+    const address = async (contract: { getAddress(): Promise<string> }) => (await contract.getAddress()) as `0x${string}`;
+
+    return {
+      artifacts: await viem.getContractAt("ArtifactsERC1155", await address(deployed.artifacts)),
+      crystals: await viem.getContractAt("CrystalsV2", await address(deployed.crystals)),
+      genesis: await viem.getContractAt("GenesisNFT", await address(deployed.genesis)),
+      coordinator: await viem.getContractAt("RandomnessCoordinator", await address(deployed.coordinator)),
+      vault: await viem.getContractAt("TokenVault", await address(deployed.vault)),
+    };
+  }
+
+  it("✅ deploys and wires every contract from the hardhatOp parameters", async () => {
+    const parameters = await readDeploymentParameters("ignition/parameters/hardhatOp.json");
+    const { artifacts, crystals, genesis, coordinator, vault } = await deploy(parameters);
+    const [owner, backend] = await viem.getWalletClients();
+
+    for (const contract of [artifacts, crystals, genesis, vault]) {
+      expect(((await contract.read.owner()) as unknown as string).toLowerCase()).to.equal(owner.account.address);
+      expect(await contract.read.admins([backend.account.address])).to.equal(true);
+    }
+
+    expect(await vault.read.allowedTokens([crystals.address])).to.equal(true);
+    expect(((await genesis.read.randomnessProvider()) as unknown as string).toLowerCase()).to.equal(
+      coordinator.address.toLowerCase()
+    );
+    expect(await coordinator.read.consumers([genesis.address])).to.equal(true);
+    expect(
+      await coordinator.read.hasRole([await coordinator.read.RANDOMNESS_OPERATOR_ROLE(), backend.account.address])
+    ).to.equal(true);
+    expect(await crystals.read.contractWhitelist([vault.address])).to.equal(true);
+
+    expect(await artifacts.read.token_name([2n])).to.equal("Ember Gem");
+    expect(await artifacts.read.uri([3n])).to.equal("ipfs://artifacts/3.json");
+
+    expect(await crystals.read.balanceOf([vault.address])).to.equal(10n ** 24n);
+    expect(await vault.read.availableBalance([crystals.address])).to.equal(10n ** 24n);
+  });
+
+  it("✅ vault funding, artifact metadata and the randomness operator are optional", async () => {
+    const [owner, backend] = await viem.getWalletClients();
+    const { artifacts, crystals, coordinator, vault } = await deploy({
+      MibboverseModule: { backendSigner: backend.account.address },
+    });
+
+    expect(await crystals.read.balanceOf([vault.address])).to.equal(0n);
+    expect(await artifacts.read.uri([1n])).to.equal("");
+    expect(await vault.read.admins([backend.account.address])).to.equal(true);
+    expect(
+      await coordinator.read.hasRole([await coordinator.read.RANDOMNESS_OPERATOR_ROLE(), owner.account.address])
+    ).to.equal(true);
+  });
+});
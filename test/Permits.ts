@@ -0,0 +1,147 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import { keccak256, parseEther, toHex } from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+
+import {
+  preparePermit,
+  recoverPermitSigner,
+  signPermit,
+  verifyPermit,
+} from "../sdk/permits.js";
+
+const { viem } = await network.connect();
+
+describe("Permit signing SDK", () => {
+  async function deployFixture() {
+    const [owner, user, other] = await viem.getWalletClients();
+
+    const artifacts = await viem.deployContract("ArtifactsERC1155", []);
+    const randomness = await viem.deployContract("MockRandomnessProvider", []);
+    const nft = await viem.deployContract("GenesisNFT", [
+      "Genesis NFT",
+      "OG",
+      "Genesis of the Mibboverse",
+      "ipfs://hidden.json",
+      randomness.address,
+    ]);
+    await nft.write.setProvenanceHash([keccak256(toHex("genesis metadata"))]);
+    const erc20 = await viem.deployContract("TestToken", ["TestToken", "TTK"]);
+    const vault = await viem.deployContract("TokenVault", []);
+
+    // Backend signer is a plain local account, as on the game server
+    const backend = privateKeyToAccount(generatePrivateKey());
+
+    const publicClient = await viem.getPublicClient();
+    const chainId = await publicClient.getChainId();
+
+    return { artifacts, nft, erc20, vault, owner, user, other, backend, publicClient, chainId };
+  }
+
+  it("✅ preparePermit reads the nonce and signs with a local account", async () => {
+    const { artifacts, owner, user, backend, publicClient } = await deployFixture();
+
+    await artifacts.write.setAdmin([backend.address, true], { account: owner.account });
+    await artifacts.write.setArtifactType([1n, 0n, 0n, 0n, true], { account: owner.account });
+
+    const first = await preparePermit("artifactsMint", publicClient, backend, artifacts.address, {
+      to: user.account.address,
+      id: 1n,
+      amount: 3n,
+      deadline: 0n,
+    });
+    expect(first.message.nonce).to.equal(0n);
+
+    await artifacts.write.mintWithPermit(
+      [user.account.address, 1n, 3n, first.message.nonce, 0n, first.signature],
+      { account: user.account }
+    );
+
+    const second = await preparePermit("artifactsMint", publicClient, backend, artifacts.address, {
+      to: user.account.address,
+      id: 1n,
+      amount: 2n,
+      deadline: 0n,
+    });
+    expect(second.message.nonce).to.equal(1n);
+
+    await artifacts.write.mintWithPermit(
+      [user.account.address, 1n, 2n, second.message.nonce, 0n, second.signature],
+      { account: user.account }
+    );
+
+    expect(await artifacts.read.balanceOf([user.account.address, 1n])).to.equal(5n);
+  });
+
+  it("✅ recoverPermitSigner returns the signing address", async () => {
+    const { nft, user, backend, chainId } = await deployFixture();
+
+    const domain = { chainId, verifyingContract: nft.address };
+    const message = { to: user.account.address, nonce: 0n, deadline: 0n };
+    const signature = await signPermit("genesisMint", backend, domain, message);
+
+    const signer = await recoverPermitSigner("genesisMint", domain, message, signature);
+    expect(signer).to.equal(backend.address);
+  });
+
+  it("✅ verifyPermit accepts owner and admin signatures with a current nonce", async () => {
+    const { vault, erc20, owner, user, backend, publicClient } = await deployFixture();
+
+    await vault.write.setAdmin([backend.address, true], { account: owner.account });
+
+    const unsigned = {
+      to: user.account.address,
+      token: erc20.address,
+      amount: parseEther("1"),
+      deadline: 0n,
+    };
+
+    const fromOwner = await preparePermit("vaultClaim", publicClient, owner, vault.address, unsigned);
+    const fromAdmin = await preparePermit("vaultClaim", publicClient, backend, vault.address, unsigned);
+    const domain = { chainId: await publicClient.getChainId(), verifyingContract: vault.address };
+
+    expect(await verifyPermit("vaultClaim", publicClient, domain, fromOwner.message, fromOwner.signature)).to.equal(true);
+    expect(await verifyPermit("vaultClaim", publicClient, domain, fromAdmin.message, fromAdmin.signature)).to.equal(true);
+  });
+
+  it("❌ verifyPermit rejects unauthorized signers and spent nonces", async () => {
+    const { nft, owner, user, other, publicClient, chainId } = await deployFixture();
+
+    const domain = { chainId, verifyingContract: nft.address };
+
+    const forged = await preparePermit("genesisMint", publicClient, other, nft.address, {
+      to: user.account.address,
+      deadline: 0n,
+    });
+    expect(await verifyPermit("genesisMint", publicClient, domain, forged.message, forged.signature)).to.equal(false);
+
+    const valid = await preparePermit("genesisMint", publicClient, owner, nft.address, {
+      to: user.account.address,
+      deadline: 0n,
+    });
+    expect(await verifyPermit("genesisMint", publicClient, domain, valid.message, valid.signature)).to.equal(true);
+
+    await nft.write.mintWithPermit([user.account.address, valid.message.nonce, 0n, valid.signature], {
+      account: user.account,
+    });
+
+    expect(await verifyPermit("genesisMint", publicClient, domain, valid.message, valid.signature)).to.equal(false);
+  });
+
+  it("❌ verifyPermit rejects permits past their deadline", async () => {
+    const { nft, owner, other, publicClient, chainId } = await deployFixture();
+    const testClient = await viem.getTestClient();
+    const domain = { chainId, verifyingContract: nft.address };
+
+    const { timestamp } = await publicClient.getBlock();
+    const expiring = await preparePermit("genesisMint", publicClient, owner, nft.address, {
+      to: other.account.address,
+      deadline: timestamp + 60n,
+    });
+    expect(await verifyPermit("genesisMint", publicClient, domain, expiring.message, expiring.signature)).to.equal(true);
+
+    await testClient.increaseTime({ seconds: 61 });
+    await testClient.mine({ blocks: 1 });
+    expect(await verifyPermit("genesisMint", publicClient, domain, expiring.message, expiring.signature)).to.equal(false);
+  });
+});
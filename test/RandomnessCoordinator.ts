@@ -0,0 +1,221 @@
+import { expect } from "chai";
+import { network } from "hardhat";
+import { parseEventLogs, type Hex } from "viem";
+
+import RandomnessCoordinatorModule from "../ignition/modules/RandomnessCoordinator.js";
+import { commitmentOf, createCommitBatch, expectedRandomness, seedFor } from "../sdk/randomness.js";
+import { ROLES } from "../sdk/roles.js";
+
+const { viem, ignition } = await network.connect();
+
+describe("RandomnessCoordinator", () => {
+  async function deployFixture() {
+    const [owner, operator, other] = await viem.getWalletClients();
+
+    const coordinator = await viem.deployContract("RandomnessCoordinator", []);
+    const consumer = await viem.deployContract("MockRandomnessConsumer", [coordinator.address]);
+
+    await coordinator.write.grantRole(
+      [await coordinator.read.RANDOMNESS_OPERATOR_ROLE(), operator.account.address],
+      { account: owner.account }
+    );
+    await coordinator.write.setConsumer([consumer.address, true], { account: owner.account });
+
+    const batch = createCommitBatch(3);
+    await coordinator.write.commit([batch.commitments], { account: operator.account });
+
+    return { coordinator, consumer, batch, owner, operator, other };
+  }
+
+  // Sends a consumer request and returns the commitment and entropy the coordinator recorded
+  async function request(coordinator: any, consumer: any) {
+    const publicClient = await viem.getPublicClient();
+    const hash = await consumer.write.request();
+    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    const [event] = parseEventLogs({ abi: coordinator.abi, logs: receipt.logs, eventName: "RandomnessRequested" }) as any[];
+    return event.args as { requestId: bigint; commitment: Hex; entropy: Hex };
+  }
+
+  async function expectRevert(tx: Promise<any>, reason: string) {
+    let reverted = false;
+    try {
+      await tx;
+    } catch (err: any) {
+      reverted = true;
+      expect(err.message).to.include(reason);
+    }
+    expect(reverted).to.be.true;
+  }
+
+  it("✅ a revealed seed delivers the word the backend can recompute", async () => {
+    const { coordinator, consumer, batch, other } = await deployFixture();
+
+    const { requestId, commitment, entropy } = await request(coordinator, consumer);
+    expect(requestId).to.equal(1n);
+    expect(commitment).to.equal(batch.commitments[0]);
+    expect(await coordinator.read.availableCommitments()).to.equal(2n);
+    expect(await coordinator.read.pendingRequests()).to.equal(1n);
+
+    // Anyone holding the seed may reveal it
+    const seed = seedFor(batch, commitment)!;
+    await coordinator.write.reveal([requestId, seed], { account: other.account });
+
+    const word = expectedRandomness(seed, entropy, requestId);
+    expect(await consumer.read.results([requestId])).to.equal(word);
+    expect(await coordinator.read.pendingRequests()).to.equal(0n);
+  });
+
+  it("❌ reveals must match the commitment and happen once", async () => {
+    const { coordinator, consumer, batch } = await deployFixture();
+
+    const { requestId } = await request(coordinator, consumer);
+    await expectRevert(coordinator.write.reveal([requestId, batch.seeds[1]]), "Invalid seed");
+    await expectRevert(coordinator.write.reveal([9n, batch.seeds[0]]), "Unknown request");
+
+    await coordinator.write.reveal([requestId, batch.seeds[0]]);
+    await expectRevert(coordinator.write.reveal([requestId, batch.seeds[0]]), "Already fulfilled");
+  });
+
+  it("❌ only allowed consumers request, and only while commitments remain", async () => {
+    const { coordinator, consumer, owner, operator, other } = await deployFixture();
+
+    const stranger = await viem.deployContract("MockRandomnessConsumer", [coordinator.address]);
+    await expectRevert(stranger.write.request(), "Consumer not allowed");
+
+    await expectRevert(
+      coordinator.write.commit([[commitmentOf(`0x${"11".repeat(32)}`)]], { account: other.account }),
+      "Missing role"
+    );
+    await expectRevert(coordinator.write.commit([[]], { account: operator.account }), "No commitments");
+
+    for (let i = 0; i < 3; i++) {
+      await consumer.write.request();
+    }
+    await expectRevert(consumer.write.request(), "No commitments available");
+
+    await coordinator.write.setConsumer([consumer.address, false], { account: owner.account });
+    await coordinator.write.commit([[commitmentOf(`0x${"11".repeat(32)}`)]], { account: operator.account });
+    await expectRevert(consumer.write.request(), "Consumer not allowed");
+  });
+
+  it("✅ a reverting consumer does not block the reveal, and the word can be re-sent", async () => {
+    const { coordinator, consumer, batch, other } = await deployFixture();
+
+    const { requestId } = await request(coordinator, consumer);
+    await consumer.write.setRejectCallbacks([true]);
+    await coordinator.write.reveal([requestId, batch.seeds[0]]);
+
+    const [, , , randomness, fulfilled] = (await coordinator.read.requests([requestId])) as unknown as [
+      string,
+      Hex,
+      Hex,
+      bigint,
+      boolean,
+    ];
+    expect(fulfilled).to.equal(true);
+    expect(randomness).to.not.equal(0n);
+    expect(await consumer.read.results([requestId])).to.equal(0n);
+
+    await expectRevert(coordinator.write.retryDelivery([2n]), "Not fulfilled");
+    await coordinator.write.retryDelivery([requestId]);
+    expect(await consumer.read.results([requestId])).to.equal(0n);
+
+    // Anyone can re-send once the consumer accepts callbacks again
+    await consumer.write.setRejectCallbacks([false]);
+    await coordinator.write.retryDelivery([requestId], { account: other.account });
+    expect(await consumer.read.results([requestId])).to.equal(randomness);
+    await expectRevert(coordinator.write.retryDelivery([requestId]), "Already delivered");
+  });
+
+  it("❌ reveals without enough gas for the callback revert instead of dropping the word", async () => {
+    const { coordinator, consumer, batch, owner, other } = await deployFixture();
+
+    const { requestId } = await request(coordinator, consumer);
+    await expectRevert(
+      coordinator.write.reveal([requestId, batch.seeds[0]], { account: other.account, gas: 300_000n }),
+      "Insufficient gas for callback"
+    );
+    expect(await coordinator.read.pendingRequests()).to.equal(1n);
+
+    await expectRevert(coordinator.write.setCallbackGasLimit([100_000], { account: other.account }), "OwnableUnauthorizedAccount");
+    await coordinator.write.setCallbackGasLimit([100_000], { account: owner.account });
+    await coordinator.write.reveal([requestId, batch.seeds[0]], { account: other.account, gas: 300_000n });
+    expect(await consumer.read.results([requestId])).to.not.equal(0n);
+  });
+
+  it("✅ VRF adapter relays coordinator words to consumers", async () => {
+    const [owner, other] = await viem.getWalletClients();
+
+    const vrf = await viem.deployContract("MockVRFCoordinator", []);
+    const adapter = await viem.deployContract("VRFRandomnessAdapter", [vrf.address]);
+    const consumer = await viem.deployContract("MockRandomnessConsumer", [adapter.address]);
+
+    await expectRevert(consumer.write.request(), "Consumer not allowed");
+    await adapter.write.setConsumer([consumer.address, true], { account: owner.account });
+    await adapter.write.setVRFConfig([`0x${"ab".repeat(32)}`, 7n, 3, 300_000], { account: owner.account });
+
+    await consumer.write.request();
+    await expectRevert(
+      adapter.write.rawFulfillRandomWords([1n, [5n]], { account: other.account }),
+      "Not VRF coordinator"
+    );
+
+    await vrf.write.fulfillRandomWordsWithOverride([1n, [1234n]]);
+    expect(await consumer.read.results([1n])).to.equal(1234n);
+    await expectRevert(vrf.write.fulfillRandomWords([1n]), "Unknown request");
+  });
+
+  it("✅ VRF adapter keeps a word the consumer rejected and re-sends it on retry", async () => {
+    const [owner, other] = await viem.getWalletClients();
+
+    const vrf = await viem.deployContract("MockVRFCoordinator", []);
+    const adapter = await viem.deployContract("VRFRandomnessAdapter", [vrf.address]);
+    const consumer = await viem.deployContract("MockRandomnessConsumer", [adapter.address]);
+    await adapter.write.setConsumer([consumer.address, true], { account: owner.account });
+
+    await consumer.write.request();
+    await expectRevert(adapter.write.retryDelivery([1n]), "Not fulfilled");
+
+    // The VRF fulfillment succeeds even though the callback reverts
+    await consumer.write.setRejectCallbacks([true]);
+    await vrf.write.fulfillRandomWordsWithOverride([1n, [1234n]]);
+    const [, fulfilled, delivered, randomness] = (await adapter.read.requests([1n])) as unknown as [
+      string,
+      boolean,
+      boolean,
+      bigint,
+    ];
+    expect([fulfilled, delivered, randomness]).to.deep.equal([true, false, 1234n]);
+    expect(await consumer.read.results([1n])).to.equal(0n);
+
+    await adapter.write.retryDelivery([1n]);
+    expect(await consumer.read.results([1n])).to.equal(0n);
+
+    await consumer.write.setRejectCallbacks([false]);
+    await expectRevert(
+      adapter.write.retryDelivery([1n], { account: other.account, gas: 300_000n }),
+      "Insufficient gas for callback"
+    );
+    await adapter.write.retryDelivery([1n], { account: other.account });
+    expect(await consumer.read.results([1n])).to.equal(1234n);
+    await expectRevert(adapter.write.retryDelivery([1n]), "Already delivered");
+  });
+
+  it("✅ Ignition module deploys the coordinator and grants the operator role", async () => {
+    const [, operator] = await viem.getWalletClients();
+
+    const { coordinator } = await ignition.deploy(RandomnessCoordinatorModule, {
+      parameters: { RandomnessCoordinatorModule: { operator: operator.account.address } },
+    });
+
+    const deployed = await viem.getContractAt(
+      "RandomnessCoordinator",
+      (await coordinator.getAddress()) as `0x${string}`
+    );
+    expect(await deployed.read.hasRole([await deployed.read.RANDOMNESS_OPERATOR_ROLE(), operator.account.address])).to.equal(
+      true
+    );
+    expect(await deployed.read.admins([operator.account.address])).to.equal(false);
+    expect(await deployed.read.hasRole([ROLES.whitelistManager, operator.account.address])).to.equal(false);
+  });
+});
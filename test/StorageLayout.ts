@@ -0,0 +1,185 @@
+import { expect } from "chai";
+import { config, tasks } from "hardhat";
+import { mkdtemp } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+
+import {
+  assertStorageUpgradeSafe,
+  compareStorageLayouts,
+  readStorageLayout,
+  readStorageLayoutSnapshot,
+  type StorageEntry,
+  type StorageLayout,
+} from "../sdk/storage-layout.js";
+
+const V2 = "contracts/CrystalsProxy_v2.sol:CrystalsV2";
+const V3 = "contracts/CrystalsProxy_v3.sol:CrystalsV3";
+// Layout of the CrystalsV2 implementation first deployed behind the proxy
+const RELEASED_V2 = fileURLToPath(new URL("../ignition/storage-layouts/CrystalsV2-2.0.0.json", import.meta.url));
+
+describe("Storage layout check", () => {
+  const types: StorageLayout["types"] = {
+    t_uint256: { label: "uint256", encoding: "inplace", numberOfBytes: "32" },
+    t_address: { label: "address", encoding: "inplace", numberOfBytes: "20" },
+    t_bool: { label: "bool", encoding: "inplace", numberOfBytes: "1" },
+    "t_array(t_uint256)10_storage": { label: "uint256[10]", encoding: "inplace", numberOfBytes: "320", base: "t_uint256" },
+    "t_array(t_uint256)8_storage": { label: "uint256[8]", encoding: "inplace", numberOfBytes: "256", base: "t_uint256" },
+  };
+
+  function entry(label: string, slot: number, type: string, offset = 0): StorageEntry {
+    return { label, slot: slot.toString(), offset, type };
+  }
+
+  function layout(...storage: StorageEntry[]): StorageLayout {
+    return { storage, types };
+  }
+
+  const base = layout(
+    entry("owner", 0, "t_address"),
+    entry("paused", 0, "t_bool", 20),
+    entry("supply", 1, "t_uint256"),
+    entry("__gap", 2, "t_array(t_uint256)10_storage")
+  );
+
+  it("✅ CrystalsV3 only appends to CrystalsV2", async () => {
+    const report = compareStorageLayouts(
+      readStorageLayout(config.paths.artifacts, V2),
+      readStorageLayout(config.paths.artifacts, V3)
+    );
+
+    expect(report.compatible).to.equal(true);
+    expect(report.changes.map((change) => [change.kind, change.label])).to.deep.equal([
+      ["appended", "_contractURI"],
+      ["appended", "permitNonces"],
+    ]);
+  });
+
+  it("✅ CrystalsV3 only appends to the released CrystalsV2 layout", () => {
+    const report = assertStorageUpgradeSafe(config.paths.artifacts, RELEASED_V2, V3);
+
+    expect(report.changes.map((change) => [change.kind, change.label])).to.deep.equal([
+      ["renamed", "_legacyAdmins"],
+      ["appended", "transferPolicy"],
+      ["appended", "maxSupply"],
+      ["appended", "_epochDuration"],
+      ["appended", "epochEmissionBudget"],
+      ["appended", "minterAllowance"],
+      ["appended", "mintedInEpoch"],
+      ["appended", "mintedByMinter"],
+      ["appended", "__gap"],
+      ["appended", "_contractURI"],
+      ["appended", "permitNonces"],
+    ]);
+  });
+
+  it("❌ a layout that no longer matches the released snapshot is rejected", () => {
+    const released = readStorageLayoutSnapshot(RELEASED_V2);
+    const shifted: StorageLayout = {
+      ...released,
+      storage: released.storage.map((entry) =>
+        entry.label === "nonces" ? { ...entry, slot: (BigInt(entry.slot) + 1n).toString() } : entry
+      ),
+    };
+
+    expect(compareStorageLayouts(released, shifted).compatible).to.equal(false);
+    expect(() => assertStorageUpgradeSafe(config.paths.artifacts, RELEASED_V2, V2)).to.not.throw();
+    expect(() => assertStorageUpgradeSafe(config.paths.artifacts, RELEASED_V2, "contracts/TokenVault.sol:TokenVault")).to.throw(
+      "Unsafe upgrade"
+    );
+  });
+
+  it("❌ downgrading CrystalsV3 to CrystalsV2 drops a variable", async () => {
+    const report = compareStorageLayouts(
+      readStorageLayout(config.paths.artifacts, V3),
+      readStorageLayout(config.paths.artifacts, V2)
+    );
+
+    expect(report.compatible).to.equal(false);
+    expect(report.changes[0].kind).to.equal("removed");
+    expect(report.changes[0].label).to.equal("_contractURI");
+  });
+
+  it("✅ renames, appends and variables carved out of an end-aligned gap are safe", () => {
+    const report = compareStorageLayouts(
+      base,
+      layout(
+        entry("admin", 0, "t_address"),
+        entry("paused", 0, "t_bool", 20),
+        entry("supply", 1, "t_uint256"),
+        entry("cap", 2, "t_uint256"),
+        entry("epoch", 3, "t_uint256"),
+        entry("__gap", 4, "t_array(t_uint256)8_storage"),
+        entry("extra", 12, "t_uint256")
+      )
+    );
+
+    expect(report.compatible).to.equal(true);
+    expect(report.changes.map((change) => change.kind)).to.deep.equal(["renamed", "gap", "gap", "appended"]);
+  });
+
+  it("❌ reordered, retyped and gap-misaligned layouts are rejected", () => {
+    const swapped = compareStorageLayouts(
+      base,
+      layout(
+        entry("supply", 0, "t_uint256"),
+        entry("owner", 1, "t_address"),
+        entry("paused", 1, "t_bool", 20),
+        entry("__gap", 2, "t_array(t_uint256)10_storage")
+      )
+    );
+    expect(swapped.compatible).to.equal(false);
+    expect(swapped.changes.some((change) => change.kind === "reordered")).to.equal(true);
+
+    const retyped = compareStorageLayouts(
+      base,
+      layout(
+        entry("owner", 0, "t_address"),
+        entry("paused", 0, "t_bool", 20),
+        entry("supply", 1, "t_address"),
+        entry("__gap", 2, "t_array(t_uint256)10_storage")
+      )
+    );
+    expect(retyped.compatible).to.equal(false);
+    expect(retyped.changes.map((change) => [change.kind, change.label])).to.deep.equal([["retyped", "supply"]]);
+
+    // The gap shrank but no longer ends at slot 12, shifting whatever follows it
+    const misaligned = compareStorageLayouts(
+      base,
+      layout(
+        entry("owner", 0, "t_address"),
+        entry("paused", 0, "t_bool", 20),
+        entry("supply", 1, "t_uint256"),
+        entry("cap", 2, "t_uint256"),
+        entry("__gap", 3, "t_array(t_uint256)8_storage")
+      )
+    );
+    expect(misaligned.compatible).to.equal(false);
+  });
+
+  it("❌ storage-layout task fails on an incompatible pair", async () => {
+    await tasks.getTask("storage-layout").run({ current: "CrystalsV2", next: "CrystalsV3" });
+    await tasks.getTask("storage-layout").run({ current: RELEASED_V2, next: "CrystalsV3" });
+
+    let reverted = false;
+    try {
+      await tasks.getTask("storage-layout").run({ current: "CrystalsV3", next: "CrystalsV2" });
+    } catch (err: any) {
+      reverted = true;
+      expect(err.message).to.include("Incompatible storage layout");
+    }
+    expect(reverted).to.be.true;
+  });
+
+  it("✅ storage-layout task records the layout of a released implementation", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "storage-layout-"));
+    const record = join(dir, "CrystalsV3-3.0.0.json");
+
+    await tasks.getTask("storage-layout").run({ current: RELEASED_V2, next: "CrystalsV3", record });
+
+    const snapshot = readStorageLayoutSnapshot(record);
+    expect(snapshot.contract).to.equal(V3);
+    expect(compareStorageLayouts(snapshot, readStorageLayout(config.paths.artifacts, V3)).changes).to.deep.equal([]);
+  });
+});
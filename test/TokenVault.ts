@@ -1,8 +1,11 @@
 import { expect } from "chai";
-import { parseEther } from "viem";
+import { encodeFunctionData, parseEther, zeroAddress } from "viem";
 
 import { network } from "hardhat";
 
+import { buildRewardDistribution, verifyRewardClaim } from "../sdk/merkle.js";
+import { prepareErc20Permit, signPermit } from "../sdk/permits.js";
+
 const connection = await network.connect();
 const { viem } = await network.connect();
 
@@ -66,45 +69,19 @@ describe("TokenVault", () => {
     await vault.write.setAllowedToken([erc20.address, true], { account: owner.account });
     await erc20.write.mint([vault.address, parseEther("1000")], { account: owner.account });
 
-    const nonce = await vault.read.nonces([user.account.address]);
-    const deadline = 0;
+    const nonce = (await vault.read.nonces([user.account.address])) as unknown as bigint;
+    const deadline = 0n;
     const amount = parseEther("10");
     const publicClient = await viem.getPublicClient();
     const chainId = await publicClient.getChainId();
 
-    // EIP-712 domain
-    const domain = {
-      name: "TokenVault",
-      version: "1",
-      chainId: chainId,
-      verifyingContract: vault.address,
-    };
-
-    const types = {
-      Claim: [
-        { name: "to", type: "address" },
-        { name: "token", type: "address" },
-        { name: "amount", type: "uint256" },
-        { name: "nonce", type: "uint256" },
-        { name: "deadline", type: "uint256" },
-      ],
-    };
-
-    const message = {
-      to: user.account.address,
-      token: erc20.address,
-      amount,
-      nonce,
-      deadline,
-    };
-
     // Sign as owner (admin)
-    const signature = await owner.signTypedData({
-      domain,
-      types,
-      primaryType: "Claim",
-      message,
-    });
+    const signature = await signPermit(
+      "vaultClaim",
+      owner,
+      { chainId, verifyingContract: vault.address },
+      { to: user.account.address, token: erc20.address, amount, nonce, deadline }
+    );
 
     // Execute claim
     await vault.write.claim([erc20.address, amount, nonce, deadline, signature], { account: user.account });
@@ -147,45 +124,20 @@ describe("TokenVault", () => {
     await vault.write.setAllowedToken([erc20.address, true], { account: owner.account });
     await erc20.write.mint([vault.address, parseEther("100")], { account: owner.account });
 
-    const nonce = await vault.read.nonces([user.account.address]);
-    const deadline = 0;
+    const nonce = (await vault.read.nonces([user.account.address])) as unknown as bigint;
+    const deadline = 0n;
     const amount = parseEther("5");
   
     const publicClient = await viem.getPublicClient();
     const chainId = await publicClient.getChainId();
 
-    const domain = {
-      name: "TokenVault",
-      version: "1",
-      chainId: chainId,
-      verifyingContract: vault.address,
-    };
-
-    const types = {
-      Claim: [
-        { name: "to", type: "address" },
-        { name: "token", type: "address" },
-        { name: "amount", type: "uint256" },
-        { name: "nonce", type: "uint256" },
-        { name: "deadline", type: "uint256" },
-      ],
-    };
-
-    const message = {
-      to: user.account.address,
-      token: erc20.address,
-      amount,
-      nonce,
-      deadline,
-    };
-
     // Wrong signer (not admin)
-    const signature = await other.signTypedData({
-      domain,
-      types,
-      primaryType: "Claim",
-      message,
-    });
+    const signature = await signPermit(
+      "vaultClaim",
+      other,
+      { chainId, verifyingContract: vault.address },
+      { to: user.account.address, token: erc20.address, amount, nonce, deadline }
+    );
     
     let reverted = false;
     try {
@@ -209,41 +161,16 @@ describe("TokenVault", () => {
     await erc20.write.mint([vault.address, parseEther("100")], { account: owner.account });
     const publicClient = await viem.getPublicClient();
 
-    const nonce = await vault.read.nonces([user.account.address]);
-    const deadline = 0;
+    const nonce = (await vault.read.nonces([user.account.address])) as unknown as bigint;
+    const deadline = 0n;
     const amount = parseEther("5");
     const chainId = await publicClient.getChainId();
-    const domain = {
-      name: "TokenVault",
-      version: "1",
-      chainId: chainId,
-      verifyingContract: vault.address,
-    };
-
-    const types = {
-      Claim: [
-        { name: "to", type: "address" },
-        { name: "token", type: "address" },
-        { name: "amount", type: "uint256" },
-        { name: "nonce", type: "uint256" },
-        { name: "deadline", type: "uint256" },
-      ],
-    };
-
-    const message = {
-      to: user.account.address,
-      token: erc20.address,
-      amount,
-      nonce,
-      deadline,
-    };
-
-    const signature = await owner.signTypedData({
-      domain,
-      types,
-      primaryType: "Claim",
-      message,
-    });
+    const signature = await signPermit(
+      "vaultClaim",
+      owner,
+      { chainId, verifyingContract: vault.address },
+      { to: user.account.address, token: erc20.address, amount, nonce, deadline }
+    );
 
     // First claim succeeds
     await vault.write.claim([erc20.address, amount, nonce, deadline, signature], { account: user.account });
@@ -263,4 +190,832 @@ describe("TokenVault", () => {
 
     if (!reverted) throw new Error("Claim did not revert as expected");
   });
+
+  describe("claim limits", () => {
+    async function limitsFixture() {
+      const base = await deployFixture();
+      const { vault, erc20, owner, admin } = base;
+
+      await vault.write.setAdmin([admin.account.address, true], { account: owner.account });
+      await vault.write.setAllowedToken([erc20.address, true], { account: owner.account });
+      await erc20.write.mint([vault.address, parseEther("1000")], { account: owner.account });
+
+      const publicClient = await viem.getPublicClient();
+      const chainId = await publicClient.getChainId();
+
+      // Signs the claimant's current nonce and submits the claim
+      async function claim(signer: typeof owner, claimant: typeof owner, amount: bigint) {
+        const nonce = (await vault.read.nonces([claimant.account.address])) as unknown as bigint;
+        const signature = await signPermit(
+          "vaultClaim",
+          signer,
+          { chainId, verifyingContract: vault.address },
+          { to: claimant.account.address, token: erc20.address, amount, nonce, deadline: 0n }
+        );
+        return vault.write.claim([erc20.address, amount, nonce, 0n, signature], { account: claimant.account });
+      }
+
+      return { ...base, claim };
+    }
+
+    async function expectRevert(tx: Promise<any>, reason: string) {
+      let reverted = false;
+      try {
+        await tx;
+      } catch (err: any) {
+        reverted = true;
+        expect(err.message).to.include(reason);
+      }
+      expect(reverted).to.be.true;
+    }
+
+    it("✅ limits are unlimited by default", async () => {
+      const { vault, erc20, user, owner, claim } = await limitsFixture();
+
+      await claim(owner, user, parseEther("500"));
+
+      expect(await vault.read.remainingTokenAllowance([erc20.address])).to.equal(2n ** 256n - 1n);
+      expect(await erc20.read.balanceOf([user.account.address])).to.equal(parseEther("500"));
+    });
+
+    it("❌ claims over the per-token epoch cap revert", async () => {
+      const { vault, erc20, owner, admin, user, other, claim } = await limitsFixture();
+
+      await vault.write.setClaimLimits([erc20.address, parseEther("100"), 0n, 0n], { account: owner.account });
+
+      await claim(admin, user, parseEther("60"));
+      expect(await vault.read.remainingTokenAllowance([erc20.address])).to.equal(parseEther("40"));
+
+      await expectRevert(claim(admin, other, parseEther("41")), "Token epoch cap exceeded");
+      await claim(owner, other, parseEther("40"));
+      expect(await vault.read.remainingTokenAllowance([erc20.address])).to.equal(0n);
+    });
+
+    it("❌ claims over the per-user epoch cap revert", async () => {
+      const { vault, erc20, owner, admin, user, other, claim } = await limitsFixture();
+
+      await vault.write.setClaimLimits([erc20.address, 0n, parseEther("10"), 0n], { account: owner.account });
+
+      await claim(admin, user, parseEther("10"));
+      expect(await vault.read.remainingUserAllowance([erc20.address, user.account.address])).to.equal(0n);
+      await expectRevert(claim(admin, user, 1n), "User epoch cap exceeded");
+
+      // Other users are unaffected
+      await claim(admin, other, parseEther("10"));
+    });
+
+    it("❌ claims over the per-signer epoch cap revert", async () => {
+      const { vault, erc20, owner, admin, user, other, claim } = await limitsFixture();
+
+      await vault.write.setClaimLimits([erc20.address, 0n, 0n, parseEther("50")], { account: owner.account });
+
+      await claim(admin, user, parseEther("30"));
+      expect(await vault.read.remainingSignerAllowance([erc20.address, admin.account.address])).to.equal(parseEther("20"));
+      await expectRevert(claim(admin, other, parseEther("30")), "Signer epoch cap exceeded");
+
+      // A different signer has its own budget
+      await claim(owner, other, parseEther("30"));
+    });
+
+    it("✅ limits reset in the next epoch", async () => {
+      const { vault, erc20, owner, admin, user, claim } = await limitsFixture();
+      const testClient = await viem.getTestClient();
+
+      await vault.write.setClaimLimits([erc20.address, parseEther("10"), 0n, 0n], { account: owner.account });
+      await claim(admin, user, parseEther("10"));
+      await expectRevert(claim(admin, user, 1n), "Token epoch cap exceeded");
+
+      await testClient.increaseTime({ seconds: 24 * 60 * 60 });
+      await testClient.mine({ blocks: 1 });
+
+      await claim(admin, user, parseEther("10"));
+      expect(await erc20.read.balanceOf([user.account.address])).to.equal(parseEther("20"));
+    });
+
+    it("❌ only owner can configure limits", async () => {
+      const { vault, erc20, admin } = await limitsFixture();
+
+      await expectRevert(
+        vault.write.setClaimLimits([erc20.address, 1n, 1n, 1n], { account: admin.account }),
+        "OwnableUnauthorizedAccount"
+      );
+      await expectRevert(
+        vault.write.setEpochDuration([3600n], { account: admin.account }),
+        "OwnableUnauthorizedAccount"
+      );
+    });
+  });
+
+  describe("merkle distributions", () => {
+    async function distributionFixture() {
+      const base = await deployFixture();
+      const { vault, erc20, owner, admin, user, other } = base;
+
+      await vault.write.setAllowedToken([erc20.address, true], { account: owner.account });
+      await erc20.write.mint([vault.address, parseEther("1000")], { account: owner.account });
+
+      const distribution = buildRewardDistribution([
+        { account: user.account.address, amount: parseEther("30") },
+        { account: other.account.address, amount: parseEther("20") },
+        { account: admin.account.address, amount: parseEther("10") },
+      ]);
+
+      return { ...base, distribution };
+    }
+
+    async function expectRevert(tx: Promise<any>, reason: string) {
+      let reverted = false;
+      try {
+        await tx;
+      } catch (err: any) {
+        reverted = true;
+        expect(err.message).to.include(reason);
+      }
+      expect(reverted).to.be.true;
+    }
+
+    it("✅ players claim their leaves with a proof", async () => {
+      const { vault, erc20, owner, user, other, distribution } = await distributionFixture();
+
+      await vault.write.publishDistribution([erc20.address, 1n, distribution.root, distribution.total], {
+        account: owner.account,
+      });
+
+      for (const claim of distribution.claims) {
+        expect(verifyRewardClaim(distribution.root, claim)).to.equal(true);
+      }
+
+      const [first, second] = distribution.claims;
+      await vault.write.claimDistribution(
+        [erc20.address, 1n, BigInt(first.index), first.account, first.amount, first.proof],
+        { account: user.account }
+      );
+
+      // Anyone can relay a claim, tokens still go to the leaf account
+      await vault.write.claimDistribution(
+        [erc20.address, 1n, BigInt(second.index), second.account, second.amount, second.proof],
+        { account: user.account }
+      );
+
+      expect(await erc20.read.balanceOf([user.account.address])).to.equal(parseEther("30"));
+      expect(await erc20.read.balanceOf([other.account.address])).to.equal(parseEther("20"));
+      expect(await vault.read.isDistributionClaimed([erc20.address, 1n, 0n])).to.equal(true);
+      expect(await vault.read.isDistributionClaimed([erc20.address, 1n, 2n])).to.equal(false);
+    });
+
+    it("❌ leaves cannot be claimed twice or with a wrong amount", async () => {
+      const { vault, erc20, owner, user, distribution } = await distributionFixture();
+
+      await vault.write.publishDistribution([erc20.address, 1n, distribution.root, distribution.total], {
+        account: owner.account,
+      });
+
+      const [first] = distribution.claims;
+
+      await expectRevert(
+        vault.write.claimDistribution(
+          [erc20.address, 1n, BigInt(first.index), first.account, first.amount + 1n, first.proof],
+          { account: user.account }
+        ),
+        "Invalid proof"
+      );
+
+      await vault.write.claimDistribution(
+        [erc20.address, 1n, BigInt(first.index), first.account, first.amount, first.proof],
+        { account: user.account }
+      );
+      await expectRevert(
+        vault.write.claimDistribution(
+          [erc20.address, 1n, BigInt(first.index), first.account, first.amount, first.proof],
+          { account: user.account }
+        ),
+        "Already claimed"
+      );
+
+      // Same leaf is not valid for another epoch
+      await expectRevert(
+        vault.write.claimDistribution(
+          [erc20.address, 2n, BigInt(first.index), first.account, first.amount, first.proof],
+          { account: user.account }
+        ),
+        "Distribution not found"
+      );
+    });
+
+    it("❌ only owner can publish, and only once per epoch", async () => {
+      const { vault, erc20, owner, admin, distribution } = await distributionFixture();
+
+      await expectRevert(
+        vault.write.publishDistribution([erc20.address, 1n, distribution.root, distribution.total], {
+          account: admin.account,
+        }),
+        "OwnableUnauthorizedAccount"
+      );
+
+      await vault.write.publishDistribution([erc20.address, 1n, distribution.root, distribution.total], {
+        account: owner.account,
+      });
+      await expectRevert(
+        vault.write.publishDistribution([erc20.address, 1n, distribution.root, distribution.total], {
+          account: owner.account,
+        }),
+        "Distribution exists"
+      );
+    });
+
+    it("❌ published totals are set aside from withdrawals, and claims respect the limits", async () => {
+      const { vault, erc20, owner, user, other, distribution } = await distributionFixture();
+
+      await vault.write.publishDistribution([erc20.address, 1n, distribution.root, distribution.total], {
+        account: owner.account,
+      });
+      expect(await vault.read.reservedForDistributions([erc20.address])).to.equal(parseEther("60"));
+      expect(await vault.read.availableBalance([erc20.address])).to.equal(parseEther("940"));
+
+      // The owner cannot pull funds already promised to claimants, nor promise more than the reserves
+      await expectRevert(
+        vault.write.withdraw([erc20.address, owner.account.address, parseEther("941")], { account: owner.account }),
+        "Insufficient vault reserves"
+      );
+      await expectRevert(
+        vault.write.publishDistribution([erc20.address, 2n, distribution.root, parseEther("941")], {
+          account: owner.account,
+        }),
+        "Insufficient vault reserves"
+      );
+
+      await vault.write.setClaimLimits([erc20.address, 0n, parseEther("25"), 0n], { account: owner.account });
+      const [first, second] = distribution.claims;
+      await expectRevert(
+        vault.write.claimDistribution(
+          [erc20.address, 1n, BigInt(first.index), first.account, first.amount, first.proof],
+          { account: user.account }
+        ),
+        "User epoch cap exceeded"
+      );
+
+      await vault.write.claimDistribution(
+        [erc20.address, 1n, BigInt(second.index), second.account, second.amount, second.proof],
+        { account: other.account }
+      );
+      expect(await vault.read.reservedForDistributions([erc20.address])).to.equal(parseEther("40"));
+      expect(await vault.read.availableBalance([erc20.address])).to.equal(parseEther("940"));
+      expect(await vault.read.remainingUserAllowance([erc20.address, other.account.address])).to.equal(parseEther("5"));
+    });
+  });
+
+  describe("native ETH", () => {
+    async function ethFixture() {
+      const base = await deployFixture();
+      await base.vault.write.setAllowedToken([zeroAddress, true], { account: base.owner.account });
+      return base;
+    }
+
+    it("✅ accepts ETH deposits via depositETH and plain transfers", async () => {
+      const { vault, user, owner } = await ethFixture();
+      const publicClient = await viem.getPublicClient();
+
+      await vault.write.depositETH([], { account: user.account, value: parseEther("1") });
+      await owner.sendTransaction({ to: vault.address, value: parseEther("2") });
+
+      expect(await publicClient.getBalance({ address: vault.address })).to.equal(parseEther("3"));
+
+      const events = await vault.getEvents.Deposited({}, { fromBlock: 0n });
+      expect(events.length).to.equal(2);
+      const args = events[0].args as { token: string; amount: bigint };
+      expect(args.token).to.equal(zeroAddress);
+      expect(args.amount).to.equal(parseEther("1"));
+    });
+
+    it("❌ ETH deposits revert while ETH is not allowed", async () => {
+      const { vault, user, owner } = await deployFixture();
+
+      let reverted = false;
+      try {
+        await vault.write.depositETH([], { account: user.account, value: parseEther("1") });
+      } catch (err: any) {
+        reverted = true;
+        expect(err.message).to.include("Token not allowed");
+      }
+      expect(reverted).to.be.true;
+
+      await vault.write.setAllowedToken([zeroAddress, true], { account: owner.account });
+      await vault.write.depositETH([], { account: user.account, value: parseEther("1") });
+    });
+
+    it("✅ claim pays out ETH with a zero-address Claim signature", async () => {
+      const { vault, user, owner } = await ethFixture();
+      const publicClient = await viem.getPublicClient();
+      const chainId = await publicClient.getChainId();
+
+      await vault.write.fundETH([], { account: owner.account, value: parseEther("5") });
+
+      const amount = parseEther("1.5");
+      const signature = await signPermit(
+        "vaultClaim",
+        owner,
+        { chainId, verifyingContract: vault.address },
+        { to: user.account.address, token: zeroAddress, amount, nonce: 0n, deadline: 0n }
+      );
+
+      const before = await publicClient.getBalance({ address: user.account.address });
+      const hash = await vault.write.claim([zeroAddress, amount, 0n, 0n, signature], { account: user.account });
+      const receipt = await publicClient.getTransactionReceipt({ hash });
+      const gas = receipt.gasUsed * receipt.effectiveGasPrice;
+
+      expect(await publicClient.getBalance({ address: user.account.address })).to.equal(before + amount - gas);
+      expect(await publicClient.getBalance({ address: vault.address })).to.equal(parseEther("3.5"));
+    });
+
+    it("✅ only owner can withdraw ETH", async () => {
+      const { vault, owner, other } = await ethFixture();
+      const publicClient = await viem.getPublicClient();
+
+      await vault.write.fundETH([], { account: owner.account, value: parseEther("2") });
+
+      let reverted = false;
+      try {
+        await vault.write.withdraw([zeroAddress, other.account.address, parseEther("1")], { account: other.account });
+      } catch (err: any) {
+        reverted = true;
+        expect(err.message).to.include("OwnableUnauthorizedAccount");
+      }
+      expect(reverted).to.be.true;
+
+      const before = await publicClient.getBalance({ address: other.account.address });
+      await vault.write.withdraw([zeroAddress, other.account.address, parseEther("1")], { account: owner.account });
+      expect(await publicClient.getBalance({ address: other.account.address })).to.equal(before + parseEther("1"));
+    });
+  });
+
+  describe("user deposits", () => {
+    async function depositFixture() {
+      const base = await deployFixture();
+      const { vault, erc20, owner, user } = base;
+
+      await vault.write.setAllowedToken([erc20.address, true], { account: owner.account });
+      await erc20.write.mint([user.account.address, parseEther("100")], { account: owner.account });
+      await erc20.write.approve([vault.address, parseEther("100")], { account: user.account });
+      await vault.write.deposit([erc20.address, parseEther("100")], { account: user.account });
+
+      return base;
+    }
+
+    async function expectRevert(tx: Promise<any>, reason: string) {
+      let reverted = false;
+      try {
+        await tx;
+      } catch (err: any) {
+        reverted = true;
+        expect(err.message).to.include(reason);
+      }
+      expect(reverted).to.be.true;
+    }
+
+    it("❌ tokens returning false neither credit deposits nor pay out", async () => {
+      const { vault, owner, user } = await deployFixture();
+      const token = await viem.deployContract("FalseReturningToken", []);
+
+      await vault.write.setAllowedToken([token.address, true], { account: owner.account });
+      await token.write.mint([user.account.address, 100n]);
+      await token.write.approve([vault.address, 100n], { account: user.account });
+      await vault.write.deposit([token.address, 60n], { account: user.account });
+
+      await token.write.setFailTransfers([true]);
+      await expectRevert(vault.write.deposit([token.address, 40n], { account: user.account }), "SafeERC20FailedOperation");
+      await expectRevert(vault.write.withdrawDeposit([token.address, 60n], { account: user.account }), "SafeERC20FailedOperation");
+      expect(await vault.read.deposits([user.account.address, token.address])).to.equal(60n);
+      expect(await vault.read.totalDeposits([token.address])).to.equal(60n);
+    });
+
+    it("✅ tracks deposits per user and lets users withdraw them", async () => {
+      const { vault, erc20, user } = await depositFixture();
+
+      expect(await vault.read.deposits([user.account.address, erc20.address])).to.equal(parseEther("100"));
+      expect(await vault.read.totalDeposits([erc20.address])).to.equal(parseEther("100"));
+
+      await vault.write.withdrawDeposit([erc20.address, parseEther("40")], { account: user.account });
+
+      expect(await vault.read.deposits([user.account.address, erc20.address])).to.equal(parseEther("60"));
+      expect(await erc20.read.balanceOf([user.account.address])).to.equal(parseEther("40"));
+
+      await expectRevert(
+        vault.write.withdrawDeposit([erc20.address, parseEther("61")], { account: user.account }),
+        "Insufficient deposit"
+      );
+    });
+
+    it("❌ users cannot withdraw someone else's deposit", async () => {
+      const { vault, erc20, other } = await depositFixture();
+
+      await expectRevert(
+        vault.write.withdrawDeposit([erc20.address, 1n], { account: other.account }),
+        "Insufficient deposit"
+      );
+    });
+
+    it("❌ deposits are locked during the cooldown", async () => {
+      const { vault, erc20, owner, user } = await depositFixture();
+      const testClient = await viem.getTestClient();
+
+      await vault.write.setWithdrawalCooldown([3600n], { account: owner.account });
+
+      await expectRevert(
+        vault.write.withdrawDeposit([erc20.address, 1n], { account: user.account }),
+        "Deposit locked"
+      );
+
+      await testClient.increaseTime({ seconds: 3600 });
+      await testClient.mine({ blocks: 1 });
+
+      await vault.write.withdrawDeposit([erc20.address, parseEther("100")], { account: user.account });
+      expect(await erc20.read.balanceOf([user.account.address])).to.equal(parseEther("100"));
+    });
+
+    it("❌ owner withdrawals and claims cannot touch user deposits", async () => {
+      const { vault, erc20, owner, user, other } = await depositFixture();
+      const publicClient = await viem.getPublicClient();
+      const chainId = await publicClient.getChainId();
+
+      // Reserves funded separately from deposits
+      await erc20.write.mint([vault.address, parseEther("10")], { account: owner.account });
+      expect(await vault.read.availableBalance([erc20.address])).to.equal(parseEther("10"));
+
+      await expectRevert(
+        vault.write.withdraw([erc20.address, owner.account.address, parseEther("11")], { account: owner.account }),
+        "Insufficient vault reserves"
+      );
+
+      const signature = await signPermit(
+        "vaultClaim",
+        owner,
+        { chainId, verifyingContract: vault.address },
+        { to: other.account.address, token: erc20.address, amount: parseEther("50"), nonce: 0n, deadline: 0n }
+      );
+      await expectRevert(
+        vault.write.claim([erc20.address, parseEther("50"), 0n, 0n, signature], { account: other.account }),
+        "Insufficient vault reserves"
+      );
+
+      await vault.write.withdraw([erc20.address, owner.account.address, parseEther("10")], { account: owner.account });
+
+      // User deposit is still fully withdrawable
+      await vault.write.withdrawDeposit([erc20.address, parseEther("100")], { account: user.account });
+      expect(await erc20.read.balanceOf([user.account.address])).to.equal(parseEther("100"));
+    });
+
+    it("✅ ETH deposits are tracked and withdrawable", async () => {
+      const { vault, owner, user } = await deployFixture();
+      const publicClient = await viem.getPublicClient();
+
+      await vault.write.setAllowedToken([zeroAddress, true], { account: owner.account });
+      await vault.write.depositETH([], { account: user.account, value: parseEther("1") });
+
+      expect(await vault.read.deposits([user.account.address, zeroAddress])).to.equal(parseEther("1"));
+      expect(await vault.read.availableBalance([zeroAddress])).to.equal(0n);
+
+      await expectRevert(
+        vault.write.withdraw([zeroAddress, owner.account.address, 1n], { account: owner.account }),
+        "Insufficient vault reserves"
+      );
+
+      const before = await publicClient.getBalance({ address: user.account.address });
+      const hash = await vault.write.withdrawDeposit([zeroAddress, parseEther("1")], { account: user.account });
+      const receipt = await publicClient.getTransactionReceipt({ hash });
+      const gas = receipt.gasUsed * receipt.effectiveGasPrice;
+
+      expect(await publicClient.getBalance({ address: user.account.address })).to.equal(before + parseEther("1") - gas);
+    });
+  });
+
+  describe("pausing", () => {
+    async function pauseFixture() {
+      const base = await deployFixture();
+      const { vault, erc20, owner, user, admin } = base;
+
+      await vault.write.setAllowedToken([erc20.address, true], { account: owner.account });
+      await vault.write.setAllowedToken([zeroAddress, true], { account: owner.account });
+      await erc20.write.mint([user.account.address, parseEther("100")], { account: owner.account });
+      await erc20.write.approve([vault.address, parseEther("100")], { account: user.account });
+      await vault.write.deposit([erc20.address, parseEther("50")], { account: user.account });
+      await erc20.write.mint([vault.address, parseEther("10")], { account: owner.account });
+
+      // `admin` acts as the guardian here
+      await vault.write.setGuardian([admin.account.address], { account: owner.account });
+
+      const [deposit, claim, withdraw, all] = await Promise.all([
+        vault.read.DEPOSIT_ACTION(),
+        vault.read.CLAIM_ACTION(),
+        vault.read.WITHDRAW_ACTION(),
+        vault.read.PAUSE_ALL(),
+      ]);
+
+      return { ...base, guardian: admin, actions: { deposit, claim, withdraw, all } };
+    }
+
+    async function expectRevert(tx: Promise<any>, reason: string) {
+      let reverted = false;
+      try {
+        await tx;
+      } catch (err: any) {
+        reverted = true;
+        expect(err.message).to.include(reason);
+      }
+      expect(reverted).to.be.true;
+    }
+
+    it("✅ guardian can pause, only the owner can unpause", async () => {
+      const { vault, owner, guardian, other, actions } = await pauseFixture();
+
+      await expectRevert(vault.write.pause([actions.claim], { account: other.account }), "Not guardian");
+
+      await vault.write.pause([actions.claim], { account: guardian.account });
+      expect(await vault.read.isPaused([actions.claim])).to.equal(true);
+      expect(await vault.read.isPaused([actions.deposit])).to.equal(false);
+
+      await expectRevert(vault.write.unpause([actions.claim], { account: guardian.account }), "Not owner");
+      await expectRevert(vault.write.setGuardian([other.account.address], { account: guardian.account }), "Not owner");
+
+      await vault.write.unpause([actions.claim], { account: owner.account });
+      expect(await vault.read.isPaused([actions.claim])).to.equal(false);
+    });
+
+    it("❌ deposit entry points revert while DEPOSIT is paused", async () => {
+      const { vault, erc20, owner, user, guardian, actions } = await pauseFixture();
+
+      await vault.write.pause([actions.deposit], { account: guardian.account });
+
+      await expectRevert(vault.write.deposit([erc20.address, 1n], { account: user.account }), "Action paused");
+      await expectRevert(vault.write.depositETH([], { account: user.account, value: 1n }), "Action paused");
+      await expectRevert(owner.sendTransaction({ to: vault.address, value: 1n }), "Action paused");
+      await expectRevert(vault.write.fundETH([], { account: owner.account, value: 1n }), "Action paused");
+
+      // Other actions keep working
+      await vault.write.withdrawDeposit([erc20.address, 1n], { account: user.account });
+    });
+
+    it("❌ claim entry points revert while CLAIM is paused", async () => {
+      const { vault, erc20, owner, user, guardian, actions } = await pauseFixture();
+      const publicClient = await viem.getPublicClient();
+      const chainId = await publicClient.getChainId();
+
+      const signature = await signPermit(
+        "vaultClaim",
+        owner,
+        { chainId, verifyingContract: vault.address },
+        { to: user.account.address, token: erc20.address, amount: 1n, nonce: 0n, deadline: 0n }
+      );
+      const { root, claims } = buildRewardDistribution([{ account: user.account.address, amount: 1n }]);
+      await vault.write.publishDistribution([erc20.address, 0n, root, 1n], { account: owner.account });
+
+      await vault.write.pause([actions.claim], { account: guardian.account });
+
+      await expectRevert(
+        vault.write.claim([erc20.address, 1n, 0n, 0n, signature], { account: user.account }),
+        "Action paused"
+      );
+      await expectRevert(
+        vault.write.claimDistribution(
+          [erc20.address, 0n, 0n, user.account.address, 1n, claims[0].proof],
+          { account: user.account }
+        ),
+        "Action paused"
+      );
+
+      await vault.write.unpause([actions.claim], { account: owner.account });
+      await vault.write.claim([erc20.address, 1n, 0n, 0n, signature], { account: user.account });
+    });
+
+    it("❌ withdrawals revert while WITHDRAW is paused, and PAUSE_ALL halts everything", async () => {
+      const { vault, erc20, owner, user, guardian, actions } = await pauseFixture();
+
+      await vault.write.pause([actions.withdraw], { account: guardian.account });
+
+      await expectRevert(vault.write.withdrawDeposit([erc20.address, 1n], { account: user.account }), "Action paused");
+      await expectRevert(
+        vault.write.withdraw([erc20.address, owner.account.address, 1n], { account: owner.account }),
+        "Action paused"
+      );
+      await vault.write.deposit([erc20.address, 1n], { account: user.account });
+
+      await vault.write.unpause([actions.withdraw], { account: owner.account });
+      await vault.write.pause([actions.all], { account: guardian.account });
+
+      expect(await vault.read.isPaused([actions.deposit])).to.equal(true);
+      await expectRevert(vault.write.deposit([erc20.address, 1n], { account: user.account }), "Action paused");
+      await expectRevert(vault.write.withdrawDeposit([erc20.address, 1n], { account: user.account }), "Action paused");
+    });
+  });
+
+  describe("roles", () => {
+    async function expectRevert(tx: Promise<any>, reason: string) {
+      let reverted = false;
+      try {
+        await tx;
+      } catch (err: any) {
+        reverted = true;
+        expect(err.message).to.include(reason);
+      }
+      expect(reverted).to.be.true;
+    }
+
+    it("✅ deployer holds the admin roles", async () => {
+      const { vault, owner } = await deployFixture();
+
+      expect(((await vault.read.getRoleMembers([await vault.read.MINTER_ROLE()])) as unknown as string[]).map((a) => a.toLowerCase()))
+        .to.deep.equal([owner.account.address]);
+      expect(await vault.read.hasRole([await vault.read.WHITELIST_MANAGER_ROLE(), owner.account.address]))
+        .to.equal(true);
+    });
+
+    it("✅ whitelist managers allow tokens, but cannot sign claims", async () => {
+      const { vault, erc20, owner, admin, user } = await deployFixture();
+      const publicClient = await viem.getPublicClient();
+      const chainId = await publicClient.getChainId();
+
+      await expectRevert(
+        vault.write.setAllowedToken([erc20.address, true], { account: admin.account }),
+        "Missing role"
+      );
+
+      await vault.write.grantRole([await vault.read.WHITELIST_MANAGER_ROLE(), admin.account.address], {
+        account: owner.account,
+      });
+      await vault.write.setAllowedToken([erc20.address, true], { account: admin.account });
+      await erc20.write.mint([vault.address, parseEther("10")], { account: owner.account });
+
+      const signature = await signPermit(
+        "vaultClaim",
+        admin,
+        { chainId, verifyingContract: vault.address },
+        { to: user.account.address, token: erc20.address, amount: 1n, nonce: 0n, deadline: 0n }
+      );
+      await expectRevert(
+        vault.write.claim([erc20.address, 1n, 0n, 0n, signature], { account: user.account }),
+        "Signer not authorized"
+      );
+    });
+
+    it("✅ minters sign claims, but cannot allow tokens", async () => {
+      const { vault, erc20, owner, admin, user } = await deployFixture();
+      const publicClient = await viem.getPublicClient();
+      const chainId = await publicClient.getChainId();
+
+      await vault.write.setAllowedToken([erc20.address, true], { account: owner.account });
+      await erc20.write.mint([vault.address, parseEther("10")], { account: owner.account });
+      await vault.write.grantRole([await vault.read.MINTER_ROLE(), admin.account.address], {
+        account: owner.account,
+      });
+
+      const signature = await signPermit(
+        "vaultClaim",
+        admin,
+        { chainId, verifyingContract: vault.address },
+        { to: user.account.address, token: erc20.address, amount: 1n, nonce: 0n, deadline: 0n }
+      );
+      await vault.write.claim([erc20.address, 1n, 0n, 0n, signature], { account: user.account });
+      expect(await erc20.read.balanceOf([user.account.address])).to.equal(1n);
+
+      await expectRevert(
+        vault.write.setAllowedToken([erc20.address, false], { account: admin.account }),
+        "Missing role"
+      );
+    });
+
+    it("✅ payout role holders pay out rewards from reserves, never from user deposits", async () => {
+      const { vault, erc20, owner, admin, user, other } = await deployFixture();
+
+      await vault.write.setAllowedToken([erc20.address, true], { account: owner.account });
+      await erc20.write.mint([vault.address, 10n], { account: owner.account });
+      await erc20.write.mint([other.account.address, 50n], { account: owner.account });
+      await erc20.write.approve([vault.address, 50n], { account: other.account });
+      await vault.write.deposit([erc20.address, 50n], { account: other.account });
+
+      await expectRevert(vault.write.payout([erc20.address, user.account.address, 1n], { account: admin.account }), "Missing role");
+
+      // Admins and minters sign claims but cannot move reserves without a signature
+      await vault.write.setAdmin([admin.account.address, true], { account: owner.account });
+      await expectRevert(vault.write.payout([erc20.address, user.account.address, 1n], { account: admin.account }), "Missing role");
+
+      await vault.write.grantRole([await vault.read.PAYOUT_ROLE(), admin.account.address], {
+        account: owner.account,
+      });
+      await vault.write.payout([erc20.address, user.account.address, 10n], { account: admin.account });
+      expect(await erc20.read.balanceOf([user.account.address])).to.equal(10n);
+
+      await expectRevert(
+        vault.write.payout([erc20.address, user.account.address, 1n], { account: admin.account }),
+        "Insufficient vault reserves"
+      );
+    });
+
+    it("✅ pausers can pause but not unpause", async () => {
+      const { vault, owner, admin } = await deployFixture();
+      const claim = await vault.read.CLAIM_ACTION();
+
+      await vault.write.grantRole([await vault.read.PAUSER_ROLE(), admin.account.address], {
+        account: owner.account,
+      });
+      await vault.write.pause([claim], { account: admin.account });
+      expect(await vault.read.isPaused([claim])).to.equal(true);
+
+      await expectRevert(vault.write.unpause([claim], { account: admin.account }), "Not owner");
+    });
+  });
+
+  describe("deposit with permit", () => {
+    async function permitFixture() {
+      const base = await deployFixture();
+      const { owner, user, vault } = base;
+
+      const impl = await viem.deployContract("CrystalsV3", []);
+      const proxy = await viem.deployContract("ProxyExample", [
+        impl.address,
+        encodeFunctionData({ abi: impl.abi, functionName: "initialize", args: ["Crystals", "CRYS"] }),
+      ]);
+      const crystals = await viem.getContractAt("CrystalsV3", proxy.address);
+      await crystals.write.initializeV3(["", []], { account: owner.account });
+
+      await crystals.write.setContractWhitelist([vault.address, true], { account: owner.account });
+      await crystals.write.mint([user.account.address, parseEther("100")], { account: owner.account });
+      await vault.write.setAllowedToken([crystals.address, true], { account: owner.account });
+
+      const publicClient = await viem.getPublicClient();
+      const deadline = (await publicClient.getBlock()).timestamp + 3600n;
+      const permit = (value: bigint) =>
+        prepareErc20Permit(publicClient, user, crystals.address, {
+          owner: user.account.address,
+          spender: vault.address,
+          value,
+          deadline,
+        });
+
+      return { ...base, crystals, deadline, permit };
+    }
+
+    async function expectRevert(tx: Promise<any>, reason: string) {
+      let reverted = false;
+      try {
+        await tx;
+      } catch (err: any) {
+        reverted = true;
+        expect(err.message).to.include(reason);
+      }
+      expect(reverted).to.be.true;
+    }
+
+    it("✅ deposits Crystals in a single transaction without approve", async () => {
+      const { vault, crystals, user, deadline, permit } = await permitFixture();
+      const { signature } = await permit(parseEther("40"));
+
+      await vault.write.depositWithPermit(
+        [crystals.address, parseEther("40"), deadline, signature.v, signature.r, signature.s],
+        { account: user.account }
+      );
+
+      expect(await vault.read.deposits([user.account.address, crystals.address])).to.equal(parseEther("40"));
+      expect(await crystals.read.balanceOf([vault.address])).to.equal(parseEther("40"));
+      expect(await crystals.read.allowance([user.account.address, vault.address])).to.equal(0n);
+    });
+
+    it("✅ a front-run permit does not block the deposit", async () => {
+      const { vault, crystals, user, other, deadline, permit } = await permitFixture();
+      const { signature } = await permit(parseEther("10"));
+
+      // Someone submits the permit first, consuming the nonce
+      await crystals.write.permit(
+        [user.account.address, vault.address, parseEther("10"), deadline, signature.v, signature.r, signature.s],
+        { account: other.account }
+      );
+
+      await vault.write.depositWithPermit(
+        [crystals.address, parseEther("10"), deadline, signature.v, signature.r, signature.s],
+        { account: user.account }
+      );
+      expect(await vault.read.deposits([user.account.address, crystals.address])).to.equal(parseEther("10"));
+    });
+
+    it("❌ reverts without a valid permit or allowance, and while DEPOSIT is paused", async () => {
+      const { vault, crystals, owner, user, other, deadline, permit } = await permitFixture();
+      const { signature } = await permit(parseEther("10"));
+
+      // The permit names the user as owner, so another caller has no allowance to spend
+      await expectRevert(
+        vault.write.depositWithPermit(
+          [crystals.address, parseEther("10"), deadline, signature.v, signature.r, signature.s],
+          { account: other.account }
+        ),
+        "ERC20: insufficient allowance"
+      );
+
+      await vault.write.pause([await vault.read.DEPOSIT_ACTION()], { account: owner.account });
+      await expectRevert(
+        vault.write.depositWithPermit(
+          [crystals.address, parseEther("10"), deadline, signature.v, signature.r, signature.s],
+          { account: user.account }
+        ),
+        "Action paused"
+      );
+    });
+  });
 });